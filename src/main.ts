@@ -10,7 +10,7 @@ import { ObjectLoader } from './systems/ObjectLoader'
 import { AnimationSystem } from './systems/AnimationSystem'
 import { ConsoleCommands } from './systems/ConsoleCommands'
 import { CollisionSystem } from './systems/CollisionSystem'
-import { CameraManager } from './systems/CameraManager'
+import { CameraManager, type CameraMode } from './systems/CameraManager'
 import { PlayerController } from './systems/PlayerController'
 import { ParameterManager } from './systems/ParameterManager'
 import { ParameterGUI } from './systems/ParameterGUI'
@@ -21,6 +21,24 @@ import { DebugGUIManager } from './systems/DebugGUIManager'
 import { HUDSystem, HUDData } from './systems/HUDSystem'
 import { InputSystem, GamepadInputHandler } from './systems/InputSystem'
 import { RetroPostProcessingSystem } from './systems/RetroPostProcessingSystem'
+import { SplitScreenSystem, toHUDGamepad } from './systems/SplitScreenSystem'
+import { MinimapSystem } from './systems/MinimapSystem'
+import { ViewportManager } from './systems/ViewportManager'
+import { ShorelineDepthMap } from './systems/ShorelineDepthMap'
+import { OceanReflectionSystem } from './systems/OceanReflectionSystem'
+import { OceanRippleSystem, createRippleSource, type RippleSource } from './systems/OceanRippleSystem'
+import { BuoyancySystem } from './systems/BuoyancySystem'
+import {
+  generateGerstnerWaves,
+  getOceanWindParams,
+  packGerstnerWaves,
+  sampleGerstnerWaves,
+  DEFAULT_GERSTNER_WAVE_COUNT,
+  MAX_GERSTNER_WAVES,
+  type GerstnerWave,
+  type OceanSurfaceSample,
+  type OceanWindParams
+} from './systems/OceanWaves'
 import { SHADERS, ShaderPath } from './shaderImports'
 
 // TSL (Three Shader Language) - works with both WebGL and WebGPU!
@@ -89,16 +107,29 @@ class ShaderLoader {
 // OCEAN LOD SYSTEM
 // ============================================================================
 
+/**
+ * One clipmap ring. Level 0 is a full grid under the camera, each level after it has twice the
+ * cell size and a hole where the previous level sits.
+ */
 interface OceanLODLevel {
-  geometry: THREE.PlaneGeometry
+  geometry: THREE.BufferGeometry
   material: THREE.ShaderMaterial
   mesh: THREE.Mesh
   shadowMesh: THREE.Mesh
-  distance: number
-  size: number
-  segments: number
+  cellSize: number
+  size: number // Edge length of the grid (the outer rows fold onto the next ring's hole)
 }
 
+// Ocean clipmap layout. Each ring's hole is CLIPMAP_HOLE_CELLS of the finer level's cells across
+// (half that many of its own); the finer grid reaches 2 cells past it so it always covers the
+// hole whichever way the two levels are snapped.
+const CLIPMAP_LEVELS = 8
+const CLIPMAP_BASE_CELL = 1 // World units per cell in the finest level
+const CLIPMAP_HOLE_CELLS = 32
+const CLIPMAP_HALF_CELLS = CLIPMAP_HOLE_CELLS + 2
+const CLIPMAP_UNBOUNDED = 1e9 // The outermost ring has no next ring to fold into or morph towards
+const OCEAN_LEVEL = -2
+
 interface LandPiece {
   geometry: THREE.BufferGeometry
   material: THREE.ShaderMaterial
@@ -111,9 +142,14 @@ interface LandPiece {
 
 class OceanLODSystem {
   private lodLevels: OceanLODLevel[] = []
-  private camera: THREE.Camera
+  private camera: THREE.Camera // The clipmap follows this camera
   private scene: THREE.Scene
   private oceanUniforms: { [key: string]: { value: any } }
+  private waves: GerstnerWave[] = []
+  private waveCount: number = DEFAULT_GERSTNER_WAVE_COUNT
+  private customWaves: boolean = false // Set with setWaves(), otherwise generated from the wind uniforms
+  private generatedFrom: OceanWindParams | null = null
+  private shorelineMap: ShorelineDepthMap = new ShorelineDepthMap({ waterLevel: OCEAN_LEVEL })
 
   constructor(camera: THREE.Camera, scene: THREE.Scene) {
     this.camera = camera
@@ -132,38 +168,60 @@ class OceanLODSystem {
       uReflectionStrength: { value: 0.6 },
       uSunDirection: { value: new THREE.Vector3(0.5, 0.8, 0.2) },
       uSunColor: { value: new THREE.Color(0xffffff) },
-      uSunIntensity: { value: 1.0 }
+      uSunIntensity: { value: 1.0 },
+      uWaves: { value: Array.from({ length: MAX_GERSTNER_WAVES }, () => new THREE.Vector4()) },
+      uWaveSpeeds: { value: new Array(MAX_GERSTNER_WAVES).fill(0) },
+      uWaveCount: { value: 0 },
+      uClipmapOrigin: { value: new THREE.Vector2() }, // Camera XZ the rings morph around
+      // Ground under the water around the land (see ShorelineDepthMap)
+      uShoreMap: { value: null },
+      uShoreMapBounds: { value: new THREE.Vector4() },
+      uSeabedHeight: { value: -12.0 },
+      uShallowDepth: { value: 6.0 }, // Depth at which the water reaches the deep color
+      uShoreFoamWidth: { value: 1.5 }, // Depth the shoreline foam reaches out to
+      uShoreSoftness: { value: 0.4 }, // Depth over which the water fades in at the waterline
+      // Planar reflection/refraction targets (see OceanReflectionSystem)
+      uReflectionMap: { value: null },
+      uRefractionMap: { value: null },
+      uReflectionMatrix: { value: new THREE.Matrix4() },
+      uRefractionMatrix: { value: new THREE.Matrix4() },
+      uReflectionEnabled: { value: 0 },
+      uRefractionEnabled: { value: 0 },
+      uDistortion: { value: 0.03 },
+      // Wake/ripple simulation around the camera (see OceanRippleSystem)
+      uRippleMap: { value: null },
+      uRippleBounds: { value: new THREE.Vector4() },
+      uRippleTexelSize: { value: 0.25 },
+      uRippleStrength: { value: 1.0 }
     }
+    this.syncWaves()
   }
 
   public async createLODLevels(oceanShaders: { vertex: string; fragment: string }): Promise<void> {
-    // Simplified LOD system with only 3 levels for smoother transitions
-    const lodConfigs = [
-      { distance: 0, size: 300, segments: 128 },    // Close - high detail
-      { distance: 200, size: 800, segments: 64 },   // Medium - medium detail  
-      { distance: 800, size: 2000, segments: 32 }   // Far - low detail (large coverage)
-    ]
-
-    for (let i = 0; i < lodConfigs.length; i++) {
-      const config = lodConfigs[i]
-      
-      // Create geometry with appropriate detail level  
-      const geometry = new THREE.PlaneGeometry(config.size, config.size, config.segments, config.segments)
-      geometry.rotateX(-Math.PI / 2) // Rotate to make it horizontal (X-Z plane)
-
-      // Add random attributes for wave variation
-      const positionAttribute = geometry.getAttribute('position')
-      const randomValues = new Float32Array(positionAttribute.count)
-      for (let j = 0; j < randomValues.length; j++) {
-        randomValues[j] = Math.random()
-      }
-      geometry.setAttribute('aRandom', new THREE.BufferAttribute(randomValues, 1))
+    for (let i = 0; i < CLIPMAP_LEVELS; i++) {
+      const cellSize = CLIPMAP_BASE_CELL * Math.pow(2, i)
+      const geometry = this.createRingGeometry(cellSize, i === 0 ? 0 : CLIPMAP_HOLE_CELLS / 2)
+      const isLast = i === CLIPMAP_LEVELS - 1
 
-      // Create material with shared uniforms
+      // Every ring shares the ocean uniforms; the clipmap ones are its own (a shared material
+      // wouldn't re-upload them between rings)
       const material = new THREE.ShaderMaterial({
         vertexShader: oceanShaders.vertex,
         fragmentShader: oceanShaders.fragment,
-        uniforms: this.oceanUniforms,
+        uniforms: {
+          ...this.oceanUniforms,
+          uCellSize: { value: cellSize },
+          // The next ring's hole: vertices past it fold onto its edge
+          uOuterCenter: { value: new THREE.Vector2() },
+          uOuterHalfSize: { value: isLast ? CLIPMAP_UNBOUNDED : CLIPMAP_HOLE_CELLS * cellSize },
+          // Distance from the camera over which odd vertices slide onto the next ring's grid:
+          // from past this ring's own hole edge to the closest the next hole's edge can get
+          uMorphRange: {
+            value: isLast
+              ? new THREE.Vector2(CLIPMAP_UNBOUNDED, 2 * CLIPMAP_UNBOUNDED)
+              : new THREE.Vector2((CLIPMAP_HOLE_CELLS / 2 + 1) * cellSize, (CLIPMAP_HOLE_CELLS - 2) * cellSize)
+          }
+        },
         transparent: true,
         side: THREE.DoubleSide,
         blending: THREE.NormalBlending,
@@ -172,113 +230,136 @@ class OceanLODSystem {
         alphaTest: 0.1 // Discard fully transparent pixels
       })
 
-      // Create mesh
       const mesh = new THREE.Mesh(geometry, material)
-      mesh.position.set(0, -2, 0) // Fixed position at origin
-      mesh.userData = { 
-        id: `ocean-lod-${i}`, 
-        type: 'ocean', 
+      mesh.position.set(0, OCEAN_LEVEL, 0)
+      mesh.frustumCulled = false // Vertices are moved in the shader; the rings surround the camera anyway
+      mesh.userData = {
+        id: `ocean-lod-${i}`,
+        type: 'ocean',
         lodLevel: i,
-        distance: config.distance,
-        size: config.size 
+        cellSize,
+        size: 2 * CLIPMAP_HALF_CELLS * cellSize
       }
 
       // Ocean receives shadows but cannot cast them with custom shaders
       mesh.receiveShadow = true  // Water receives shadows from land
       mesh.castShadow = false    // Custom shaders don't support shadow casting
-      
-      // Create invisible shadow-casting plane for this LOD level
-      const shadowGeometry = new THREE.PlaneGeometry(config.size, config.size, 32, 32)
-      shadowGeometry.rotateX(-Math.PI / 2)
-      
+
+      // Invisible flat copy of the ring that casts the ocean's shadows
       const shadowMaterial = new THREE.MeshStandardMaterial({
         transparent: true,
         opacity: 0, // Invisible
         color: 0x006994,
         depthWrite: false // Don't write to depth buffer to avoid interfering with ocean
       })
-      
-      const shadowMesh = new THREE.Mesh(shadowGeometry, shadowMaterial)
-      shadowMesh.position.set(0, -1.9, 0) // Slightly higher than ocean to avoid Z-fighting
+
+      const shadowMesh = new THREE.Mesh(geometry, shadowMaterial)
+      shadowMesh.position.set(0, OCEAN_LEVEL + 0.1, 0) // Slightly higher than ocean to avoid Z-fighting
       shadowMesh.castShadow = true
       shadowMesh.receiveShadow = false
-      shadowMesh.userData = { 
-        id: `ocean-shadow-${i}`, 
-        type: 'ocean-shadow', 
+      shadowMesh.userData = {
+        id: `ocean-shadow-${i}`,
+        type: 'ocean-shadow',
         lodLevel: i,
         visible: false // Mark as helper mesh
       }
-      
-      this.scene.add(shadowMesh)
 
-      // Add to scene
+      this.scene.add(shadowMesh)
       this.scene.add(mesh)
 
-      // Store LOD level
       this.lodLevels.push({
         geometry,
         material,
         mesh,
         shadowMesh,
-        distance: config.distance,
-        size: config.size,
-        segments: config.segments
+        cellSize,
+        size: 2 * CLIPMAP_HALF_CELLS * cellSize
       })
     }
 
-    console.log(`🌊 Simplified Ocean LOD System created with ${this.lodLevels.length} levels`)
+    this.positionRings(this.camera.position.x, this.camera.position.z)
+
+    const outerEdge = CLIPMAP_HOLE_CELLS * CLIPMAP_BASE_CELL * Math.pow(2, CLIPMAP_LEVELS - 1)
+    console.log(`🌊 Ocean clipmap created with ${this.lodLevels.length} rings (reaches ${outerEdge} units)`)
     console.log('🌊 Ocean shadow settings: receiveShadow=true, invisible shadow casters added')
   }
 
-  public update(time: number): void {
-    // Update time uniform for all levels
-    this.oceanUniforms.uTime.value = time * 0.001
+  /**
+   * Square grid of cells on the XZ plane, centred on the origin, without the quads inside
+   * ±holeCells. Positions are in world units so the shader can tell odd rows and columns apart.
+   */
+  private createRingGeometry(cellSize: number, holeCells: number): THREE.BufferGeometry {
+    const side = 2 * CLIPMAP_HALF_CELLS + 1
+    const positions = new Float32Array(side * side * 3)
+
+    for (let row = 0; row < side; row++) {
+      for (let column = 0; column < side; column++) {
+        const index = row * side + column
+        positions[index * 3] = (column - CLIPMAP_HALF_CELLS) * cellSize
+        positions[index * 3 + 2] = (row - CLIPMAP_HALF_CELLS) * cellSize
+      }
+    }
 
-    const cameraPosition = this.camera.position
-    
-    // Calculate camera distance from origin for zoom-based decisions
-    const cameraDistance = Math.sqrt(
-      cameraPosition.x * cameraPosition.x + 
-      cameraPosition.z * cameraPosition.z
-    )
-    
-    // Determine which single LOD level to show based on camera distance
-    let activeLODIndex = 0
-    
-    if (cameraDistance < 150) {
-      activeLODIndex = 0 // Close: high detail
-    } else if (cameraDistance < 600) {
-      activeLODIndex = 1 // Medium: medium detail
-    } else {
-      activeLODIndex = 2 // Far: low detail
+    const indices: number[] = []
+    const insideHole = (cell: number) => cell >= -holeCells && cell + 1 <= holeCells
+    for (let row = 0; row < side - 1; row++) {
+      for (let column = 0; column < side - 1; column++) {
+        if (holeCells > 0 && insideHole(column - CLIPMAP_HALF_CELLS) && insideHole(row - CLIPMAP_HALF_CELLS)) {
+          continue
+        }
+        const a = row * side + column
+        const b = a + 1
+        const c = a + side
+        const d = c + 1
+        indices.push(a, c, b, b, c, d) // Counter-clockwise seen from above
+      }
     }
-    
+
+    const geometry = new THREE.BufferGeometry()
+    geometry.setAttribute('position', new THREE.BufferAttribute(positions, 3))
+    geometry.setIndex(indices)
+    geometry.computeBoundingSphere()
+    return geometry
+  }
+
+  /**
+   * Snap each ring to a grid of twice its cell size around the camera, so vertices stay on fixed
+   * world points (no swimming) and line up with the next ring's vertices
+   */
+  private positionRings(cameraX: number, cameraZ: number): void {
+    this.oceanUniforms.uClipmapOrigin.value.set(cameraX, cameraZ)
+
     for (let i = 0; i < this.lodLevels.length; i++) {
       const level = this.lodLevels[i]
-      
-      // Only the active LOD level is visible - eliminates jumping between levels
-      const isActive = (i === activeLODIndex)
-      level.mesh.visible = isActive
-      level.shadowMesh.visible = isActive
-      
-      if (isActive) {
-        // Keep ocean centered at global origin - DO NOT follow camera
-        level.mesh.position.set(0, -2, 0)
-        level.shadowMesh.position.set(0, -1.9, 0)
-        
-        // For close-up detail, allow slight following to prevent edge visibility
-        if (i === 0 && cameraDistance < 100) {
-          // Only follow camera when very close to prevent seeing edges
-          const followX = Math.max(-50, Math.min(50, cameraPosition.x * 0.3))
-          const followZ = Math.max(-50, Math.min(50, cameraPosition.z * 0.3))
-          level.mesh.position.x = followX
-          level.mesh.position.z = followZ
-          level.shadowMesh.position.set(followX, -1.9, followZ)
-        }
+      const snap = 2 * level.cellSize
+      const x = Math.round(cameraX / snap) * snap
+      const z = Math.round(cameraZ / snap) * snap
+      level.mesh.position.set(x, OCEAN_LEVEL, z)
+      level.shadowMesh.position.set(x, OCEAN_LEVEL + 0.1, z)
+
+      const next = this.lodLevels[i + 1]
+      if (next) {
+        const nextSnap = 2 * next.cellSize
+        level.material.uniforms.uOuterCenter.value.set(
+          Math.round(cameraX / nextSnap) * nextSnap,
+          Math.round(cameraZ / nextSnap) * nextSnap
+        )
       }
     }
   }
 
+  /**
+   * @param camera - Camera the rings follow this frame (defaults to the one given to the constructor)
+   */
+  public update(time: number, camera: THREE.Camera = this.camera): void {
+    // Update time uniform for all levels
+    this.oceanUniforms.uTime.value = time * 0.001
+    this.syncWaves()
+
+    this.camera = camera
+    this.positionRings(camera.position.x, camera.position.z)
+  }
+
   public setWaveAmplitude(amplitude: number): void {
     this.oceanUniforms.uAmplitude.value = amplitude
   }
@@ -296,6 +377,41 @@ class OceanLODSystem {
     this.oceanUniforms.uDeepWaterColor.value.copy(deep)
   }
 
+  public setFoamColor(color: THREE.Color): void {
+    this.oceanUniforms.uFoamColor.value.copy(color)
+  }
+
+  // ============================================================================
+  // SHORELINE
+  // ============================================================================
+
+  /**
+   * Rebake the ground height under the water from the land meshes (shoreline foam, shallow
+   * tint and soft edges all come from the resulting water depth)
+   * @param seabedHeight - Open-sea floor, where no land is near
+   */
+  public updateShoreline(landMeshes: THREE.Mesh[], seabedHeight?: number): void {
+    if (seabedHeight !== undefined) {
+      this.shorelineMap.setConfig({ seabedHeight })
+      this.oceanUniforms.uSeabedHeight.value = seabedHeight
+    }
+    this.shorelineMap.build(landMeshes)
+    this.oceanUniforms.uShoreMap.value = this.shorelineMap.getTexture()
+    this.oceanUniforms.uShoreMapBounds.value.copy(this.shorelineMap.getBounds())
+  }
+
+  public setShallowDepth(depth: number): void {
+    this.oceanUniforms.uShallowDepth.value = Math.max(0.1, depth)
+  }
+
+  public setShoreFoamWidth(width: number): void {
+    this.oceanUniforms.uShoreFoamWidth.value = Math.max(0, width)
+  }
+
+  public setShoreSoftness(softness: number): void {
+    this.oceanUniforms.uShoreSoftness.value = Math.max(0.01, softness)
+  }
+
   public setSunDirection(direction: THREE.Vector3): void {
     this.oceanUniforms.uSunDirection.value.copy(direction)
   }
@@ -308,19 +424,113 @@ class OceanLODSystem {
     this.oceanUniforms.uSunIntensity.value = intensity
   }
 
+  /**
+   * The uniforms every ring's material shares
+   */
+  public getUniforms(): { [key: string]: { value: any } } {
+    return this.oceanUniforms
+  }
+
   public getLODLevels(): OceanLODLevel[] {
     return this.lodLevels
   }
 
+  /**
+   * Height of the rendered water surface at a world position, matching the vertex shader
+   */
+  public getWaterHeight(x: number, z: number): number {
+    return this.sampleHeight(x, z).height
+  }
+
+  /**
+   * World height and normal of the water surface at (x, z), as drawn by the vertex shader
+   * @param t - Wave time in seconds (defaults to the current frame's)
+   */
+  public sampleHeight(x: number, z: number, t?: number): OceanSurfaceSample {
+    this.syncWaves()
+    const sample = sampleGerstnerWaves(x, z, t ?? this.oceanUniforms.uTime.value, this.waves)
+    sample.height += OCEAN_LEVEL
+    return sample
+  }
+
+  // ============================================================================
+  // GERSTNER WAVES
+  // ============================================================================
+
+  /**
+   * Replace the wind-generated waves (up to MAX_GERSTNER_WAVES); the wind uniforms are ignored
+   * until resetWaves()
+   */
+  public setWaves(waves: GerstnerWave[]): void {
+    this.waves = waves.slice(0, MAX_GERSTNER_WAVES).map(wave => ({
+      ...wave,
+      direction: wave.direction.clone().normalize()
+    }))
+    this.customWaves = true
+    this.uploadWaves()
+  }
+
+  /**
+   * Go back to waves generated from the wind uniforms
+   */
+  public resetWaves(): void {
+    this.customWaves = false
+    this.generatedFrom = null
+    this.syncWaves()
+  }
+
+  public setWaveCount(count: number): void {
+    this.waveCount = THREE.MathUtils.clamp(Math.round(count), 1, MAX_GERSTNER_WAVES)
+    this.generatedFrom = null
+    this.syncWaves()
+  }
+
+  public getWaveCount(): number {
+    return this.waveCount
+  }
+
+  public getWaves(): GerstnerWave[] {
+    return this.waves.map(wave => ({ ...wave, direction: wave.direction.clone() }))
+  }
+
+  /**
+   * Regenerate the waves when a wind uniform changed (they're also edited directly by the debug
+   * GUI and config integration)
+   */
+  private syncWaves(): void {
+    if (this.customWaves) return
+
+    const params = getOceanWindParams(this.oceanUniforms)
+    const previous = this.generatedFrom
+    if (previous &&
+        previous.amplitude === params.amplitude &&
+        previous.windDirection.equals(params.windDirection) &&
+        previous.windStrength === params.windStrength &&
+        previous.waveLength === params.waveLength &&
+        previous.waveSpeed === params.waveSpeed) {
+      return
+    }
+
+    this.generatedFrom = { ...params, windDirection: params.windDirection.clone() }
+    this.waves = generateGerstnerWaves(params, this.waveCount)
+    this.uploadWaves()
+  }
+
+  private uploadWaves(): void {
+    this.oceanUniforms.uWaveCount.value = packGerstnerWaves(
+      this.waves,
+      this.oceanUniforms.uWaves.value,
+      this.oceanUniforms.uWaveSpeeds.value
+    )
+  }
+
   // Legacy method removed - position locking now handled by ObjectManager
 
+  /**
+   * Re-centre the rings on the origin (they go back to following the camera next frame)
+   */
   public resetOceanPositions(): void {
-    // Reset all ocean planes to origin
-    for (let i = 0; i < this.lodLevels.length; i++) {
-      const level = this.lodLevels[i]
-      level.mesh.position.set(0, -2, 0) // Reset to origin
-      level.shadowMesh.position.set(0, -1.9, 0) // Reset shadow mesh too
-    }
+    this.positionRings(0, 0)
   }
 
   public setOceanShadowCasting(enabled: boolean): void {
@@ -343,6 +553,7 @@ class LandSystem {
   private scene: THREE.Scene
   private landUniforms: { [key: string]: { value: any } }
   private collisionSystem?: CollisionSystem
+  private landChangedListeners: Array<() => void> = []
 
   constructor(scene: THREE.Scene) {
     this.scene = scene
@@ -483,6 +694,7 @@ class LandSystem {
     // This ensures proper initialization order and avoids duplicate registration
 
     console.log(`🏔️ Land piece created: ${type} (${id}) - receiveShadow=true, invisible shadow caster added`)
+    this.notifyLandChanged()
     return landPiece
   }
 
@@ -498,22 +710,43 @@ class LandSystem {
     this.collisionSystem = collisionSystem
   }
 
+  /**
+   * Called after land pieces are added or removed, or a parameter that moves vertices changes
+   */
+  public onLandChanged(listener: () => void): void {
+    this.landChangedListeners.push(listener)
+  }
+
+  private notifyLandChanged(): void {
+    this.landChangedListeners.forEach(listener => listener())
+  }
+
   public setElevation(elevation: number): void {
     this.landUniforms.uElevation.value = elevation
-    // TODO: Update collision geometry when parameters change
-    console.log(`🏔️ Elevation set to ${elevation} - use refreshCollisionMeshes() to update collision`)
+    this.refreshCollision()
+    console.log(`🏔️ Elevation set to ${elevation}`)
   }
 
   public setRoughness(roughness: number): void {
     this.landUniforms.uRoughness.value = roughness
-    // TODO: Update collision geometry when parameters change  
-    console.log(`🏔️ Roughness set to ${roughness} - use refreshCollisionMeshes() to update collision`)
+    this.refreshCollision()
+    console.log(`🏔️ Roughness set to ${roughness}`)
   }
 
   public setScale(scale: number): void {
     this.landUniforms.uScale.value = scale
-    // TODO: Update collision geometry when parameters change
-    console.log(`🏔️ Scale set to ${scale} - use refreshCollisionMeshes() to update collision`)
+    this.refreshCollision()
+    console.log(`🏔️ Scale set to ${scale}`)
+  }
+
+  /**
+   * Rebuild the collision heightfield after a parameter that moves vertices changes
+   */
+  private refreshCollision(): void {
+    if (this.collisionSystem) {
+      this.collisionSystem.refreshLandMeshes()
+    }
+    this.notifyLandChanged()
   }
 
   public setLandColor(color: THREE.Color): void {
@@ -572,6 +805,7 @@ class LandSystem {
       piece.shadowMesh.geometry.dispose()
       this.landPieces.splice(index, 1)
       console.log(`🏔️ Land piece removed: ${id}`)
+      this.notifyLandChanged()
       return true
     }
     return false
@@ -605,6 +839,7 @@ class LandSystem {
     if (this.collisionSystem) {
       this.collisionSystem.registerLandMeshes([])
     }
+    this.notifyLandChanged()
   }
 
   public setLandShadowCasting(enabled: boolean): void {
@@ -740,6 +975,9 @@ class IntegratedThreeJSApp {
   // Animation and systems
   private animationSystem: AnimationSystem
   private oceanLODSystem: OceanLODSystem | null = null
+  private oceanReflectionSystem: OceanReflectionSystem | null = null
+  private oceanRippleSystem: OceanRippleSystem | null = null
+  private buoyancySystem!: BuoyancySystem
   private landSystem: LandSystem | null = null
   private deviceType: DeviceType
   private inputMethods: InputMethod[]
@@ -760,6 +998,9 @@ class IntegratedThreeJSApp {
   private inputSystem!: InputSystem
   private gamepadHandler!: GamepadInputHandler
   private retroPostProcessing!: RetroPostProcessingSystem
+  private splitScreenSystem!: SplitScreenSystem
+  private minimapSystem!: MinimapSystem
+  private viewportManager!: ViewportManager
   
   // Timing for delta time calculation
   private lastTime: number = 0
@@ -818,7 +1059,7 @@ class IntegratedThreeJSApp {
     
     // Initialize new modular systems
     this.collisionSystem = new CollisionSystem()
-    this.cameraManager = new CameraManager(this.scene, this.renderer, this.container)
+    this.cameraManager = new CameraManager(this.scene, this.renderer, this.container, this.collisionSystem)
     this.parameterManager = new ParameterManager()
     this.parameterGUI = new ParameterGUI(this.parameterManager, {
       container: this.container,
@@ -853,11 +1094,72 @@ class IntegratedThreeJSApp {
       )
     
     // Initialize gamepad handler and connect to player controller
-    this.gamepadHandler = this.inputSystem.createGamepadHandler((input) => {
+    this.gamepadHandler = this.inputSystem.createGamepadHandler((input, gamepadIndex) => {
+      // Extra gamepads drive their own split-screen players
+      if (this.splitScreenSystem.handleGamepadInput(gamepadIndex, input)) return
       this.playerController.handleGamepadInput(input)
+      this.cameraManager.handleGamepadInput(input)
     })
     this.inputSystem.addHandler(this.gamepadHandler)
     
+    // Split-screen: every gamepad after the first spawns another player with its own viewport
+    this.splitScreenSystem = new SplitScreenSystem({
+      scene: this.scene,
+      renderer: this.renderer,
+      collisionSystem: this.collisionSystem,
+      cameraManager: this.cameraManager,
+      inputSystem: this.inputSystem,
+      retroPostProcessing: this.retroPostProcessing,
+      hud: this.hudSystem,
+      player: this.playerController
+    })
+    this.inputSystem.setGamepadConnectionListener((gamepad, connected) => {
+      this.splitScreenSystem.onGamepadConnectionChange(gamepad, connected)
+    })
+    
+    // Floating crates, buoys and boats ride the same wave function the ocean renders
+    this.buoyancySystem = new BuoyancySystem(this.collisionSystem, this.objectManager)
+    this.buoyancySystem.setWaterSampler((x: number, z: number) => this.oceanLODSystem?.sampleHeight(x, z) ?? null)
+    
+    const setupPlayer = (player: PlayerController) => {
+      // Locked objects can't be pushed or picked up by the player
+      player.setObjectLockChecker((id: string) => this.objectManager.isObjectLocked(id))
+      
+      // The player swims wherever the capsule is below the animated ocean surface
+      player.setWaterHeightSampler((x: number, z: number) => this.oceanLODSystem?.getWaterHeight(x, z) ?? null)
+      
+      // Boats can be boarded with the action button
+      player.setVehicleLookup((id: string) => this.buoyancySystem.getVehicle(id))
+    }
+    setupPlayer(this.playerController)
+    this.splitScreenSystem.setPlayerSetup(setupPlayer)
+    
+    // Top-down map markers and the corner minimap
+    this.minimapSystem = new MinimapSystem({
+      scene: this.scene,
+      renderer: this.renderer,
+      cameraManager: this.cameraManager,
+      collisionSystem: this.collisionSystem
+    })
+    this.minimapSystem.setFeatureSource({
+      getOceanMeshes: () => this.oceanLODSystem?.getLODLevels().map(level => level.mesh) ?? [],
+      getLandMeshes: () => this.landSystem?.getLandMeshes() ?? [],
+      getObjects: () => this.objectManager.getAllObjects()
+        .filter(managedObject => managedObject.type !== 'ocean' && managedObject.type !== 'land')
+        .map(managedObject => ({
+          object: managedObject.mesh,
+          locked: this.objectManager.isObjectLocked(managedObject.id)
+        }))
+    })
+    
+    // Picture-in-picture debug viewports (managed from the debug GUI)
+    this.viewportManager = new ViewportManager(this.scene, this.renderer)
+    this.viewportManager.registerCamera('player', () => this.cameraManager.getPosedCamera('player'))
+    this.viewportManager.registerCamera('third-person', () => this.cameraManager.getPosedCamera('third-person'))
+    this.viewportManager.registerCamera('system', () => this.cameraManager.getPosedCamera('system'))
+    this.viewportManager.registerCamera('fly', () => this.cameraManager.getPosedCamera('fly'))
+    this.viewportManager.registerCamera('map', () => this.cameraManager.getPosedCamera('map'))
+    
     // Register camera with ObjectManager for persistence
     this.objectManager.registerCamera(this.camera, this.controls)
     
@@ -880,8 +1182,12 @@ class IntegratedThreeJSApp {
       retroPostProcessing: this.retroPostProcessing,
       cameraManager: this.cameraManager,
       playerController: this.playerController,
+      splitScreenSystem: this.splitScreenSystem,
+      minimapSystem: this.minimapSystem,
+      viewportManager: this.viewportManager,
       oceanLODSystem: this.oceanLODSystem,
       landSystem: this.landSystem,
+      buoyancySystem: this.buoyancySystem,
       deviceType: this.deviceType,
       inputMethods: this.inputMethods,
       parameterManager: this.parameterManager,
@@ -895,6 +1201,12 @@ class IntegratedThreeJSApp {
     this.animationSystem.setLockedPositionChecker((uuid: string) => this.objectManager.getLockedPositions().has(uuid))
     
     await this.createContent()
+    this.consoleCommands.updateAppReference({
+      oceanLODSystem: this.oceanLODSystem,
+      oceanReflectionSystem: this.oceanReflectionSystem,
+      oceanRippleSystem: this.oceanRippleSystem,
+      landSystem: this.landSystem
+    })
     
     this.setupEventListeners()
     this.animate()
@@ -1132,7 +1444,10 @@ class IntegratedThreeJSApp {
       collisionSystem: this.collisionSystem,
       cameraManager: this.cameraManager,
       playerController: this.playerController,
+      viewportManager: this.viewportManager,
       oceanLODSystem: this.oceanLODSystem,
+      oceanReflectionSystem: this.oceanReflectionSystem,
+      oceanRippleSystem: this.oceanRippleSystem,
       landSystem: this.landSystem,
       sky: this.sky,
       skyConfig: this.skyConfig,
@@ -1153,10 +1468,13 @@ class IntegratedThreeJSApp {
     // Enable performance monitoring
     performanceMonitor.enable()
     
-    // Show player debug wireframe if in player camera mode
-    if (this.cameraManager.getCurrentMode() === 'player') {
+    // Show player debug wireframe if in a player camera mode
+    if (this.cameraManager.getCurrentMode() !== 'system') {
       this.playerController.setDebugVisible(true)
     }
+
+    // Show trigger volume wireframes
+    ObjectLoader.setTriggerDebugVisible(true)
     
     logger.info(LogModule.SYSTEM, 'Debug mode enabled with centralized GUI Manager and Parameter GUI')
   }
@@ -1193,6 +1511,9 @@ class IntegratedThreeJSApp {
     
     // Hide player debug wireframe
     this.playerController.setDebugVisible(false)
+
+    // Hide trigger volume wireframes
+    ObjectLoader.setTriggerDebugVisible(false)
     
     logger.info(LogModule.SYSTEM, 'Debug mode disabled - parameters preserved')
   }
@@ -1245,13 +1566,21 @@ class IntegratedThreeJSApp {
         this.collisionSystem.registerLandMeshes(landMeshes)
         console.log(`🏔️ Registered ${landMeshes.length} land meshes for primitive collision detection`)
       }
+
+      // Water depth around the land for the ocean shader, kept up to date as land changes
+      const updateShoreline = () => this.oceanLODSystem?.updateShoreline(
+        this.landSystem!.getLandMeshes(),
+        this.collisionSystem.getSeabedHeight()
+      )
+      this.landSystem.onLandChanged(updateShoreline)
+      updateShoreline()
     }
     
     // Set up camera switching controls
     this.setupCameraSwitching()
     
     // Initialize ObjectLoader with required systems
-    ObjectLoader.initialize(this.scene, this.objectManager, this.animationSystem)
+    ObjectLoader.initialize(this.scene, this.objectManager, this.animationSystem, this.collisionSystem)
     
     // Load all objects using the unified ObjectLoader system
     await ObjectLoader.loadDefaultScene()
@@ -1259,7 +1588,13 @@ class IntegratedThreeJSApp {
     // CRITICAL FIX: Load saved positions AFTER objects are created
     // This ensures saved positions override default positions from JSON config
     this.objectManager.loadPersistentStates()
-    
+
+    // Register managed objects with the collision system so the player can't walk through them
+    // Volumes follow the mesh transform, so animated objects stay in sync
+    this.objectManager.getAllObjects().forEach(managedObject => {
+      this.collisionSystem.registerMesh(managedObject.id, managedObject.mesh)
+    })
+
     // Log loaded positions for debugging
     const allObjects = this.objectManager.getAllObjects()
     const tslObjects = allObjects.filter(obj => obj.type === 'tsl' || obj.id.includes('tsl'))
@@ -1336,23 +1671,42 @@ class IntegratedThreeJSApp {
    * Set up camera switching functionality
    */
   private setupCameraSwitching(): void {
-    // Create camera mode indicator
+    // Create camera mode indicator, kept in sync with every mode change (camera paths end on their own)
     this.createCameraModeIndicator()
+    this.cameraManager.setModeChangeListener((mode) => this.updateCameraModeIndicator(mode))
+    
+    // Bookmarked player views move the player along with the camera
+    this.cameraManager.setPlayerTeleporter((position) => this.playerController.setPosition(position))
     
     // Add keyboard listener for camera switching
     document.addEventListener('keydown', (event) => {
+      // Number keys 1-9 jump to camera bookmarks (not while typing into GUI fields)
+      const digit = /^Digit([1-9])$/.exec(event.code)
+      if (digit && !event.ctrlKey && !event.metaKey && !event.altKey && !this.isTextInputFocused(event)) {
+        const number = Number(digit[1])
+        const bookmark = this.cameraManager.getBookmark(number)
+        if (bookmark && this.cameraManager.goToBookmark(number)) {
+          this.showTemporaryMessage(`📍 ${bookmark.name}`, 1500)
+        }
+        return
+      }
+      
       if (event.code === 'KeyC') {
         const currentMode = this.cameraManager.getCurrentMode()
+        
+        // C during a camera path ends it and blends back to where it started
+        if (currentMode === 'cinematic') {
+          this.cameraManager.stopCameraPath()
+          return
+        }
+        
         const newMode = currentMode === 'system' ? 'player' : 'system'
         
         // Use immediate switch with pointer lock request for user-initiated switches
         this.cameraManager.switchCamera(newMode, true)
         
-        // Update the indicator
-        this.updateCameraModeIndicator(newMode)
-        
         // Toggle player debug wireframe based on debug mode and camera mode
-        if (newMode === 'player' && this.debugState.active) {
+        if (newMode !== 'system' && this.debugState.active) {
           this.playerController.setDebugVisible(true)
         } else {
           this.playerController.setDebugVisible(false)
@@ -1371,7 +1725,7 @@ class IntegratedThreeJSApp {
           // console.log('📷 If mouse look doesn\'t work, click on the canvas first')
           
           // Show a temporary on-screen message
-          this.showTemporaryMessage('Player Mode Active - Use WASD to move, mouse to look', 3000)
+          this.showTemporaryMessage('Player Mode Active - Use WASD to move, mouse to look, V for third-person', 3000)
         } else {
           // console.log('📷 SYSTEM MODE ACTIVE:')
           // console.log('   • Mouse drag = Rotate camera')
@@ -1380,6 +1734,31 @@ class IntegratedThreeJSApp {
           
           this.showTemporaryMessage('System Mode - Press C for player movement', 2000)
         }
+      } else if (event.code === 'KeyF' && !this.isTextInputFocused(event)) {
+        // Toggle the noclip fly camera; leaving it drops the player where the camera is (from player views)
+        const currentMode = this.cameraManager.getCurrentMode()
+        if (currentMode === 'fly') {
+          this.cameraManager.exitFlyMode()
+        } else if (currentMode !== 'cinematic') {
+          this.cameraManager.switchCamera('fly')
+          this.showTemporaryMessage('Fly Mode - WASD to fly, Space/Q up/down, scroll for speed, F to exit', 3000)
+        }
+      } else if (event.code === 'KeyV' && !this.isTextInputFocused(event)) {
+        // Toggle first/third-person view with the smooth transition
+        const currentMode = this.cameraManager.getCurrentMode()
+        if (currentMode !== 'player' && currentMode !== 'third-person') return
+        
+        const newMode = currentMode === 'player' ? 'third-person' : 'player'
+        this.cameraManager.switchCamera(newMode)
+      } else if (event.code === 'KeyM' && !this.isTextInputFocused(event)) {
+        // Toggle the top-down map; leaving it goes back to the previous view
+        const currentMode = this.cameraManager.getCurrentMode()
+        if (currentMode === 'map') {
+          this.cameraManager.exitMapMode()
+        } else if (currentMode !== 'cinematic') {
+          this.cameraManager.switchCamera('map')
+          this.showTemporaryMessage('Map Mode - Drag to pan, scroll to zoom, M to exit', 3000)
+        }
       }
     })
     
@@ -1413,24 +1792,36 @@ class IntegratedThreeJSApp {
       transition: all 0.3s ease;
     `
     // Initialize with current camera mode from camera manager
-    const currentMode = this.cameraManager.getCurrentMode()
-    indicator.textContent = currentMode === 'player' ? 'Player Camera' : 'System Camera'
-    if (currentMode === 'player') {
-      indicator.style.background = 'rgba(0, 128, 0, 0.8)'
-    }
     document.body.appendChild(indicator)
+    this.updateCameraModeIndicator(this.cameraManager.getCurrentMode())
   }
 
   /**
    * Update the camera mode indicator
    */
-  private updateCameraModeIndicator(mode: 'system' | 'player'): void {
+  private updateCameraModeIndicator(mode: CameraMode): void {
     const indicator = document.getElementById('camera-mode-indicator')
     if (indicator) {
       if (mode === 'player') {
         indicator.textContent = 'Player Camera'
         indicator.style.background = 'rgba(0, 128, 0, 0.8)'
         indicator.style.color = 'white'
+      } else if (mode === 'third-person') {
+        indicator.textContent = 'Third-Person Camera'
+        indicator.style.background = 'rgba(0, 96, 160, 0.8)'
+        indicator.style.color = 'white'
+      } else if (mode === 'fly') {
+        indicator.textContent = 'Fly Camera (F to exit)'
+        indicator.style.background = 'rgba(96, 0, 128, 0.8)'
+        indicator.style.color = 'white'
+      } else if (mode === 'cinematic') {
+        indicator.textContent = 'Cinematic Camera (C to stop)'
+        indicator.style.background = 'rgba(128, 64, 0, 0.8)'
+        indicator.style.color = 'white'
+      } else if (mode === 'map') {
+        indicator.textContent = 'Map Camera (M to exit)'
+        indicator.style.background = 'rgba(0, 96, 96, 0.8)'
+        indicator.style.color = 'white'
       } else {
         indicator.textContent = 'System Camera'
         indicator.style.background = 'rgba(0, 0, 0, 0.7)'
@@ -1439,6 +1830,14 @@ class IntegratedThreeJSApp {
     }
   }
 
+  /**
+   * Whether a key event comes from a text field (lil-gui inputs, etc.) rather than the scene
+   */
+  private isTextInputFocused(event: KeyboardEvent): boolean {
+    const target = event.target as HTMLElement | null
+    return !!target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)
+  }
+
   /**
    * Show a temporary message on screen
    */
@@ -1644,6 +2043,22 @@ class IntegratedThreeJSApp {
         fragment: oceanFragmentShader
       })
 
+      this.oceanReflectionSystem = new OceanReflectionSystem({
+        renderer: this.renderer,
+        scene: this.scene,
+        retroPostProcessing: this.retroPostProcessing
+      }, OCEAN_LEVEL)
+      this.oceanReflectionSystem.attach(
+        this.oceanLODSystem.getLODLevels().map(level => level.mesh),
+        this.oceanLODSystem.getUniforms()
+      )
+
+      // Wakes and ripples wherever a player or floating object crosses the surface
+      this.oceanRippleSystem = new OceanRippleSystem(this.renderer)
+      this.oceanRippleSystem.attach(this.oceanLODSystem.getUniforms())
+      this.oceanRippleSystem.setWaterSampler((x: number, z: number) => this.oceanLODSystem?.getWaterHeight(x, z) ?? null)
+      this.oceanRippleSystem.setSourceProvider(() => this.getRippleSources())
+
       // console.log('🌊 Ocean system initialized')
 
     } catch (error) {
@@ -1670,6 +2085,23 @@ class IntegratedThreeJSApp {
     }
   }
 
+  /**
+   * Everything that can stir the water: every player's capsule and the floating objects
+   */
+  private getRippleSources(): RippleSource[] {
+    const players = [this.playerController, ...this.splitScreenSystem.getGuestPlayers()]
+    const sources = players.map(player => createRippleSource(player.getCollisionVolume(), player.getVelocity()))
+
+    const objects = this.collisionSystem.getObjects()
+    for (const body of this.buoyancySystem.getBodies()) {
+      const object = objects.get(body.id)
+      if (object?.rigidBody) {
+        sources.push(createRippleSource(object.collisionVolume, object.rigidBody.velocity))
+      }
+    }
+    return sources
+  }
+
   private async createLandSystem(): Promise<void> {
     try {
       // Load land shaders
@@ -1771,6 +2203,8 @@ class IntegratedThreeJSApp {
       this.retroPostProcessing.handleResize()
     }
     
+    this.splitScreenSystem?.handleResize()
+    
     const newDeviceType = this.detectDeviceType()
     if (newDeviceType !== this.deviceType) {
       this.deviceType = newDeviceType
@@ -1915,8 +2349,16 @@ class IntegratedThreeJSApp {
       // Update camera manager
       this.cameraManager.update(deltaTime)
       
-      // Update player controller (physics, movement, collision)
-      this.playerController.update(deltaTime)
+      // Update player controller (physics, movement, collision) - paused while the fly camera has the controls
+      if (this.cameraManager.getCurrentMode() !== 'fly') {
+        this.playerController.update(deltaTime)
+      }
+      
+      // Update split-screen guest players
+      this.splitScreenSystem.update(deltaTime)
+      
+      // Update map markers (for the map camera view)
+      this.minimapSystem.update()
       
       // Update HUD with current data
       this.updateHUD(deltaTime)
@@ -1954,7 +2396,13 @@ class IntegratedThreeJSApp {
 
       // Update ocean LOD system
       if (this.oceanLODSystem) {
-        this.oceanLODSystem.update(currentTime)
+        this.oceanLODSystem.update(currentTime, this.cameraManager.getCurrentCamera())
+      }
+      if (this.oceanReflectionSystem) {
+        this.oceanReflectionSystem.update()
+      }
+      if (this.oceanRippleSystem) {
+        this.oceanRippleSystem.update(deltaTime, this.cameraManager.getCurrentCamera())
       }
 
       // Update land system
@@ -1981,13 +2429,14 @@ class IntegratedThreeJSApp {
       // Render with current camera from camera manager
       const currentCamera = this.cameraManager.getCurrentCamera()
       
-      // Render with retro post-processing
-      if (this.retroPostProcessing) {
-        this.retroPostProcessing.render(currentCamera)
-      } else {
-        // Fallback to normal render
-        this.renderer.render(this.scene, currentCamera)
-      }
+      // Render each player's viewport (just player 1 without split-screen), with retro post-processing
+      this.splitScreenSystem.render(currentCamera)
+      
+      // Picture-in-picture debug viewports
+      this.viewportManager.render()
+      
+      // Minimap overlay in the corner (re-rendered every few frames)
+      this.minimapSystem.render()
       
       // End render timing and performance monitoring
       performanceMonitor.endRender()
@@ -2029,8 +2478,8 @@ class IntegratedThreeJSApp {
       console.log('🧪 Testing player collision detection...')
       console.log(`Player position: (${position.x.toFixed(2)}, ${position.y.toFixed(2)}, ${position.z.toFixed(2)})`)
       
-      // Test collision at player position
-      const collision = this.collisionSystem.checkCollision('player', position)
+      // Test collision at player position (the capsule is centered on the body, below the eye)
+      const collision = this.collisionSystem.checkCollision('player', this.playerController.getCollisionVolume().position)
       console.log('Collision result:', collision)
       
       // Test ground height at player position
@@ -2073,6 +2522,8 @@ class IntegratedThreeJSApp {
     // Get input states from player controller
     const inputState = this.playerController.getInputState()
     
+    const primaryGamepad = this.inputSystem.getGamepadState(this.splitScreenSystem.getPrimaryGamepadIndex() ?? undefined)
+    
     // Get performance data
     const fps = Math.round(1 / deltaTime)
     
@@ -2093,6 +2544,7 @@ class IntegratedThreeJSApp {
         z: playerVelocity.z
       },
       onGround: (playerStatus as any).onGround,
+      stamina: this.playerController.getStaminaFraction(),
       terrainHeight: terrainHeight,
       
       // Input states
@@ -2112,32 +2564,8 @@ class IntegratedThreeJSApp {
         rightButton: inputState.mouseRight || false
       },
       
-      // Gamepad state
-      gamepad: this.inputSystem.isGamepadConnected() ? (() => {
-        const gamepadState = this.inputSystem.getGamepadState()!
-        return {
-          connected: gamepadState.connected,
-          id: gamepadState.id,
-          leftStick: {
-            x: gamepadState.axes.leftStickX,
-            y: gamepadState.axes.leftStickY
-          },
-          rightStick: {
-            x: gamepadState.axes.rightStickX,
-            y: gamepadState.axes.rightStickY
-          },
-          buttons: {
-            a: gamepadState.buttons.a,
-            b: gamepadState.buttons.b,
-            x: gamepadState.buttons.x,
-            y: gamepadState.buttons.y,
-            lb: gamepadState.buttons.lb,
-            rb: gamepadState.buttons.rb,
-            lt: gamepadState.buttons.lt,
-            rt: gamepadState.buttons.rt
-          }
-        }
-      })() : undefined,
+      // Gamepad state (player 1's gamepad; split-screen guests show their own)
+      gamepad: primaryGamepad ? toHUDGamepad(primaryGamepad) : undefined,
       
       // System states
       mode: this.cameraManager.getCurrentMode(),
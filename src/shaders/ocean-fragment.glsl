@@ -8,13 +8,34 @@ uniform vec3 uSunDirection;
 uniform vec3 uSunColor;
 uniform float uSunIntensity;
 
-varying vec2 vUv;
+// Ground height under the water around the land (ShorelineDepthMap.ts)
+uniform sampler2D uShoreMap;
+uniform vec4 uShoreMapBounds; // minX, minZ, width, depth (zero size without land)
+uniform float uSeabedHeight;
+uniform float uShallowDepth;
+uniform float uShoreFoamWidth;
+uniform float uShoreSoftness;
+
+// Planar reflection/refraction passes (OceanReflectionSystem.ts)
+uniform sampler2D uReflectionMap;
+uniform sampler2D uRefractionMap;
+uniform mat4 uReflectionMatrix; // World position to target UV (before the divide)
+uniform mat4 uRefractionMatrix;
+uniform float uReflectionEnabled;
+uniform float uRefractionEnabled;
+uniform float uDistortion;
+
+// Wakes and ripples around the camera (OceanRippleSystem.ts)
+uniform sampler2D uRippleMap; // r: height, ba: slope
+uniform vec4 uRippleBounds; // minX, minZ, width, depth (zero size when off)
+uniform float uRippleStrength;
+
 varying vec3 vPosition;
 varying vec3 vWorldPosition;
-varying float vRandom;
 varying float vWaveHeight;
 varying vec3 vNormal;
 varying float vFoam;
+varying vec3 vSurfaceNormal;
 
 // Fresnel effect for water surface
 float fresnel(vec3 viewDir, vec3 normal, float power) {
@@ -36,19 +57,47 @@ float caustics(vec2 uv, float time) {
     return c * 0.1 + 0.5;
 }
 
-// Water depth calculation
-float waterDepth(vec3 worldPos) {
-    // Simulate depth based on distance from "shore" (can be customized)
-    float depth = clamp(length(worldPos.xz) * 0.02, 0.0, 10.0);
-    return depth;
+// Ground height below a point: the baked land/shelf heights near land, the seabed elsewhere
+float groundHeight(vec2 worldXZ) {
+    if (uShoreMapBounds.z <= 0.0) return uSeabedHeight;
+    
+    vec2 uv = (worldXZ - uShoreMapBounds.xy) / uShoreMapBounds.zw;
+    if (any(lessThan(uv, vec2(0.0))) || any(greaterThan(uv, vec2(1.0)))) return uSeabedHeight;
+    return texture2D(uShoreMap, uv).r;
+}
+
+// Water depth below the (displaced) surface; negative where the ground is above the water
+float waterDepth(vec3 surfacePos) {
+    return surfacePos.y - groundHeight(surfacePos.xz);
+}
+
+// How much of the ripple simulation shows at a point (fading out towards the edge of its area)
+float rippleWeight(vec2 rippleUv) {
+    if (uRippleBounds.z <= 0.0) return 0.0;
+    vec2 edge = abs(rippleUv * 2.0 - 1.0);
+    return (1.0 - smoothstep(0.8, 1.0, max(edge.x, edge.y))) * uRippleStrength;
+}
+
+// Where a surface point lands in a planar pass target, pushed around by the wave slope
+vec2 projectedUv(mat4 textureMatrix, vec3 surfacePos, vec2 offset) {
+    vec4 projected = textureMatrix * vec4(surfacePos, 1.0);
+    return clamp(projected.xy / projected.w + offset, 0.001, 0.999);
 }
 
 void main() {
     vec3 viewDirection = normalize(cameraPosition - vWorldPosition);
     vec3 normal = normalize(vNormal);
     
+    // Wakes and ripples tilt the surface by their slope (vNormal is in view space)
+    vec2 rippleUv = (vWorldPosition.xz - uRippleBounds.xy) / max(uRippleBounds.zw, vec2(0.001));
+    vec2 rippleSlope = texture2D(uRippleMap, rippleUv).ba * rippleWeight(rippleUv);
+    vec3 rippleTilt = vec3(-rippleSlope.x, 0.0, -rippleSlope.y);
+    normal = normalize(normal + mat3(viewMatrix) * rippleTilt);
+    vec3 surfaceNormal = normalize(vSurfaceNormal + rippleTilt);
+    
     // Calculate water depth
-    float depth = waterDepth(vWorldPosition);
+    float signedDepth = waterDepth(vPosition);
+    float depth = max(signedDepth, 0.0);
     
     // Base water color mixing based on depth and lighting
     vec3 shallowColor = uWaterColor;
@@ -66,7 +115,16 @@ void main() {
     shallowColor *= colorIntensity;
     deepColor *= colorIntensity;
     
-    vec3 baseColor = mix(shallowColor, deepColor, smoothstep(0.0, 5.0, depth));
+    // Shallows take on a lighter turquoise as the sand shows through
+    vec3 shallowTint = vec3(0.25, 0.75, 0.7) * colorIntensity;
+    shallowColor = mix(shallowTint, shallowColor, smoothstep(0.0, uShallowDepth * 0.4, depth));
+    vec3 baseColor = mix(shallowColor, deepColor, smoothstep(0.0, uShallowDepth, depth));
+    
+    // Refraction pass: the seabed and anything underwater shows through, fading out with depth
+    vec2 distortion = surfaceNormal.xz * uDistortion;
+    vec3 refractedColor = texture2D(uRefractionMap, projectedUv(uRefractionMatrix, vPosition, distortion)).rgb;
+    float clarity = (1.0 - smoothstep(0.0, uShallowDepth, depth)) * uRefractionEnabled;
+    baseColor = mix(baseColor, mix(refractedColor, baseColor, 0.4), clarity);
     
     // Fresnel effect for reflections
     float fresnelFactor = fresnel(viewDirection, normal, 2.0);
@@ -95,10 +153,15 @@ void main() {
     vec3 daySkyColor = vec3(0.4, 0.7, 1.0); // Light blue sky
     vec3 nightSkyColor = vec3(0.1, 0.1, 0.2); // Dark night sky
     vec3 skyReflection = mix(nightSkyColor, daySkyColor, sunVisibility);
+    
+    // Reflection pass: the mirrored sky, land and objects replace the flat sky color
+    vec3 mirroredColor = texture2D(uReflectionMap, projectedUv(uReflectionMatrix, vPosition, distortion)).rgb;
+    skyReflection = mix(skyReflection, mirroredColor, uReflectionEnabled);
     vec3 reflectedColor = skyReflection * fresnelFactor * uReflectionStrength;
     
     // Caustics effect - only visible when sun is shining and hitting the water surface
-    float causticsPattern = caustics(vUv + vWorldPosition.xz * 0.1, uTime);
+    // (world space only, so the pattern is continuous across the clipmap rings)
+    float causticsPattern = caustics(vWorldPosition.xz * 0.1, uTime);
     vec3 causticsColor = vec3(0.8, 1.0, 1.0) * causticsPattern * 0.3 * surfaceLighting;
     
     // Foam calculations
@@ -109,6 +172,20 @@ void main() {
     float crestFoam = smoothstep(0.3, 0.6, vWaveHeight) * 0.8;
     foamEffect += uFoamColor * crestFoam;
     
+    // Shoreline foam: broken-up bands that run in towards the waterline, solid right at it
+    float shore = 1.0 - smoothstep(0.0, max(uShoreFoamWidth, 0.001), depth);
+    float bands = 0.5 + 0.5 * sin(depth * 8.0 - uTime * 2.5);
+    float breakup = caustics(vWorldPosition.xz * 0.15, uTime * 0.5);
+    float shoreFoam = shore * smoothstep(0.45, 0.7, bands * 0.5 + breakup * 0.3 + shore * 0.4);
+    shoreFoam = max(shoreFoam, smoothstep(0.5, 0.9, shore) * step(0.001, uShoreFoamWidth));
+    foamMask = max(foamMask, shoreFoam);
+    foamEffect = max(foamEffect, uFoamColor * shoreFoam);
+    
+    // Wake foam where the ripples are steep
+    float wakeFoam = smoothstep(0.1, 0.3, length(rippleSlope));
+    foamMask = max(foamMask, wakeFoam);
+    foamEffect = max(foamEffect, uFoamColor * wakeFoam);
+    
     // Underwater light scattering
     float scatter = max(0.0, 1.0 - depth * 0.1);
     vec3 scatterColor = vec3(0.0, 0.4, 0.6) * scatter * 0.2;
@@ -137,6 +214,10 @@ void main() {
     // Alpha based on depth and fresnel
     float alpha = mix(uTransparency, 1.0, fresnelFactor);
     alpha = mix(alpha, 1.0, foamMask); // Foam is opaque
+    alpha = mix(alpha, 1.0, uRefractionEnabled); // The refraction pass already shows what is below
+    
+    // Soft edge where the water meets the land
+    alpha *= smoothstep(0.0, uShoreSoftness, signedDepth);
     
     // Add some animation to the overall color
     float timeVariation = sin(uTime * 0.1) * 0.05 + 0.95;
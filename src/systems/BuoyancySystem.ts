@@ -0,0 +1,486 @@
+import * as THREE from 'three'
+import { CollisionSystem, CollisionLayer, COLLISION_MASK_ALL, type CollidableObject, type CollisionVolume } from './CollisionSystem'
+import type { ManagedObject, ObjectManager } from './ObjectManager'
+import type { OceanSurfaceSample } from './OceanWaves'
+import type { PlayerInput, PlayerVehicle } from './PlayerController'
+import { logger, LogModule } from './Logger'
+
+export interface BuoyancyOptions {
+  density?: number // Relative to water: the fraction of the hull that sits under a calm surface. Defaults to 0.5
+  drag?: number // Velocity lost per second when fully submerged, defaults to 3
+  points?: THREE.Vector3[] // Hull sample points on the bottom of the body (body space); a grid over the volume by default
+}
+
+export interface BoatOptions {
+  thrust?: number // Forward acceleration at full throttle, defaults to 6
+  boost?: number // Thrust multiplier while running, defaults to 1.8
+  turnRate?: number // Yaw acceleration at full rudder (rad/s²), defaults to 2.5
+  keelDrag?: number // Sideways velocity lost per second, defaults to 4
+}
+
+export type FloatingObjectKind = 'crate' | 'buoy' | 'boat'
+
+export const FLOATING_OBJECT_KINDS: FloatingObjectKind[] = ['crate', 'buoy', 'boat']
+
+interface BuoyantBody {
+  id: string
+  density: number
+  drag: number
+  points: THREE.Vector3[]
+  submersion: number // Average over the hull points after the last step
+  boat: BoatState | null
+}
+
+interface BoatState {
+  thrust: number
+  boost: number
+  turnRate: number
+  keelDrag: number
+  throttle: number // -1 (reverse) to 1
+  rudder: number // -1 (port) to 1 (starboard)
+  boosting: boolean
+  rider: string | null
+  ejectRider: (() => void) | null // Tells the rider the boat is gone
+  layer: CollisionLayer | undefined // Filter to restore when the rider gets off
+  mask: number | undefined
+}
+
+interface FloatingObjectPreset {
+  geometry: () => THREE.BufferGeometry
+  color: number
+  mass: number
+  buoyancy: BuoyancyOptions
+  boat?: BoatOptions
+}
+
+const FLOATING_OBJECT_PRESETS: Record<FloatingObjectKind, FloatingObjectPreset> = {
+  crate: {
+    geometry: () => new THREE.BoxGeometry(0.8, 0.8, 0.8),
+    color: 0x8b5a2b,
+    mass: 15,
+    buoyancy: { density: 0.55 }
+  },
+  buoy: {
+    geometry: () => new THREE.CylinderGeometry(0.35, 0.45, 1.2, 12),
+    color: 0xd9381e,
+    mass: 10,
+    buoyancy: { density: 0.4, drag: 4 }
+  },
+  boat: {
+    geometry: createHullGeometry,
+    color: 0xe8e0d0,
+    mass: 150,
+    buoyancy: { density: 0.3, drag: 2 },
+    boat: {}
+  }
+}
+
+const REVERSE_THRUST = 0.5 // Fraction of forward thrust available in reverse
+const RUDDER_SPEED = 3 // Forward speed at which the rudder reaches full effect
+
+/**
+ * Floating rigid bodies. Every physics step each body samples the water at points spread over
+ * the bottom of its hull; each point stands for a column of the hull and pushes up (along the
+ * water normal) in proportion to how much of that column is under water, so a tilted body rights
+ * itself and waves rock it. Drag acts per point too, damping both drift and spin.
+ *
+ * Boats add throttle, rudder and keel forces and can be ridden: the player hands its input over
+ * through the PlayerVehicle returned by getVehicle().
+ */
+export class BuoyancySystem {
+  private collisionSystem: CollisionSystem
+  private objectManager: ObjectManager
+  private bodies: Map<string, BuoyantBody> = new Map()
+  private vehicles: Map<string, PlayerVehicle> = new Map()
+  private sampleWater: (x: number, z: number) => OceanSurfaceSample | null = () => null
+  private spawnCount: number = 0
+
+  // Scratch objects
+  private orientation: THREE.Quaternion = new THREE.Quaternion()
+  private up: THREE.Vector3 = new THREE.Vector3()
+  private point: THREE.Vector3 = new THREE.Vector3()
+  private offset: THREE.Vector3 = new THREE.Vector3()
+  private pointVelocity: THREE.Vector3 = new THREE.Vector3()
+  private force: THREE.Vector3 = new THREE.Vector3()
+
+  constructor(collisionSystem: CollisionSystem, objectManager: ObjectManager) {
+    this.collisionSystem = collisionSystem
+    this.objectManager = objectManager
+    this.collisionSystem.onPhysicsStep(() => this.step())
+    logger.info(LogModule.SYSTEM, 'BuoyancySystem initialized')
+  }
+
+  /**
+   * Provide the water surface at a world position (null where there is no water)
+   */
+  public setWaterSampler(sampler: (x: number, z: number) => OceanSurfaceSample | null): void {
+    this.sampleWater = sampler
+  }
+
+  // ============================================================================
+  // BODIES
+  // ============================================================================
+
+  /**
+   * Make a rigid body float. The object must already be registered with the collision system
+   * and have a rigid body.
+   */
+  public addBody(id: string, options: BuoyancyOptions = {}): boolean {
+    const object = this.collisionSystem.getObjects().get(id)
+    if (!object?.rigidBody) {
+      logger.warn(LogModule.SYSTEM, `Cannot add buoyancy, ${id} is not a rigid body`)
+      return false
+    }
+
+    this.bodies.set(id, {
+      id,
+      density: THREE.MathUtils.clamp(options.density ?? 0.5, 0.05, 2),
+      drag: Math.max(0, options.drag ?? 3),
+      points: options.points?.map(point => point.clone()) ?? createHullPoints(object.collisionVolume),
+      submersion: 0,
+      boat: null
+    })
+    return true
+  }
+
+  /**
+   * Make a floating body steerable (and rideable)
+   */
+  public addBoat(id: string, options: BoatOptions = {}): boolean {
+    const body = this.bodies.get(id)
+    if (!body) {
+      logger.warn(LogModule.SYSTEM, `Cannot make ${id} a boat, it has no buoyancy`)
+      return false
+    }
+
+    body.boat = {
+      thrust: options.thrust ?? 6,
+      boost: options.boost ?? 1.8,
+      turnRate: options.turnRate ?? 2.5,
+      keelDrag: options.keelDrag ?? 4,
+      throttle: 0,
+      rudder: 0,
+      boosting: false,
+      rider: null,
+      ejectRider: null,
+      layer: undefined,
+      mask: undefined
+    }
+    return true
+  }
+
+  public removeBody(id: string): void {
+    const body = this.bodies.get(id)
+    const ejectRider = body?.boat?.ejectRider
+    if (body?.boat?.rider) {
+      this.setRider(body, null)
+    }
+    this.bodies.delete(id)
+    this.vehicles.delete(id)
+    ejectRider?.()
+  }
+
+  public hasBody(id: string): boolean {
+    return this.bodies.has(id)
+  }
+
+  public getBodies(): Array<{ id: string, density: number, submersion: number, boat: boolean, rider: string | null }> {
+    return Array.from(this.bodies.values()).map(body => ({
+      id: body.id,
+      density: body.density,
+      submersion: body.submersion,
+      boat: body.boat !== null,
+      rider: body.boat?.rider ?? null
+    }))
+  }
+
+  // ============================================================================
+  // SPAWNING
+  // ============================================================================
+
+  /**
+   * Create a floating crate, buoy or boat as a managed object at a position
+   */
+  public spawn(kind: FloatingObjectKind, position: THREE.Vector3): ManagedObject {
+    const preset = FLOATING_OBJECT_PRESETS[kind]
+    const id = `${kind}-${++this.spawnCount}`
+
+    const managedObject = this.objectManager.createObject({
+      id,
+      type: 'custom',
+      geometry: preset.geometry(),
+      material: new THREE.MeshStandardMaterial({ color: preset.color, roughness: 0.8 }),
+      position,
+      parentSystem: 'buoyancy',
+      userData: { floating: kind }
+    })
+    managedObject.mesh.castShadow = true
+    managedObject.mesh.receiveShadow = true
+
+    this.collisionSystem.registerMesh(id, managedObject.mesh, false)
+    this.collisionSystem.enableRigidBody(id, { mass: preset.mass, restitution: 0.1, friction: 0.6 })
+    this.addBody(id, preset.buoyancy)
+    if (preset.boat) {
+      this.addBoat(id, preset.boat)
+    }
+
+    logger.info(LogModule.SYSTEM, `Spawned ${id} at (${position.x.toFixed(1)}, ${position.y.toFixed(1)}, ${position.z.toFixed(1)})`)
+    return managedObject
+  }
+
+  /**
+   * Remove a floating object and its managed object entirely
+   */
+  public despawn(id: string): boolean {
+    if (!this.bodies.has(id)) {
+      return false
+    }
+
+    this.removeBody(id)
+    this.collisionSystem.unregisterObject(id)
+    return this.objectManager.removeObject(id)
+  }
+
+  // ============================================================================
+  // BOATS
+  // ============================================================================
+
+  /**
+   * The rideable handle for a boat, or null for anything else
+   */
+  public getVehicle(id: string): PlayerVehicle | null {
+    const body = this.bodies.get(id)
+    if (!body?.boat) {
+      return null
+    }
+
+    let vehicle = this.vehicles.get(id)
+    if (!vehicle) {
+      vehicle = {
+        id,
+        getSeatPosition: (target: THREE.Vector3) => this.getSeatPosition(id, target),
+        getVelocity: (target: THREE.Vector3) => {
+          const velocity = this.getObject(id)?.rigidBody?.velocity
+          return velocity ? target.copy(velocity) : target.set(0, 0, 0)
+        },
+        setRider: (riderId: string | null, onEjected?: () => void) => this.setRider(body, riderId, onEjected),
+        steer: (input: PlayerInput) => this.steer(body, input)
+      }
+      this.vehicles.set(id, vehicle)
+    }
+    return vehicle
+  }
+
+  /**
+   * Deck point towards the stern, where a rider's feet go (null once the boat is gone)
+   */
+  private getSeatPosition(id: string, target: THREE.Vector3): THREE.Vector3 | null {
+    const volume = this.bodies.has(id) ? this.getObject(id)?.collisionVolume : undefined
+    if (!volume) {
+      return null
+    }
+
+    this.orientation.setFromEuler(volume.rotation)
+    return target
+      .set(0, volume.dimensions.y * 0.5, volume.dimensions.z * 0.25)
+      .applyQuaternion(this.orientation)
+      .add(volume.position)
+  }
+
+  /**
+   * One rider at a time; they don't collide with their own boat (the player is an immovable
+   * obstacle to rigid bodies). Returns false when someone else is already aboard
+   */
+  private setRider(body: BuoyantBody, riderId: string | null, onEjected?: () => void): boolean {
+    const boat = body.boat!
+    if (riderId && boat.rider && boat.rider !== riderId) {
+      return false
+    }
+
+    const object = this.getObject(body.id)
+    if (riderId && !boat.rider && object) {
+      boat.layer = object.layer
+      boat.mask = object.mask
+      this.collisionSystem.setObjectLayer(body.id, object.layer ?? CollisionLayer.DEFAULT, (object.mask ?? COLLISION_MASK_ALL) & ~CollisionLayer.PLAYER)
+    } else if (!riderId && boat.rider && object) {
+      object.layer = boat.layer
+      object.mask = boat.mask
+    }
+
+    boat.rider = riderId
+    boat.ejectRider = riderId ? onEjected ?? null : null
+    boat.throttle = 0
+    boat.rudder = 0
+    boat.boosting = false
+    return true
+  }
+
+  /**
+   * Forward/back is the throttle and left/right the rudder; running opens it up
+   */
+  private steer(body: BuoyantBody, input: PlayerInput): void {
+    const boat = body.boat!
+    const analog = input.analogMovement && input.analogMovement.length() > 0.1 ? input.analogMovement : null
+    boat.throttle = analog ? THREE.MathUtils.clamp(analog.y, -1, 1) : Number(input.forward) - Number(input.backward)
+    boat.rudder = analog ? THREE.MathUtils.clamp(analog.x, -1, 1) : Number(input.right) - Number(input.left)
+    boat.boosting = input.run
+  }
+
+  // ============================================================================
+  // SIMULATION
+  // ============================================================================
+
+  private step(): void {
+    if (this.bodies.size === 0) {
+      return
+    }
+
+    const gravity = this.collisionSystem.getGravity().length()
+    for (const body of this.bodies.values()) {
+      const object = this.getObject(body.id)
+      if (!object?.rigidBody) {
+        this.removeBody(body.id)
+        continue
+      }
+
+      this.applyBuoyancy(body, object, gravity)
+      if (body.boat && body.submersion > 0) {
+        this.applyBoatForces(body, object)
+      }
+    }
+  }
+
+  /**
+   * Each hull point carries an equal share of the body: fully submerged, the shares add up to
+   * weight / density, so the body floats with `density` of its height under a calm surface
+   */
+  private applyBuoyancy(body: BuoyantBody, object: CollidableObject, gravity: number): void {
+    const rigidBody = object.rigidBody!
+    const volume = object.collisionVolume
+    const columnHeight = getVolumeHeight(volume)
+    const share = 1 / body.points.length
+    const maxLift = (rigidBody.mass * gravity / body.density) * share
+
+    this.orientation.setFromEuler(volume.rotation)
+    this.up.set(0, 1, 0).applyQuaternion(this.orientation)
+
+    let submersion = 0
+    for (const hullPoint of body.points) {
+      const point = this.point.copy(hullPoint).applyQuaternion(this.orientation).add(volume.position)
+      const water = this.sampleWater(point.x, point.z)
+      if (!water) {
+        continue
+      }
+
+      const submerged = THREE.MathUtils.clamp((water.height - point.y) / columnHeight, 0, 1)
+      if (submerged <= 0) {
+        continue
+      }
+      submersion += submerged * share
+
+      // Lift acts at the middle of the submerged part of the column
+      point.addScaledVector(this.up, submerged * columnHeight * 0.5)
+      this.force.copy(water.normal).multiplyScalar(maxLift * submerged)
+
+      // Drag on the point's own velocity, so spinning is damped as well as drifting
+      this.offset.subVectors(point, volume.position)
+      this.pointVelocity.copy(rigidBody.angularVelocity).cross(this.offset).add(rigidBody.velocity)
+      this.force.addScaledVector(this.pointVelocity, -body.drag * rigidBody.mass * share * submerged)
+
+      this.collisionSystem.applyForce(body.id, this.force, point)
+    }
+    body.submersion = submersion
+  }
+
+  /**
+   * Thrust from the stern, yaw from the rudder (stronger with speed) and a keel that stops
+   * the boat sliding sideways
+   */
+  private applyBoatForces(body: BuoyantBody, object: CollidableObject): void {
+    const boat = body.boat!
+    const rigidBody = object.rigidBody!
+    const volume = object.collisionVolume
+    const mass = rigidBody.mass
+
+    this.orientation.setFromEuler(volume.rotation)
+    const forward = new THREE.Vector3(0, 0, -1).applyQuaternion(this.orientation)
+    const right = new THREE.Vector3(1, 0, 0).applyQuaternion(this.orientation)
+    const up = new THREE.Vector3(0, 1, 0).applyQuaternion(this.orientation)
+    const forwardSpeed = rigidBody.velocity.dot(forward)
+
+    // Thrust fades as the stern lifts out of the water (submersion equals density when afloat)
+    if (boat.throttle !== 0) {
+      const thrust = boat.thrust * boat.throttle * (boat.throttle < 0 ? REVERSE_THRUST : boat.boosting ? boat.boost : 1)
+      const stern = this.point.set(0, -volume.dimensions.y * 0.5, volume.dimensions.z * 0.5)
+        .applyQuaternion(this.orientation)
+        .add(volume.position)
+      this.collisionSystem.applyForce(body.id, forward.clone().multiplyScalar(thrust * mass * body.submersion / body.density), stern)
+    }
+
+    if (boat.rudder !== 0) {
+      // Some turn at rest so the boat can be pointed before setting off; reversing turns the other way
+      const effect = Math.max(0.3, Math.min(1, Math.abs(forwardSpeed) / RUDDER_SPEED)) * (forwardSpeed < -0.5 ? -1 : 1)
+      const yawAcceleration = -boat.rudder * boat.turnRate * effect
+      const inertia = 1 / rigidBody.inverseInertia.y
+      this.collisionSystem.applyTorque(body.id, up.multiplyScalar(yawAcceleration * inertia))
+    }
+
+    const sideways = rigidBody.velocity.dot(right)
+    this.collisionSystem.applyForce(body.id, right.multiplyScalar(-sideways * boat.keelDrag * mass * Math.min(1, body.submersion / body.density)))
+  }
+
+  private getObject(id: string): CollidableObject | undefined {
+    return this.collisionSystem.getObjects().get(id)
+  }
+}
+
+/**
+ * Height of the column each hull point stands for
+ */
+function getVolumeHeight(volume: CollisionVolume): number {
+  switch (volume.type) {
+    case 'sphere':
+      return volume.dimensions.x * 2
+    default:
+      return volume.dimensions.y
+  }
+}
+
+/**
+ * Grid of points over the bottom of a volume, about one per unit of length (at least 2 × 2),
+ * pulled in from the edges so a tilted body doesn't jump between corners
+ */
+function createHullPoints(volume: CollisionVolume): THREE.Vector3[] {
+  const d = volume.dimensions
+  const [width, depth] = volume.type === 'box' ? [d.x, d.z] : [d.x * 2, d.x * 2]
+  const bottom = -getVolumeHeight(volume) * 0.5
+  const columns = THREE.MathUtils.clamp(Math.round(width), 2, 4)
+  const rows = THREE.MathUtils.clamp(Math.round(depth), 2, 4)
+
+  const points: THREE.Vector3[] = []
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      points.push(new THREE.Vector3(
+        ((column + 0.5) / columns - 0.5) * width * 0.9,
+        bottom,
+        ((row + 0.5) / rows - 0.5) * depth * 0.9
+      ))
+    }
+  }
+  return points
+}
+
+/**
+ * Simple open boat: a box hull narrowed to a point at the bow (-Z)
+ */
+function createHullGeometry(): THREE.BufferGeometry {
+  const geometry = new THREE.BoxGeometry(1.6, 0.6, 4, 1, 1, 2)
+  const positions = geometry.getAttribute('position')
+  for (let i = 0; i < positions.count; i++) {
+    if (positions.getZ(i) < -1.5) {
+      positions.setX(i, positions.getX(i) * 0.1)
+    }
+  }
+  geometry.computeVertexNormals()
+  return geometry
+}
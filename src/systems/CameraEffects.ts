@@ -0,0 +1,190 @@
+import * as THREE from 'three'
+
+/**
+ * Effect intensities (multipliers, 0 turns an effect off)
+ */
+export interface CameraEffectsConfig {
+  shakeIntensity: number
+  headBobIntensity: number
+  landingDipIntensity: number
+  fovKickIntensity: number
+  reduceMotion: boolean // Disables every effect regardless of intensity
+}
+
+/**
+ * What the player is doing this frame, as reported by the PlayerController
+ */
+export interface PlayerMotion {
+  horizontalSpeed: number // Units per second
+  grounded: boolean // On the ground and not swimming
+  sprinting: boolean
+}
+
+// Shake (trauma model: shake strength is trauma squared, trauma decays linearly)
+const TRAUMA_DECAY = 1.2 // Trauma lost per second
+const SHAKE_FREQUENCY = 18 // Noise samples per second
+const MAX_SHAKE_ANGLE = 0.05 // Radians of pitch/yaw at full trauma
+const MAX_SHAKE_ROLL = 0.08 // Radians of roll at full trauma
+const MAX_SHAKE_OFFSET = 0.12 // Units of positional shake at full trauma
+
+// Head bob
+const BOB_STRIDE = 2.0 // Units travelled per step
+const BOB_MAX_STEP_RATE = 3.2 // Steps per second (keeps sprinting from turning into a vibration)
+const BOB_HEIGHT = 0.04 // Vertical bob at walking speed
+const BOB_SWAY = 0.025 // Side-to-side sway at walking speed
+const BOB_REFERENCE_SPEED = 4 // Speed that gets the base amplitude
+const BOB_BLEND_RATE = 8 // How quickly bob fades in/out when starting/stopping
+
+// Landing dip (damped spring kicked by the fall speed)
+const DIP_MIN_IMPACT = 2 // Fall speeds below this don't dip
+const DIP_PER_IMPACT = 0.3 // Initial dip velocity per unit of fall speed
+const DIP_MAX_VELOCITY = 8
+const DIP_STIFFNESS = 90
+const DIP_DAMPING = 12
+const HARD_LANDING_SPEED = 16 // Falls faster than this also shake the camera
+
+// FOV kick
+const FOV_KICK_DEGREES = 8
+const FOV_KICK_RATE = 6
+
+/**
+ * Procedural camera motion for the player views: trauma-based shake, head bob, landing dip
+ * and a sprint FOV kick. update() produces offsets that CameraManager adds on top of the
+ * camera pose it computes each frame.
+ */
+export class CameraEffects {
+  private config: CameraEffectsConfig = {
+    shakeIntensity: 1,
+    headBobIntensity: 1,
+    landingDipIntensity: 1,
+    fovKickIntensity: 1,
+    reduceMotion: false
+  }
+
+  private motion: PlayerMotion = { horizontalSpeed: 0, grounded: false, sprinting: false }
+  private time: number = 0
+  private trauma: number = 0
+  private bobPhase: number = 0
+  private bobBlend: number = 0
+  private dipOffset: number = 0
+  private dipVelocity: number = 0
+  private fovKick: number = 0
+
+  // Offsets for the current frame
+  public readonly positionOffset: THREE.Vector3 = new THREE.Vector3() // Camera-local: x right, y up
+  public readonly rotationOffset: THREE.Vector3 = new THREE.Vector3() // Pitch, yaw, roll
+  public fovOffset: number = 0
+
+  public update(deltaTime: number): void {
+    this.time += deltaTime
+    this.trauma = Math.max(0, this.trauma - TRAUMA_DECAY * deltaTime)
+
+    this.updateHeadBob(deltaTime)
+    this.updateLandingDip(deltaTime)
+    this.updateFovKick(deltaTime)
+
+    this.positionOffset.set(0, 0, 0)
+    this.rotationOffset.set(0, 0, 0)
+    this.fovOffset = 0
+    if (this.config.reduceMotion) {
+      return
+    }
+
+    // Shake
+    const shake = this.trauma * this.trauma * this.config.shakeIntensity
+    if (shake > 0) {
+      const t = this.time * SHAKE_FREQUENCY
+      this.rotationOffset.set(
+        MAX_SHAKE_ANGLE * shake * smoothNoise(t, 0),
+        MAX_SHAKE_ANGLE * shake * smoothNoise(t, 1),
+        MAX_SHAKE_ROLL * shake * smoothNoise(t, 2)
+      )
+      this.positionOffset.set(
+        MAX_SHAKE_OFFSET * shake * smoothNoise(t, 3),
+        MAX_SHAKE_OFFSET * shake * smoothNoise(t, 4),
+        0
+      )
+    }
+
+    // Head bob: one vertical dip per step, one sway cycle per two steps
+    const bobScale = this.bobBlend * this.config.headBobIntensity *
+      THREE.MathUtils.clamp(this.motion.horizontalSpeed / BOB_REFERENCE_SPEED, 0, 2)
+    this.positionOffset.x += Math.sin(this.bobPhase) * BOB_SWAY * bobScale
+    this.positionOffset.y += -Math.abs(Math.sin(this.bobPhase)) * BOB_HEIGHT * bobScale
+
+    this.positionOffset.y += this.dipOffset * this.config.landingDipIntensity
+    this.fovOffset = this.fovKick * FOV_KICK_DEGREES * this.config.fovKickIntensity
+  }
+
+  private updateHeadBob(deltaTime: number): void {
+    const bobbing = this.motion.grounded && this.motion.horizontalSpeed > 0.5
+    this.bobBlend = THREE.MathUtils.damp(this.bobBlend, bobbing ? 1 : 0, BOB_BLEND_RATE, deltaTime)
+
+    if (bobbing) {
+      const stepRate = Math.min(this.motion.horizontalSpeed / BOB_STRIDE, BOB_MAX_STEP_RATE)
+      this.bobPhase = (this.bobPhase + stepRate * Math.PI * deltaTime) % (Math.PI * 2)
+    }
+  }
+
+  private updateLandingDip(deltaTime: number): void {
+    const acceleration = -DIP_STIFFNESS * this.dipOffset - DIP_DAMPING * this.dipVelocity
+    this.dipVelocity += acceleration * deltaTime
+    this.dipOffset += this.dipVelocity * deltaTime
+  }
+
+  private updateFovKick(deltaTime: number): void {
+    const target = this.motion.sprinting && this.motion.horizontalSpeed > 1 ? 1 : 0
+    this.fovKick = THREE.MathUtils.damp(this.fovKick, target, FOV_KICK_RATE, deltaTime)
+  }
+
+  public setPlayerMotion(motion: PlayerMotion): void {
+    this.motion = { ...motion }
+  }
+
+  /**
+   * Kick the landing dip; hard landings add some shake too
+   * @param fallSpeed - Downward speed just before touching down (units/s)
+   */
+  public addLandingImpact(fallSpeed: number): void {
+    if (fallSpeed < DIP_MIN_IMPACT) return
+
+    this.dipVelocity -= Math.min((fallSpeed - DIP_MIN_IMPACT) * DIP_PER_IMPACT, DIP_MAX_VELOCITY)
+    if (fallSpeed > HARD_LANDING_SPEED) {
+      this.addTrauma((fallSpeed - HARD_LANDING_SPEED) / 20)
+    }
+  }
+
+  /**
+   * Add shake trauma (0-1, clamped); shake strength grows with trauma squared
+   */
+  public addTrauma(amount: number): void {
+    this.trauma = THREE.MathUtils.clamp(this.trauma + amount, 0, 1)
+  }
+
+  public getTrauma(): number {
+    return this.trauma
+  }
+
+  public setConfig(config: Partial<CameraEffectsConfig>): void {
+    this.config = { ...this.config, ...config }
+  }
+
+  public getConfig(): CameraEffectsConfig {
+    return { ...this.config }
+  }
+}
+
+/**
+ * Smooth 1D value noise in [-1, 1]; channel picks an independent sequence
+ */
+function smoothNoise(t: number, channel: number): number {
+  const i = Math.floor(t)
+  const f = t - i
+  const u = f * f * (3 - 2 * f)
+  return THREE.MathUtils.lerp(hash(i, channel), hash(i + 1, channel), u)
+}
+
+function hash(i: number, channel: number): number {
+  const x = Math.sin(i * 127.1 + channel * 311.7) * 43758.5453
+  return (x - Math.floor(x)) * 2 - 1
+}
@@ -1,7 +1,17 @@
 import * as THREE from 'three'
 import { OrbitControls } from 'three/examples/jsm/controls/OrbitControls.js'
+import { CollisionLayer, type CollisionSystem } from './CollisionSystem'
+import { CameraPath, type CameraEasing, type CameraKeyframe, type CameraPathData } from './CameraPath'
+import { CameraEffects, type CameraEffectsConfig, type PlayerMotion } from './CameraEffects'
+import { logger, LogModule } from './Logger'
+import cameraPathsConfig from '../config/cameraPaths.json'
 
-export type CameraMode = 'system' | 'player'
+export type CameraMode = 'system' | 'player' | 'third-person' | 'cinematic' | 'fly' | 'map'
+
+/**
+ * Render layer for map-only overlays (markers); only the map cameras enable it
+ */
+export const MAP_MARKER_LAYER = 1
 
 export interface CameraConfig {
   fov: number
@@ -17,6 +27,85 @@ export interface PlayerCameraConfig extends CameraConfig {
   smoothing: number // Camera movement smoothing
 }
 
+/**
+ * Named camera view. Rotation is stored in YXZ order so player views map straight to pitch/yaw.
+ */
+export interface CameraBookmark {
+  name: string
+  mode: Exclude<CameraMode, 'cinematic' | 'map'>
+  position: [number, number, number]
+  rotation: [number, number, number]
+  fov: number
+  target?: [number, number, number] // Orbit target (system mode)
+  playerPosition?: [number, number, number] // Where the player stood (player modes)
+}
+
+const BOOKMARKS_STORAGE_KEY = 'garden-camera-bookmarks'
+const BOOKMARK_MODES: CameraBookmark['mode'][] = ['system', 'player', 'third-person', 'fly']
+
+function isVectorTuple(value: unknown): value is [number, number, number] {
+  return Array.isArray(value) && value.length === 3 && value.every(n => typeof n === 'number' && Number.isFinite(n))
+}
+
+/**
+ * Whether stored data is a usable bookmark (localStorage may hold anything)
+ */
+function isCameraBookmark(value: unknown): value is CameraBookmark {
+  if (typeof value !== 'object' || value === null) return false
+  const bookmark = value as Record<string, unknown>
+  return typeof bookmark.name === 'string' &&
+    BOOKMARK_MODES.includes(bookmark.mode as CameraBookmark['mode']) &&
+    isVectorTuple(bookmark.position) &&
+    isVectorTuple(bookmark.rotation) &&
+    typeof bookmark.fov === 'number' && Number.isFinite(bookmark.fov) &&
+    (bookmark.target === undefined || isVectorTuple(bookmark.target)) &&
+    (bookmark.playerPosition === undefined || isVectorTuple(bookmark.playerPosition))
+}
+
+export interface FlyCameraConfig {
+  speed: number // Units per second, adjusted with the scroll wheel
+  minSpeed: number
+  maxSpeed: number
+  boostMultiplier: number // Applied while Shift (gamepad run) is held
+  scrollFactor: number // Speed change per scroll notch
+}
+
+export interface MapCameraConfig {
+  minHalfHeight: number // Closest zoom: half the visible world height
+  maxHalfHeight: number
+  zoomFactor: number // Zoom change per scroll notch
+}
+
+/**
+ * What the top-down map camera looks at
+ */
+export interface MapView {
+  centerX: number
+  centerZ: number
+  halfHeight: number // Half the visible world height; the width follows the viewport aspect
+}
+
+// The map camera sits low with a negative near plane, so it still sees everything above it
+// while its view depth stays short of the distance fog
+const MAP_CAMERA_HEIGHT = 30
+const MAP_CAMERA_DEPTH = 500
+
+export interface ThirdPersonCameraConfig {
+  distance: number // Boom length when nothing blocks the view
+  minDistance: number // Closest the boom pulls in
+  pivotHeight: number // Boom pivot above the player's eye position
+  probeMargin: number // Gap kept between the camera and whatever blocks the boom
+  returnSpeed: number // How quickly the boom extends again once clear (1/s)
+}
+
+/**
+ * Whether an event comes from somewhere the user types (inputs, text areas, editable elements)
+ */
+function isTextField(target: EventTarget | null): boolean {
+  const element = target as HTMLElement | null
+  return !!element && (element.tagName === 'INPUT' || element.tagName === 'TEXTAREA' || element.isContentEditable)
+}
+
 export class CameraManager {
   private scene: THREE.Scene
   private renderer: THREE.WebGLRenderer
@@ -25,7 +114,11 @@ export class CameraManager {
   // Cameras
   private systemCamera!: THREE.PerspectiveCamera
   private playerCamera!: THREE.PerspectiveCamera
-  private currentCamera!: THREE.PerspectiveCamera
+  private thirdPersonCamera!: THREE.PerspectiveCamera
+  private cinematicCamera!: THREE.PerspectiveCamera
+  private flyCamera!: THREE.PerspectiveCamera
+  private mapCamera!: THREE.OrthographicCamera
+  private currentCamera!: THREE.PerspectiveCamera | THREE.OrthographicCamera
   private currentMode: CameraMode = 'player' // Default to player camera
   
   // Controls
@@ -44,6 +137,81 @@ export class CameraManager {
   private playerPosition: THREE.Vector3 = new THREE.Vector3(0, 5, 0)
   private playerHeight: number = 1.8
   
+  // Third-person spring-arm boom
+  private collisionSystem: CollisionSystem | null
+  private thirdPersonConfig: ThirdPersonCameraConfig = {
+    distance: 5,
+    minDistance: 0.5,
+    pivotHeight: 0.3,
+    probeMargin: 0.3,
+    returnSpeed: 4
+  }
+  private boomLength: number = 5 // Current length, pulled in while the view is blocked
+  private readonly boomMask: number = CollisionLayer.DEFAULT | CollisionLayer.LAND | CollisionLayer.PROP
+  
+  // Cinematic camera paths
+  private cameraPaths: Map<string, CameraPath> = new Map()
+  private recordedKeys: CameraKeyframe[] = []
+  private playback: {
+    path: CameraPath
+    time: number
+    returnMode: CameraMode
+    returnPosition: THREE.Vector3 // Pose of the camera we left, restored before blending back to it
+    returnRotation: THREE.Euler
+  } | null = null
+  
+  // Shake, head bob, landing dip and FOV kick for the player views
+  private effects: CameraEffects = new CameraEffects()
+  private fovOffsetCamera: THREE.PerspectiveCamera | null = null
+  private appliedFovOffset: number = 0
+  
+  // Free-fly (noclip) camera
+  private flyConfig: FlyCameraConfig = {
+    speed: 10,
+    minSpeed: 1,
+    maxSpeed: 200,
+    boostMultiplier: 4,
+    scrollFactor: 1.15
+  }
+  private flyKeys: Set<string> = new Set()
+  private flyGamepadInput = {
+    movement: new THREE.Vector2(),
+    camera: new THREE.Vector2(),
+    up: false,
+    down: false,
+    boost: false
+  }
+  private flyReturnMode: CameraMode = 'player'
+  private boundFlyKeyDown = (event: KeyboardEvent) => {
+    if (!isTextField(event.target)) this.flyKeys.add(event.code) // Typing into the GUI or console doesn't fly
+  }
+  private boundFlyKeyUp = (event: KeyboardEvent) => this.flyKeys.delete(event.code)
+  private boundFlyBlur = () => this.flyKeys.clear() // Key-ups are missed while the window is unfocused
+  private boundFlyFocusIn = (event: FocusEvent) => {
+    if (isTextField(event.target)) this.flyKeys.clear() // Keys held when focus moved into a text field
+  }
+  private boundFlyWheel = (event: WheelEvent) => this.onFlyWheel(event)
+  
+  // Top-down map camera (drag to pan, scroll to zoom)
+  private mapView: MapView = { centerX: 0, centerZ: 0, halfHeight: 60 }
+  private mapConfig: MapCameraConfig = {
+    minHalfHeight: 5,
+    maxHalfHeight: 500,
+    zoomFactor: 1.15
+  }
+  private mapDrag: { pointerId: number, x: number, y: number } | null = null
+  private mapReturnMode: CameraMode = 'system'
+  private boundMapPointerDown = (event: PointerEvent) => this.onMapPointerDown(event)
+  private boundMapPointerMove = (event: PointerEvent) => this.onMapPointerMove(event)
+  private boundMapPointerUp = (event: PointerEvent) => this.onMapPointerUp(event)
+  private boundMapWheel = (event: WheelEvent) => this.onMapWheel(event)
+  
+  // Camera bookmarks (persisted to localStorage, in hotkey order)
+  private bookmarks: CameraBookmark[] = []
+  private playerTeleporter: ((position: THREE.Vector3) => void) | null = null
+  
+  private modeChangeListener: ((mode: CameraMode) => void) | null = null
+  
   // Mouse tracking for non-pointer-lock mode
   private lastMouseX: number | null = null
   private lastMouseY: number | null = null
@@ -57,15 +225,18 @@ export class CameraManager {
   private transitionToPosition: THREE.Vector3 = new THREE.Vector3()
   private transitionToRotation: THREE.Euler = new THREE.Euler()
   
-  constructor(scene: THREE.Scene, renderer: THREE.WebGLRenderer, container: HTMLElement) {
+  constructor(scene: THREE.Scene, renderer: THREE.WebGLRenderer, container: HTMLElement, collisionSystem?: CollisionSystem) {
     this.scene = scene
     this.renderer = renderer
     this.container = container
+    this.collisionSystem = collisionSystem ?? null
     
     // Initialize cameras
     this.initializeCameras()
     this.initializeControls()
     this.setupEventListeners()
+    this.importCameraPaths(cameraPathsConfig as unknown as Record<string, CameraPathData>)
+    this.loadBookmarks()
     
     // console.log('📷 CameraManager initialized with system and player cameras')
   }
@@ -89,6 +260,27 @@ export class CameraManager {
     this.playerCamera.position.y += this.playerHeight
     this.playerCamera.name = 'PlayerCamera'
     
+    // Third-person Camera (orbits the player on a spring-arm boom)
+    this.thirdPersonCamera = new THREE.PerspectiveCamera(75, aspect, 0.1, 1000)
+    this.thirdPersonCamera.rotation.order = 'YXZ'
+    this.thirdPersonCamera.name = 'ThirdPersonCamera'
+    
+    // Cinematic Camera (driven by camera path playback)
+    this.cinematicCamera = new THREE.PerspectiveCamera(75, aspect, 0.1, 1000)
+    this.cinematicCamera.name = 'CinematicCamera'
+    
+    // Fly Camera (noclip spectator)
+    this.flyCamera = new THREE.PerspectiveCamera(75, aspect, 0.1, 1000)
+    this.flyCamera.rotation.order = 'YXZ'
+    this.flyCamera.name = 'FlyCamera'
+    
+    // Map Camera (orthographic, straight down; screen up is world -Z)
+    this.mapCamera = new THREE.OrthographicCamera(-aspect, aspect, 1, -1, -MAP_CAMERA_DEPTH, MAP_CAMERA_DEPTH)
+    this.mapCamera.rotation.set(-Math.PI / 2, 0, 0)
+    this.mapCamera.layers.enable(MAP_MARKER_LAYER)
+    this.mapCamera.name = 'MapCamera'
+    this.placeMapCamera()
+    
     // Set initial camera to player camera (default)
     this.currentCamera = this.playerCamera
     this.currentMode = 'player'
@@ -127,7 +319,7 @@ export class CameraManager {
     
     // Pointer lock for player camera
     this.container.addEventListener('click', () => {
-      if (this.currentMode === 'player') {
+      if (this.usesMouseLook(this.currentMode)) {
         this.container.requestPointerLock().catch(() => {
           // Pointer lock may fail if not user-initiated, that's okay
         })
@@ -139,10 +331,10 @@ export class CameraManager {
     
     // Auto-request pointer lock on initial load if in player mode
     // This allows trackpad/mouse input to work immediately
-    if (this.currentMode === 'player') {
+    if (this.usesMouseLook(this.currentMode)) {
       // Request pointer lock after a short delay to ensure page is fully loaded
       setTimeout(() => {
-        if (this.currentMode === 'player' && document.pointerLockElement !== this.container) {
+        if (this.usesMouseLook(this.currentMode) && document.pointerLockElement !== this.container) {
           this.container.requestPointerLock().catch(() => {
             // Pointer lock requires user interaction, so this may fail initially
             // User will need to click once to enable it
@@ -151,6 +343,19 @@ export class CameraManager {
       }, 100)
     }
     
+    // Fly camera movement keys and speed scroll
+    document.addEventListener('keydown', this.boundFlyKeyDown)
+    document.addEventListener('keyup', this.boundFlyKeyUp)
+    window.addEventListener('blur', this.boundFlyBlur)
+    document.addEventListener('focusin', this.boundFlyFocusIn)
+    this.container.addEventListener('wheel', this.boundFlyWheel, { passive: false })
+    
+    // Map camera pan and zoom
+    this.container.addEventListener('pointerdown', this.boundMapPointerDown)
+    window.addEventListener('pointermove', this.boundMapPointerMove)
+    window.addEventListener('pointerup', this.boundMapPointerUp)
+    this.container.addEventListener('wheel', this.boundMapWheel, { passive: false })
+    
     // Window resize
     window.addEventListener('resize', this.onWindowResize.bind(this))
   }
@@ -166,14 +371,38 @@ export class CameraManager {
     if (this.currentMode === mode || this.isTransitioning) {
       return
     }
+    if (mode === 'cinematic' && !this.playback) {
+      logger.warn(LogModule.CAMERA, 'Cinematic mode needs a camera path - use playCameraPath(name)')
+      return
+    }
+    if (mode !== 'cinematic') {
+      this.playback = null
+    }
 
     // console.log(`📷 Switching camera mode: ${this.currentMode} → ${mode}`)
 
     const fromCamera = this.currentCamera
-    const toCamera = mode === 'system' ? this.systemCamera : this.playerCamera
+    const toCamera = this.getCameraObject(mode)
+
+    // Player-view poses are only kept up to date while active, so place them before blending to them
+    if (mode === 'player') {
+      this.placePlayerCamera()
+    } else if (mode === 'third-person') {
+      this.boomLength = this.thirdPersonConfig.distance
+      this.placeThirdPersonCamera()
+    } else if (mode === 'fly') {
+      this.startFlyFrom(fromCamera)
+    } else if (mode === 'map') {
+      const previousMode = this.currentMode === 'cinematic' ? (this.playback?.returnMode ?? 'system') : this.currentMode
+      this.mapReturnMode = previousMode === 'map' ? 'system' : previousMode
+      this.placeMapCamera()
+    }
 
     if (immediate) {
       this.setActiveCamera(mode, true)
+    } else if (mode === 'map' || this.currentMode === 'map') {
+      // No blending between the orthographic map and the perspective views
+      this.setActiveCamera(mode, false)
     } else {
       this.startCameraTransition(fromCamera, toCamera, mode)
     }
@@ -182,7 +411,7 @@ export class CameraManager {
   /**
    * Start smooth camera transition
    */
-  private startCameraTransition(from: THREE.PerspectiveCamera, to: THREE.PerspectiveCamera, targetMode: CameraMode): void {
+  private startCameraTransition(from: THREE.Camera, to: THREE.Camera, targetMode: CameraMode): void {
     this.isTransitioning = true
     this.transitionStart = performance.now()
     
@@ -194,21 +423,24 @@ export class CameraManager {
     
     // Update target mode
     this.currentMode = targetMode
+    this.modeChangeListener?.(targetMode)
   }
 
   /**
    * Set active camera immediately
    */
   private setActiveCamera(mode: CameraMode, requestPointerLock: boolean = false): void {
+    const modeChanged = this.currentMode !== mode
     this.currentMode = mode
-    this.currentCamera = mode === 'system' ? this.systemCamera : this.playerCamera
+    this.currentCamera = this.getCameraObject(mode)
+    this.mapDrag = null
     
     // Enable/disable appropriate controls
     this.orbitControls.enabled = (mode === 'system')
-    this.playerControls.enabled = (mode === 'player')
+    this.playerControls.enabled = this.usesMouseLook(mode)
     
-    // Handle pointer lock for player mode only when explicitly requested
-    if (mode === 'player' && requestPointerLock) {
+    // Handle pointer lock for player views only when explicitly requested
+    if (this.usesMouseLook(mode) && requestPointerLock) {
       // Only request pointer lock if we're not already locked
       if (document.pointerLockElement !== this.container) {
         this.container.requestPointerLock().catch((error) => {
@@ -216,16 +448,41 @@ export class CameraManager {
         // console.log('📷 Tip: Click on the canvas first, then press C to switch to player camera')
         })
       }
-    } else if (mode === 'system') {
-      // Exit pointer lock when switching to system camera
+    } else if (!this.usesMouseLook(mode)) {
+      // Exit pointer lock when switching to the system or cinematic camera
       if (document.pointerLockElement === this.container) {
         document.exitPointerLock()
       }
     }
     
+    if (modeChanged) {
+      this.modeChangeListener?.(mode)
+    }
+    
     // console.log(`📷 Active camera: ${this.currentCamera.name}`)
   }
 
+  private getCameraObject(mode: CameraMode): THREE.PerspectiveCamera | THREE.OrthographicCamera {
+    return mode === 'map' ? this.mapCamera : this.getCameraForMode(mode)
+  }
+
+  private getCameraForMode(mode: Exclude<CameraMode, 'map'>): THREE.PerspectiveCamera {
+    switch (mode) {
+      case 'system': return this.systemCamera
+      case 'third-person': return this.thirdPersonCamera
+      case 'cinematic': return this.cinematicCamera
+      case 'fly': return this.flyCamera
+      default: return this.playerCamera
+    }
+  }
+
+  /**
+   * Modes driven by the mouse/gamepad look (pitch/yaw in playerControls)
+   */
+  private usesMouseLook(mode: CameraMode): boolean {
+    return mode === 'player' || mode === 'third-person' || mode === 'fly'
+  }
+
   // ============================================================================
   // PLAYER CAMERA CONTROLS
   // ============================================================================
@@ -298,16 +555,30 @@ export class CameraManager {
    * Update camera system (call this in animation loop)
    */
   public update(deltaTime: number): void {
-    // Handle camera transition
+    // Handle camera transition; the target camera's pose was captured when it started
     if (this.isTransitioning) {
+      this.applyFovOffset(this.currentCamera, 0)
       this.updateCameraTransition()
+      return
     }
     
+    this.effects.update(deltaTime)
+    const hasEffects = this.currentMode === 'player' || this.currentMode === 'third-person'
+    this.applyFovOffset(this.currentCamera, hasEffects ? this.effects.fovOffset : 0)
+    
     // Update active camera based on mode
     if (this.currentMode === 'system') {
       this.orbitControls.update()
     } else if (this.currentMode === 'player') {
       this.updatePlayerCamera(deltaTime)
+    } else if (this.currentMode === 'third-person') {
+      this.updateThirdPersonCamera(deltaTime)
+    } else if (this.currentMode === 'cinematic') {
+      this.updateCinematicCamera(deltaTime)
+    } else if (this.currentMode === 'fly') {
+      this.updateFlyCamera(deltaTime)
+    } else if (this.currentMode === 'map') {
+      this.placeMapCamera()
     }
   }
 
@@ -342,7 +613,13 @@ export class CameraManager {
    */
   private updatePlayerCamera(deltaTime: number): void {
     if (!this.playerControls.enabled) return
-    
+    this.placePlayerCamera()
+  }
+
+  /**
+   * Put the first-person camera at the player's eye with the current look rotation
+   */
+  private placePlayerCamera(): void {
     // Apply rotation with smoothing
     const targetRotationY = this.playerControls.yaw
     const targetRotationX = this.playerControls.pitch
@@ -356,6 +633,752 @@ export class CameraManager {
     // Update camera position (will be handled by player controller)
     this.playerCamera.position.copy(this.playerPosition)
     this.playerCamera.position.y += this.playerHeight
+    
+    // Head bob, landing dip and shake, relative to the view
+    const offset = this.effects.positionOffset
+    const yaw = this.playerControls.yaw
+    this.playerCamera.position.x += Math.cos(yaw) * offset.x
+    this.playerCamera.position.z -= Math.sin(yaw) * offset.x
+    this.playerCamera.position.y += offset.y
+    this.addRotationOffset(this.playerCamera)
+  }
+
+  /**
+   * Add the shake rotation on top of a camera's pitch/yaw (YXZ) rotation
+   */
+  private addRotationOffset(camera: THREE.Camera): void {
+    const rotation = this.effects.rotationOffset
+    camera.rotation.x += rotation.x
+    camera.rotation.y += rotation.y
+    camera.rotation.z += rotation.z
+  }
+
+  /**
+   * Apply the FOV kick as an offset on top of the base FOV; other code must change the FOV through setBaseFov
+   */
+  private applyFovOffset(camera: THREE.Camera, offset: number): void {
+    if (this.fovOffsetCamera && this.fovOffsetCamera !== camera) {
+      this.fovOffsetCamera.fov -= this.appliedFovOffset
+      this.fovOffsetCamera.updateProjectionMatrix()
+      this.appliedFovOffset = 0
+      this.fovOffsetCamera = null
+    }
+    if (!(camera instanceof THREE.PerspectiveCamera)) {
+      return // The map camera has no FOV
+    }
+    this.fovOffsetCamera = camera
+
+    if (offset !== this.appliedFovOffset) {
+      camera.fov += offset - this.appliedFovOffset
+      camera.updateProjectionMatrix()
+      this.appliedFovOffset = offset
+    }
+  }
+
+  // ============================================================================
+  // CAMERA EFFECTS
+  // ============================================================================
+
+  /**
+   * A camera's FOV without the sprint kick (the map camera reports the system camera's)
+   */
+  private getBaseFov(camera: THREE.Camera): number {
+    if (!(camera instanceof THREE.PerspectiveCamera)) {
+      return this.systemCamera.fov
+    }
+    return camera === this.fovOffsetCamera ? camera.fov - this.appliedFovOffset : camera.fov
+  }
+
+  /**
+   * Set a camera's FOV without the sprint kick, re-adding the kick currently applied to it
+   */
+  public setBaseFov(camera: THREE.Camera, fov: number): void {
+    if (!(camera instanceof THREE.PerspectiveCamera)) {
+      return // The map camera has no FOV
+    }
+    camera.fov = camera === this.fovOffsetCamera ? fov + this.appliedFovOffset : fov
+    camera.updateProjectionMatrix()
+  }
+
+  /**
+   * Report the player's movement for head bob and the sprint FOV kick (called by the PlayerController)
+   */
+  public setPlayerMotion(motion: PlayerMotion): void {
+    this.effects.setPlayerMotion(motion)
+  }
+
+  /**
+   * Dip the first-person camera on landing, scaled by the fall speed
+   */
+  public addLandingImpact(fallSpeed: number): void {
+    this.effects.addLandingImpact(fallSpeed)
+  }
+
+  /**
+   * Shake the player views (trauma 0-1, decays over about a second)
+   */
+  public addCameraTrauma(amount: number): void {
+    this.effects.addTrauma(amount)
+  }
+
+  public setCameraEffectsConfig(config: Partial<CameraEffectsConfig>): void {
+    this.effects.setConfig(config)
+  }
+
+  public getCameraEffectsConfig(): CameraEffectsConfig {
+    return this.effects.getConfig()
+  }
+
+  // ============================================================================
+  // THIRD-PERSON CAMERA
+  // ============================================================================
+
+  /**
+   * Let the boom ease back out towards its full length, then place the camera
+   * Pulling in happens immediately in placeThirdPersonCamera so the view never clips
+   */
+  private updateThirdPersonCamera(deltaTime: number): void {
+    if (!this.playerControls.enabled) return
+
+    const { distance, returnSpeed } = this.thirdPersonConfig
+    if (this.boomLength < distance) {
+      this.boomLength = distance - (distance - this.boomLength) * Math.exp(-returnSpeed * deltaTime)
+    }
+
+    this.placeThirdPersonCamera()
+  }
+
+  /**
+   * Put the third-person camera at the end of the boom, behind the look direction,
+   * shortening the boom when terrain or objects block the view of the player
+   */
+  private placeThirdPersonCamera(): void {
+    const pivot = this.playerPosition.clone()
+    pivot.y += this.thirdPersonConfig.pivotHeight
+
+    this.thirdPersonCamera.rotation.set(this.playerControls.pitch, this.playerControls.yaw, 0, 'YXZ')
+    const boomDirection = new THREE.Vector3(0, 0, 1).applyEuler(this.thirdPersonCamera.rotation)
+
+    this.boomLength = Math.min(this.boomLength, this.getUnblockedBoomLength(pivot, boomDirection))
+    this.thirdPersonCamera.position.copy(pivot).addScaledVector(boomDirection, this.boomLength)
+    
+    // Only shake reaches the third-person view - bob and dip belong to the player's head
+    this.addRotationOffset(this.thirdPersonCamera)
+  }
+
+  /**
+   * Longest boom that keeps probeMargin clear of land and objects (full length without a collision system)
+   */
+  private getUnblockedBoomLength(pivot: THREE.Vector3, boomDirection: THREE.Vector3): number {
+    const { distance, minDistance, probeMargin } = this.thirdPersonConfig
+    if (!this.collisionSystem) {
+      return distance
+    }
+
+    const probeDistance = distance + probeMargin
+    let blockedAt = probeDistance
+
+    const objectHit = this.collisionSystem.raycastObjects(pivot, boomDirection, probeDistance, 'player', this.boomMask)[0]
+    if (objectHit) {
+      blockedAt = Math.min(blockedAt, objectHit.distance)
+    }
+
+    const landHit = this.collisionSystem.raycastLand(pivot, boomDirection, probeDistance, this.boomMask)
+    if (landHit) {
+      blockedAt = Math.min(blockedAt, landHit.distance)
+    }
+
+    return THREE.MathUtils.clamp(blockedAt - probeMargin, minDistance, distance)
+  }
+
+  /**
+   * Set the collision system used to keep the third-person boom out of terrain and objects
+   */
+  public setCollisionSystem(collisionSystem: CollisionSystem | null): void {
+    this.collisionSystem = collisionSystem
+  }
+
+  /**
+   * Update third-person boom settings
+   */
+  public setThirdPersonConfig(config: Partial<ThirdPersonCameraConfig>): void {
+    this.thirdPersonConfig = { ...this.thirdPersonConfig, ...config }
+    this.boomLength = Math.min(this.boomLength, this.thirdPersonConfig.distance)
+  }
+
+  /**
+   * Get third-person boom settings
+   */
+  public getThirdPersonConfig(): ThirdPersonCameraConfig {
+    return { ...this.thirdPersonConfig }
+  }
+
+  // ============================================================================
+  // FLY CAMERA
+  // ============================================================================
+
+  /**
+   * Start flying from another camera's pose, keeping its view direction
+   */
+  private startFlyFrom(camera: THREE.Camera): void {
+    const previousMode = this.currentMode === 'cinematic' ? (this.playback?.returnMode ?? 'system') : this.currentMode
+    if (previousMode !== 'fly') {
+      this.flyReturnMode = previousMode
+    }
+
+    const rotation = new THREE.Euler().setFromQuaternion(camera.quaternion, 'YXZ')
+    this.playerControls.pitch = rotation.x
+    this.playerControls.yaw = rotation.y
+    this.flyCamera.position.copy(camera.position)
+    this.flyCamera.rotation.set(rotation.x, rotation.y, 0, 'YXZ')
+  }
+
+  /**
+   * Noclip movement: WASD along the view, Space/Q up/down, Shift to boost, gamepad sticks
+   */
+  private updateFlyCamera(deltaTime: number): void {
+    if (!this.playerControls.enabled) return
+
+    const pad = this.flyGamepadInput
+
+    // The player controller (which normally forwards right-stick look) is paused while flying
+    if (pad.camera.length() > 0.1) {
+      this.updatePlayerCameraFromGamepad(pad.camera.x, pad.camera.y, deltaTime)
+    }
+
+    this.flyCamera.rotation.set(this.playerControls.pitch, this.playerControls.yaw, 0, 'YXZ')
+    const forward = new THREE.Vector3(0, 0, -1).applyEuler(this.flyCamera.rotation)
+    const right = new THREE.Vector3(1, 0, 0).applyEuler(this.flyCamera.rotation)
+
+    const move = new THREE.Vector3()
+    if (this.flyKeys.has('KeyW')) move.add(forward)
+    if (this.flyKeys.has('KeyS')) move.sub(forward)
+    if (this.flyKeys.has('KeyD')) move.add(right)
+    if (this.flyKeys.has('KeyA')) move.sub(right)
+    if (this.flyKeys.has('Space') || pad.up) move.y += 1
+    if (this.flyKeys.has('KeyQ') || pad.down) move.y -= 1
+    if (pad.movement.length() > 0.1) {
+      move.addScaledVector(forward, pad.movement.y).addScaledVector(right, pad.movement.x)
+    }
+    if (move.lengthSq() > 1) {
+      move.normalize() // Analog sticks keep partial speeds, combined keys don't go faster
+    }
+
+    const boosting = this.flyKeys.has('ShiftLeft') || this.flyKeys.has('ShiftRight') || pad.boost
+    const speed = this.flyConfig.speed * (boosting ? this.flyConfig.boostMultiplier : 1)
+    this.flyCamera.position.addScaledVector(move, speed * deltaTime)
+  }
+
+  private onFlyWheel(event: WheelEvent): void {
+    if (this.currentMode !== 'fly' || event.deltaY === 0) return
+
+    event.preventDefault()
+    const { scrollFactor, minSpeed, maxSpeed } = this.flyConfig
+    const factor = event.deltaY < 0 ? scrollFactor : 1 / scrollFactor
+    this.flyConfig.speed = THREE.MathUtils.clamp(this.flyConfig.speed * factor, minSpeed, maxSpeed)
+  }
+
+  /**
+   * Leave fly mode for the mode it was entered from
+   * @param teleportPlayer - Move the player to the fly camera first (defaults to true when returning to a player view)
+   */
+  public exitFlyMode(teleportPlayer?: boolean): void {
+    if (this.currentMode !== 'fly' || this.isTransitioning) return
+
+    const teleport = teleportPlayer ?? (this.flyReturnMode === 'player' || this.flyReturnMode === 'third-person')
+    let returnMode = this.flyReturnMode
+
+    if (teleport && this.playerTeleporter) {
+      // The player camera sits playerHeight above the player position
+      const position = this.flyCamera.position.clone()
+      position.y -= this.playerHeight
+      this.playerTeleporter(position)
+      this.playerPosition.copy(position)
+      if (returnMode !== 'third-person') {
+        returnMode = 'player'
+      }
+    }
+
+    this.switchCamera(returnMode)
+  }
+
+  /**
+   * Gamepad state for fly mode (the player controller gets the same input for walking)
+   */
+  public handleGamepadInput(input: {
+    movement: THREE.Vector2
+    camera: THREE.Vector2
+    jump: boolean
+    run: boolean
+    crouch: boolean
+  }): void {
+    this.flyGamepadInput.movement.copy(input.movement)
+    this.flyGamepadInput.camera.copy(input.camera)
+    this.flyGamepadInput.up = input.jump
+    this.flyGamepadInput.down = input.crouch
+    this.flyGamepadInput.boost = input.run
+  }
+
+  public setFlyConfig(config: Partial<FlyCameraConfig>): void {
+    this.flyConfig = { ...this.flyConfig, ...config }
+    this.flyConfig.speed = THREE.MathUtils.clamp(this.flyConfig.speed, this.flyConfig.minSpeed, this.flyConfig.maxSpeed)
+  }
+
+  public getFlyConfig(): FlyCameraConfig {
+    return { ...this.flyConfig }
+  }
+
+  // ============================================================================
+  // MAP CAMERA
+  // ============================================================================
+
+  /**
+   * Pose the map camera over the view center and size its frustum, keeping its aspect
+   */
+  private placeMapCamera(): void {
+    const { centerX, centerZ, halfHeight } = this.mapView
+    this.mapCamera.position.set(centerX, MAP_CAMERA_HEIGHT, centerZ)
+
+    const camera = this.mapCamera
+    const aspect = (camera.right - camera.left) / (camera.top - camera.bottom)
+    if (camera.top !== halfHeight) {
+      camera.top = halfHeight
+      camera.bottom = -halfHeight
+      camera.left = -halfHeight * aspect
+      camera.right = halfHeight * aspect
+      camera.updateProjectionMatrix()
+    }
+  }
+
+  private onMapPointerDown(event: PointerEvent): void {
+    if (this.currentMode !== 'map' || event.button !== 0) return
+    this.mapDrag = { pointerId: event.pointerId, x: event.clientX, y: event.clientY }
+  }
+
+  private onMapPointerMove(event: PointerEvent): void {
+    if (!this.mapDrag || event.pointerId !== this.mapDrag.pointerId) return
+
+    // Drag the ground along with the pointer
+    const worldPerPixel = this.getMapWorldPerPixel()
+    this.mapView.centerX -= (event.clientX - this.mapDrag.x) * worldPerPixel
+    this.mapView.centerZ -= (event.clientY - this.mapDrag.y) * worldPerPixel
+    this.mapDrag.x = event.clientX
+    this.mapDrag.y = event.clientY
+  }
+
+  private onMapPointerUp(event: PointerEvent): void {
+    if (this.mapDrag && event.pointerId === this.mapDrag.pointerId) {
+      this.mapDrag = null
+    }
+  }
+
+  /**
+   * Zoom towards the point under the cursor
+   */
+  private onMapWheel(event: WheelEvent): void {
+    if (this.currentMode !== 'map' || event.deltaY === 0) return
+
+    event.preventDefault()
+    const anchor = this.screenToMapPoint(event.clientX, event.clientY)
+    const factor = event.deltaY < 0 ? 1 / this.mapConfig.zoomFactor : this.mapConfig.zoomFactor
+    const previousHalfHeight = this.mapView.halfHeight
+    this.zoomMap(factor)
+
+    const scale = this.mapView.halfHeight / previousHalfHeight
+    this.mapView.centerX = anchor.x + (this.mapView.centerX - anchor.x) * scale
+    this.mapView.centerZ = anchor.z + (this.mapView.centerZ - anchor.z) * scale
+  }
+
+  private getMapWorldPerPixel(): number {
+    return (this.mapView.halfHeight * 2) / Math.max(this.container.getBoundingClientRect().height, 1)
+  }
+
+  /**
+   * World point (at y = 0) under a screen position in the map view
+   */
+  public screenToMapPoint(clientX: number, clientY: number): THREE.Vector3 {
+    const rect = this.container.getBoundingClientRect()
+    const worldPerPixel = this.getMapWorldPerPixel()
+    return new THREE.Vector3(
+      this.mapView.centerX + (clientX - rect.left - rect.width / 2) * worldPerPixel,
+      0,
+      this.mapView.centerZ + (clientY - rect.top - rect.height / 2) * worldPerPixel
+    )
+  }
+
+  /**
+   * Zoom the map view (factors below 1 zoom in)
+   */
+  public zoomMap(factor: number): void {
+    const { minHalfHeight, maxHalfHeight } = this.mapConfig
+    this.mapView.halfHeight = THREE.MathUtils.clamp(this.mapView.halfHeight * factor, minHalfHeight, maxHalfHeight)
+    this.placeMapCamera()
+  }
+
+  public setMapView(view: Partial<MapView>): void {
+    this.mapView = { ...this.mapView, ...view }
+    const { minHalfHeight, maxHalfHeight } = this.mapConfig
+    this.mapView.halfHeight = THREE.MathUtils.clamp(this.mapView.halfHeight, minHalfHeight, maxHalfHeight)
+    this.placeMapCamera()
+  }
+
+  /**
+   * Leave the map for the mode it was entered from
+   */
+  public exitMapMode(): void {
+    if (this.currentMode !== 'map' || this.isTransitioning) return
+    this.switchCamera(this.mapReturnMode, true)
+  }
+
+  public getMapView(): MapView {
+    return { ...this.mapView }
+  }
+
+  public setMapConfig(config: Partial<MapCameraConfig>): void {
+    this.mapConfig = { ...this.mapConfig, ...config }
+    this.setMapView({})
+  }
+
+  public getMapConfig(): MapCameraConfig {
+    return { ...this.mapConfig }
+  }
+
+  /**
+   * Top-down orthographic camera used by the map mode (and copied by the minimap)
+   */
+  public getMapCamera(): THREE.OrthographicCamera {
+    return this.mapCamera
+  }
+
+  // ============================================================================
+  // CINEMATIC CAMERA PATHS
+  // ============================================================================
+
+  /**
+   * Advance path playback; non-looping paths hand back to the previous mode when done
+   */
+  private updateCinematicCamera(deltaTime: number): void {
+    if (!this.playback) return
+
+    this.playback.time += deltaTime
+    this.playback.path.apply(this.playback.time, this.cinematicCamera)
+
+    if (!this.playback.path.loop && this.playback.time >= this.playback.path.getDuration()) {
+      this.stopCameraPath()
+    }
+  }
+
+  /**
+   * Record the current camera pose as the next keyframe
+   * @param duration - Seconds to travel from this keyframe to the next one
+   * @param easing - Easing of the segment starting at this keyframe
+   */
+  public recordCameraKey(duration: number = 2, easing: CameraEasing = 'easeInOut'): CameraKeyframe {
+    const camera = this.currentCamera
+    const target = this.currentMode === 'system'
+      ? this.orbitControls.target.clone()
+      : camera.getWorldDirection(new THREE.Vector3()).multiplyScalar(10).add(camera.position)
+
+    const key: CameraKeyframe = {
+      position: camera.position.toArray() as [number, number, number],
+      target: target.toArray() as [number, number, number],
+      fov: this.getBaseFov(camera),
+      duration: Math.max(0, duration),
+      easing
+    }
+    this.recordedKeys.push(key)
+    return key
+  }
+
+  /**
+   * Get the keyframes recorded since the last save/clear
+   */
+  public getRecordedKeys(): CameraKeyframe[] {
+    return this.recordedKeys.map(key => ({ ...key }))
+  }
+
+  public clearRecordedKeys(): void {
+    this.recordedKeys = []
+  }
+
+  /**
+   * Turn the recorded keyframes into a named path (replacing any path with that name)
+   */
+  public saveCameraPath(name: string, loop: boolean = false): CameraPath | null {
+    try {
+      const path = new CameraPath(name, { loop, keyframes: this.recordedKeys })
+      this.cameraPaths.set(name, path)
+      this.recordedKeys = []
+      logger.info(LogModule.CAMERA, `Camera path "${name}" saved: ${path.getKeyframeCount()} keyframes, ${path.getDuration().toFixed(1)}s`)
+      return path
+    } catch (error) {
+      logger.warn(LogModule.CAMERA, (error as Error).message)
+      return null
+    }
+  }
+
+  /**
+   * Add paths from JSON (the format of src/config/cameraPaths.json); invalid paths are skipped
+   * @returns Number of paths loaded
+   */
+  public importCameraPaths(data: Record<string, CameraPathData>): number {
+    let loaded = 0
+    Object.entries(data).forEach(([name, pathData]) => {
+      try {
+        this.cameraPaths.set(name, new CameraPath(name, pathData))
+        loaded++
+      } catch (error) {
+        logger.warn(LogModule.CAMERA, `Skipping camera path: ${(error as Error).message}`)
+      }
+    })
+    return loaded
+  }
+
+  /**
+   * Serialize all paths in the format of src/config/cameraPaths.json
+   */
+  public exportCameraPaths(): Record<string, CameraPathData> {
+    const data: Record<string, CameraPathData> = {}
+    this.cameraPaths.forEach((path, name) => {
+      data[name] = path.toJSON()
+    })
+    return data
+  }
+
+  public getCameraPathNames(): string[] {
+    return Array.from(this.cameraPaths.keys())
+  }
+
+  public deleteCameraPath(name: string): boolean {
+    return this.cameraPaths.delete(name)
+  }
+
+  /**
+   * Blend to the start of a path and play it in cinematic mode
+   */
+  public playCameraPath(name: string): boolean {
+    const path = this.cameraPaths.get(name)
+    if (!path) {
+      logger.warn(LogModule.CAMERA, `Camera path "${name}" not found`)
+      return false
+    }
+    if (this.isTransitioning) {
+      return false
+    }
+
+    path.apply(0, this.cinematicCamera)
+
+    if (this.playback) {
+      // Already in cinematic mode - restart with the new path, keeping the way back
+      this.playback = { ...this.playback, path, time: 0 }
+      return true
+    }
+
+    this.playback = {
+      path,
+      time: 0,
+      returnMode: this.currentMode,
+      returnPosition: this.currentCamera.position.clone(),
+      returnRotation: this.currentCamera.rotation.clone()
+    }
+    this.startCameraTransition(this.currentCamera, this.cinematicCamera, 'cinematic')
+    return true
+  }
+
+  /**
+   * Stop path playback and blend back to the mode it started from
+   */
+  public stopCameraPath(): void {
+    if (!this.playback) return
+
+    const { returnMode, returnPosition, returnRotation } = this.playback
+    const returnCamera = this.getCameraObject(returnMode)
+
+    // The transition into cinematic mode moved that camera, so put it back first
+    returnCamera.position.copy(returnPosition)
+    returnCamera.rotation.copy(returnRotation)
+
+    this.isTransitioning = false
+    this.switchCamera(returnMode)
+  }
+
+  /**
+   * Get the playing path, or null outside cinematic mode
+   */
+  public getCameraPathPlayback(): { name: string, time: number, duration: number, loop: boolean } | null {
+    if (!this.playback) return null
+    return {
+      name: this.playback.path.name,
+      time: this.playback.time,
+      duration: this.playback.path.getDuration(),
+      loop: this.playback.path.loop
+    }
+  }
+
+  // ============================================================================
+  // CAMERA BOOKMARKS
+  // ============================================================================
+
+  /**
+   * Bookmark the current view, replacing any bookmark with the same name
+   */
+  public saveBookmark(name: string = `View ${this.bookmarks.length + 1}`): CameraBookmark {
+    const camera = this.currentCamera
+    const rotation = new THREE.Euler().setFromQuaternion(camera.quaternion, 'YXZ')
+    // Cinematic and map views are kept as free (system) views
+    const mode = this.currentMode === 'cinematic' || this.currentMode === 'map' ? 'system' : this.currentMode
+
+    const bookmark: CameraBookmark = {
+      name,
+      mode,
+      position: camera.position.toArray() as [number, number, number],
+      rotation: [rotation.x, rotation.y, rotation.z],
+      fov: this.getBaseFov(camera)
+    }
+    if (this.currentMode === 'map') {
+      // Look straight down from the height where the system camera's FOV covers the same area
+      const { centerX, centerZ, halfHeight } = this.mapView
+      const height = halfHeight / Math.tan(THREE.MathUtils.degToRad(bookmark.fov / 2))
+      bookmark.position = [centerX, height, centerZ]
+      bookmark.target = [centerX, 0, centerZ]
+    } else if (mode === 'system') {
+      bookmark.target = this.currentMode === 'system'
+        ? this.orbitControls.target.toArray() as [number, number, number]
+        : camera.getWorldDirection(new THREE.Vector3()).multiplyScalar(10).add(camera.position).toArray() as [number, number, number]
+    } else if (mode !== 'fly') {
+      bookmark.playerPosition = this.playerPosition.toArray() as [number, number, number]
+    }
+
+    const index = this.bookmarks.findIndex(existing => existing.name === name)
+    if (index >= 0) {
+      this.bookmarks[index] = bookmark
+    } else {
+      this.bookmarks.push(bookmark)
+    }
+    this.persistBookmarks()
+    return { ...bookmark }
+  }
+
+  /**
+   * Animate to a bookmark by name or by 1-based position in the list
+   * Player views move the player too (see setPlayerTeleporter)
+   */
+  public goToBookmark(nameOrNumber: string | number): boolean {
+    const bookmark = this.getBookmark(nameOrNumber)
+    if (!bookmark || this.isTransitioning) {
+      return false
+    }
+
+    // Leaving a camera path - the bookmark takes over from here
+    this.playback = null
+
+    // Snapshot the current pose first: the target camera may be the one we're looking through
+    const from = this.currentCamera.clone()
+    const to = this.getCameraForMode(bookmark.mode)
+
+    if (bookmark.mode === 'system') {
+      to.position.fromArray(bookmark.position)
+      to.rotation.set(bookmark.rotation[0], bookmark.rotation[1], bookmark.rotation[2], 'YXZ')
+      if (bookmark.target) {
+        this.orbitControls.target.fromArray(bookmark.target)
+      }
+    } else if (bookmark.mode === 'fly') {
+      if (this.currentMode !== 'fly') {
+        this.startFlyFrom(this.currentCamera)
+      }
+      this.playerControls.pitch = bookmark.rotation[0]
+      this.playerControls.yaw = bookmark.rotation[1]
+      to.position.fromArray(bookmark.position)
+      to.rotation.set(bookmark.rotation[0], bookmark.rotation[1], 0, 'YXZ')
+    } else {
+      this.playerControls.pitch = bookmark.rotation[0]
+      this.playerControls.yaw = bookmark.rotation[1]
+      if (bookmark.playerPosition) {
+        const playerPosition = new THREE.Vector3().fromArray(bookmark.playerPosition)
+        if (this.playerTeleporter) {
+          this.playerTeleporter(playerPosition)
+        }
+        this.playerPosition.copy(playerPosition)
+      }
+      if (bookmark.mode === 'third-person') {
+        this.boomLength = this.thirdPersonConfig.distance
+        this.placeThirdPersonCamera()
+      } else {
+        to.position.fromArray(bookmark.position)
+        to.rotation.set(bookmark.rotation[0], bookmark.rotation[1], 0, 'YXZ')
+      }
+    }
+
+    this.setBaseFov(to, bookmark.fov)
+
+    this.startCameraTransition(from, to, bookmark.mode)
+    return true
+  }
+
+  /**
+   * Find a bookmark by name or by 1-based position in the list
+   */
+  public getBookmark(nameOrNumber: string | number): CameraBookmark | null {
+    const bookmark = typeof nameOrNumber === 'number'
+      ? this.bookmarks[nameOrNumber - 1]
+      : this.bookmarks.find(existing => existing.name === nameOrNumber)
+    return bookmark ? { ...bookmark } : null
+  }
+
+  public getBookmarks(): CameraBookmark[] {
+    return this.bookmarks.map(bookmark => ({ ...bookmark }))
+  }
+
+  public renameBookmark(name: string, newName: string): boolean {
+    const bookmark = this.bookmarks.find(existing => existing.name === name)
+    if (!bookmark || !newName || this.bookmarks.some(existing => existing.name === newName)) {
+      return false
+    }
+    bookmark.name = newName
+    this.persistBookmarks()
+    return true
+  }
+
+  public deleteBookmark(name: string): boolean {
+    const index = this.bookmarks.findIndex(existing => existing.name === name)
+    if (index < 0) {
+      return false
+    }
+    this.bookmarks.splice(index, 1)
+    this.persistBookmarks()
+    return true
+  }
+
+  /**
+   * Set how player-view bookmarks move the player (the player controller owns its position)
+   */
+  public setPlayerTeleporter(teleporter: ((position: THREE.Vector3) => void) | null): void {
+    this.playerTeleporter = teleporter
+  }
+
+  private persistBookmarks(): void {
+    try {
+      localStorage.setItem(BOOKMARKS_STORAGE_KEY, JSON.stringify(this.bookmarks))
+    } catch (error) {
+      logger.warn(LogModule.CAMERA, 'Failed to save camera bookmarks')
+    }
+  }
+
+  private loadBookmarks(): void {
+    try {
+      const saved = localStorage.getItem(BOOKMARKS_STORAGE_KEY)
+      if (saved) {
+        const parsed = JSON.parse(saved)
+        const entries: unknown[] = Array.isArray(parsed) ? parsed : []
+        this.bookmarks = entries.filter(isCameraBookmark)
+        if (this.bookmarks.length < entries.length) {
+          logger.warn(LogModule.CAMERA, `Skipped ${entries.length - this.bookmarks.length} invalid camera bookmarks`)
+        }
+      }
+    } catch (error) {
+      logger.warn(LogModule.CAMERA, 'Failed to load camera bookmarks')
+      this.bookmarks = []
+    }
   }
 
   // ============================================================================
@@ -367,9 +1390,13 @@ export class CameraManager {
    */
   public setPlayerPosition(position: THREE.Vector3): void {
     this.playerPosition.copy(position)
+    if (this.isTransitioning) {
+      return
+    }
     if (this.currentMode === 'player') {
-      this.playerCamera.position.copy(position)
-      this.playerCamera.position.y += this.playerHeight
+      this.placePlayerCamera()
+    } else if (this.currentMode === 'third-person') {
+      this.placeThirdPersonCamera()
     }
   }
 
@@ -380,6 +1407,27 @@ export class CameraManager {
     return this.playerPosition.clone()
   }
 
+  /**
+   * Move the player through the teleporter and keep the player views with it
+   * @returns false when no teleporter is set
+   */
+  public teleportPlayer(position: THREE.Vector3): boolean {
+    if (!this.playerTeleporter) return false
+    this.playerTeleporter(position)
+    this.setPlayerPosition(position)
+    return true
+  }
+
+  /**
+   * Slide the system camera so its orbit target lands on a point, keeping the viewing angle and distance
+   */
+  public moveSystemTarget(target: THREE.Vector3): void {
+    const offset = target.clone().sub(this.orbitControls.target)
+    this.orbitControls.target.add(offset)
+    this.systemCamera.position.add(offset)
+    this.orbitControls.update()
+  }
+
   /**
    * Set player height above ground
    */
@@ -394,7 +1442,7 @@ export class CameraManager {
   /**
    * Get current active camera
    */
-  public getCurrentCamera(): THREE.PerspectiveCamera {
+  public getCurrentCamera(): THREE.PerspectiveCamera | THREE.OrthographicCamera {
     return this.currentCamera
   }
 
@@ -419,6 +1467,33 @@ export class CameraManager {
     return this.playerCamera
   }
 
+  /**
+   * Get third-person camera
+   */
+  public getThirdPersonCamera(): THREE.PerspectiveCamera {
+    return this.thirdPersonCamera
+  }
+
+  /**
+   * Camera of a mode, posed for this frame even while another mode is active (for extra viewports)
+   * The player views are otherwise only kept up to date while they're the active camera.
+   */
+  public getPosedCamera(mode: Exclude<CameraMode, 'cinematic'>): THREE.PerspectiveCamera | THREE.OrthographicCamera {
+    const camera = this.getCameraObject(mode)
+    if (camera === this.currentCamera) {
+      return camera // Already placed by update(), or mid-transition
+    }
+    if (mode === 'player') {
+      this.placePlayerCamera()
+    } else if (mode === 'third-person') {
+      this.boomLength = this.thirdPersonConfig.distance // No easing back out while inactive
+      this.placeThirdPersonCamera()
+    } else if (mode === 'map') {
+      this.placeMapCamera()
+    }
+    return camera
+  }
+
   /**
    * Get orbit controls (for system camera)
    */
@@ -440,7 +1515,7 @@ export class CameraManager {
    * @param deltaTime - Time since last frame in seconds
    */
   public updatePlayerCameraFromGamepad(deltaX: number, deltaY: number, deltaTime: number): void {
-    if (!this.playerControls.enabled || this.currentMode !== 'player') {
+    if (!this.playerControls.enabled || !this.usesMouseLook(this.currentMode)) {
       return
     }
 
@@ -454,6 +1529,13 @@ export class CameraManager {
     this.playerControls.pitch = Math.max(-Math.PI / 2, Math.min(Math.PI / 2, this.playerControls.pitch))
   }
 
+  /**
+   * Be notified whenever the camera mode changes (including when a camera path finishes)
+   */
+  public setModeChangeListener(listener: ((mode: CameraMode) => void) | null): void {
+    this.modeChangeListener = listener
+  }
+
   /**
    * Set transition duration
    */
@@ -476,6 +1558,19 @@ export class CameraManager {
     
     this.playerCamera.aspect = aspect
     this.playerCamera.updateProjectionMatrix()
+    
+    this.thirdPersonCamera.aspect = aspect
+    this.thirdPersonCamera.updateProjectionMatrix()
+    
+    this.cinematicCamera.aspect = aspect
+    this.cinematicCamera.updateProjectionMatrix()
+    
+    this.flyCamera.aspect = aspect
+    this.flyCamera.updateProjectionMatrix()
+    
+    this.mapCamera.left = this.mapCamera.bottom * aspect
+    this.mapCamera.right = this.mapCamera.top * aspect
+    this.mapCamera.updateProjectionMatrix()
   }
 
   /**
@@ -493,6 +1588,30 @@ export class CameraManager {
         position: this.playerCamera.position.toArray(),
         rotation: this.playerCamera.rotation.toArray()
       },
+      thirdPersonCamera: {
+        position: this.thirdPersonCamera.position.toArray(),
+        rotation: this.thirdPersonCamera.rotation.toArray(),
+        boomLength: this.boomLength,
+        maxBoomLength: this.thirdPersonConfig.distance
+      },
+      cinematic: {
+        playback: this.getCameraPathPlayback(),
+        paths: this.getCameraPathNames(),
+        recordedKeys: this.recordedKeys.length
+      },
+      effects: {
+        ...this.effects.getConfig(),
+        trauma: this.effects.getTrauma(),
+        fovOffset: this.appliedFovOffset
+      },
+      flyCamera: {
+        position: this.flyCamera.position.toArray(),
+        speed: this.flyConfig.speed
+      },
+      mapCamera: {
+        ...this.mapView
+      },
+      bookmarks: this.bookmarks.map(bookmark => bookmark.name),
       playerControls: {
         enabled: this.playerControls.enabled,
         pitch: this.playerControls.pitch,
@@ -512,6 +1631,15 @@ export class CameraManager {
     this.container.removeEventListener('mousemove', this.onMouseMove.bind(this))
     document.removeEventListener('pointerlockchange', this.onPointerLockChange.bind(this))
     window.removeEventListener('resize', this.onWindowResize.bind(this))
+    document.removeEventListener('keydown', this.boundFlyKeyDown)
+    document.removeEventListener('keyup', this.boundFlyKeyUp)
+    window.removeEventListener('blur', this.boundFlyBlur)
+    document.removeEventListener('focusin', this.boundFlyFocusIn)
+    this.container.removeEventListener('wheel', this.boundFlyWheel)
+    this.container.removeEventListener('pointerdown', this.boundMapPointerDown)
+    window.removeEventListener('pointermove', this.boundMapPointerMove)
+    window.removeEventListener('pointerup', this.boundMapPointerUp)
+    this.container.removeEventListener('wheel', this.boundMapWheel)
     
     // console.log('📷 CameraManager disposed')
   }
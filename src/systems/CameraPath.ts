@@ -0,0 +1,137 @@
+import * as THREE from 'three'
+
+export type CameraEasing = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut'
+
+/**
+ * A recorded camera pose. duration and easing describe the segment towards the next keyframe
+ * (on the last keyframe they only matter for looping paths).
+ */
+export interface CameraKeyframe {
+  position: [number, number, number]
+  target: [number, number, number]
+  fov: number
+  duration: number // Seconds to reach the next keyframe
+  easing?: CameraEasing // Defaults to easeInOut
+}
+
+/**
+ * Serialized camera path, as stored in src/config/cameraPaths.json
+ */
+export interface CameraPathData {
+  loop?: boolean
+  keyframes: CameraKeyframe[]
+}
+
+const EASINGS: Record<CameraEasing, (t: number) => number> = {
+  linear: t => t,
+  easeIn: t => t * t * t,
+  easeOut: t => 1 - Math.pow(1 - t, 3),
+  easeInOut: t => t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2
+}
+
+export function isCameraEasing(value: unknown): value is CameraEasing {
+  return typeof value === 'string' && value in EASINGS
+}
+
+/**
+ * Keyframed camera flythrough. Positions and look targets follow centripetal Catmull-Rom
+ * splines through the keyframes; each segment has its own duration and easing.
+ */
+export class CameraPath {
+  public readonly name: string
+  public readonly loop: boolean
+  private keyframes: CameraKeyframe[]
+  private positionCurve: THREE.CatmullRomCurve3
+  private targetCurve: THREE.CatmullRomCurve3
+  private segmentStarts: number[] = []
+  private segmentDurations: number[] = []
+  private duration: number = 0
+  private target: THREE.Vector3 = new THREE.Vector3()
+
+  constructor(name: string, data: CameraPathData) {
+    if (!Array.isArray(data.keyframes) || data.keyframes.length < 2) {
+      throw new Error(`Camera path "${name}" needs at least two keyframes`)
+    }
+    data.keyframes.forEach((key, index) => {
+      if (!isVector3Tuple(key.position) || !isVector3Tuple(key.target) || !(key.fov > 0) || !(key.duration >= 0)) {
+        throw new Error(`Camera path "${name}" has an invalid keyframe at index ${index}`)
+      }
+      if (key.easing !== undefined && !isCameraEasing(key.easing)) {
+        throw new Error(`Camera path "${name}" has an unknown easing "${key.easing}" at index ${index}`)
+      }
+    })
+
+    this.name = name
+    this.loop = data.loop ?? false
+    this.keyframes = data.keyframes.map(key => ({ ...key }))
+
+    this.positionCurve = new THREE.CatmullRomCurve3(
+      this.keyframes.map(key => new THREE.Vector3(...key.position)), this.loop, 'centripetal'
+    )
+    this.targetCurve = new THREE.CatmullRomCurve3(
+      this.keyframes.map(key => new THREE.Vector3(...key.target)), this.loop, 'centripetal'
+    )
+
+    // A looping path has an extra segment from the last keyframe back to the first
+    const segmentCount = this.loop ? this.keyframes.length : this.keyframes.length - 1
+    for (let i = 0; i < segmentCount; i++) {
+      const segmentDuration = Math.max(this.keyframes[i].duration, 0.01)
+      this.segmentStarts.push(this.duration)
+      this.segmentDurations.push(segmentDuration)
+      this.duration += segmentDuration
+    }
+  }
+
+  /**
+   * Total playback time in seconds
+   */
+  public getDuration(): number {
+    return this.duration
+  }
+
+  public getKeyframeCount(): number {
+    return this.keyframes.length
+  }
+
+  /**
+   * Pose the camera at the given playback time (wrapped for looping paths, clamped otherwise)
+   */
+  public apply(time: number, camera: THREE.PerspectiveCamera): void {
+    const t = this.loop
+      ? ((time % this.duration) + this.duration) % this.duration
+      : THREE.MathUtils.clamp(time, 0, this.duration)
+
+    let segment = this.segmentStarts.length - 1
+    while (segment > 0 && this.segmentStarts[segment] > t) {
+      segment--
+    }
+
+    const from = this.keyframes[segment]
+    const to = this.keyframes[(segment + 1) % this.keyframes.length]
+    const local = THREE.MathUtils.clamp((t - this.segmentStarts[segment]) / this.segmentDurations[segment], 0, 1)
+    const eased = EASINGS[from.easing ?? 'easeInOut'](local)
+
+    // CatmullRomCurve3 spaces its points evenly over [0, 1], one segment per keyframe gap
+    const curveT = (segment + eased) / this.segmentStarts.length
+    this.positionCurve.getPoint(curveT, camera.position)
+    this.targetCurve.getPoint(curveT, this.target)
+
+    const fov = THREE.MathUtils.lerp(from.fov, to.fov, eased)
+    if (camera.fov !== fov) {
+      camera.fov = fov
+      camera.updateProjectionMatrix()
+    }
+    camera.lookAt(this.target)
+  }
+
+  public toJSON(): CameraPathData {
+    return {
+      loop: this.loop,
+      keyframes: this.keyframes.map(key => ({ ...key }))
+    }
+  }
+}
+
+function isVector3Tuple(value: unknown): value is [number, number, number] {
+  return Array.isArray(value) && value.length === 3 && value.every(component => typeof component === 'number')
+}
@@ -1,5 +1,29 @@
 import * as THREE from 'three'
 import { logger, LogModule } from './Logger'
+import { SpatialHashGrid } from './SpatialHashGrid'
+import { TerrainHeightfield } from './TerrainHeightfield'
+
+/**
+ * Collision layers (bit flags). Two things collide when each one's mask includes the
+ * other's layer and the layer matrix allows the pair.
+ */
+export enum CollisionLayer {
+  DEFAULT = 1 << 0,
+  PLAYER = 1 << 1,
+  LAND = 1 << 2,
+  PROP = 1 << 3, // Only collides with the player and land
+  DEBRIS = 1 << 4, // Ignores other debris
+  TRIGGER = 1 << 5 // Never blocks movement
+}
+
+export const COLLISION_MASK_ALL = 0xffff
+
+const MAX_BROAD_PHASE_REQUERIES = 4 // Per object test, when contact corrections carry the volume out of the query bounds
+
+export interface CollisionFilter {
+  layer?: CollisionLayer // Defaults to CollisionLayer.DEFAULT
+  mask?: number // Layers this collides with, defaults to COLLISION_MASK_ALL
+}
 
 export interface CollisionVolume {
   type: 'box' | 'sphere' | 'capsule'
@@ -20,6 +44,101 @@ export interface CollidableObject {
   mesh: THREE.Mesh
   collisionVolume: CollisionVolume
   isStatic: boolean // Static objects don't move when colliding
+  syncWithMesh?: boolean // Copy mesh position/rotation/scale into the collision volume before each test
+  layer?: CollisionLayer // Defaults to CollisionLayer.DEFAULT
+  mask?: number // Layers this object collides with, defaults to COLLISION_MASK_ALL
+  rigidBody?: RigidBody // Simulated by updateDynamicObjects; non-static objects without one are moved by their owner
+}
+
+export interface RigidBodyOptions {
+  mass?: number // Defaults to 1
+  restitution?: number // Bounciness 0-1, defaults to 0.3
+  friction?: number // Defaults to 0.5
+  linearDamping?: number // Fraction of velocity lost per second, defaults to 0.05
+  angularDamping?: number // Defaults to 0.1
+}
+
+export interface RigidBody {
+  mass: number
+  inverseMass: number
+  inverseInertia: THREE.Vector3 // Body-space principal axes
+  restitution: number
+  friction: number
+  linearDamping: number
+  angularDamping: number
+  velocity: THREE.Vector3
+  angularVelocity: THREE.Vector3
+  force: THREE.Vector3 // Added with applyForce, cleared after every physics step
+  torque: THREE.Vector3
+  sleeping: boolean
+  sleepTimer: number // Seconds spent below the sleep thresholds
+}
+
+export interface RaycastHit {
+  object: CollidableObject
+  distance: number
+  point: THREE.Vector3
+  normal: THREE.Vector3
+}
+
+export interface SweepResult {
+  hit: boolean
+  time: number // Time of impact as a fraction of the motion (1 when nothing was hit)
+  position: THREE.Vector3 // Furthest non-penetrating position along the motion
+  normal: THREE.Vector3 // Surface normal at the impact
+  objectId: string | null // Object that was hit, null for land or no hit
+}
+
+/**
+ * Which objects activate a trigger. All conditions must pass.
+ */
+export interface TriggerFilter {
+  mask?: number // Layers that activate the trigger, defaults to COLLISION_MASK_ALL
+  objectIds?: string[] // Only these objects activate the trigger
+  predicate?: (object: CollidableObject) => boolean
+}
+
+export interface TriggerEvent {
+  triggerId: string
+  objectId: string
+  object: CollidableObject | null // Null when the object was unregistered while inside
+  deltaTime: number
+}
+
+export interface TriggerCallbacks {
+  onEnter?: (event: TriggerEvent) => void
+  onStay?: (event: TriggerEvent) => void // Every frame while an object remains inside
+  onExit?: (event: TriggerEvent) => void
+}
+
+/**
+ * Non-blocking volume that reports objects entering, staying in and leaving it
+ */
+export interface TriggerVolume extends TriggerCallbacks {
+  id: string
+  collisionVolume: CollisionVolume
+  filter?: TriggerFilter
+  enabled?: boolean // Defaults to true
+}
+
+interface TriggerState {
+  trigger: TriggerVolume
+  occupants: Set<string>
+}
+
+/**
+ * Contact between a rigid body and land (other = null) or another object
+ */
+interface RigidContact {
+  object: CollidableObject
+  other: CollidableObject | null
+  point: THREE.Vector3
+  normal: THREE.Vector3 // Points from the other object/land towards the body
+  depth: number
+  bounce: number // Separating speed the solver aims for
+  normalImpulse: number // Accumulated over solver iterations
+  tangents: [THREE.Vector3, THREE.Vector3]
+  tangentImpulse: THREE.Vector2 // Accumulated friction along the tangents
 }
 
 interface GroundHeightCache {
@@ -29,10 +148,41 @@ interface GroundHeightCache {
   timestamp: number
 }
 
+/**
+ * World-space representation of a collision volume used by the narrow phase.
+ * Spheres are treated as capsules with a zero-length segment.
+ */
+interface ShapeProxy {
+  type: 'box' | 'sphere' | 'capsule'
+  center: THREE.Vector3
+  radius: number
+  segmentStart: THREE.Vector3
+  segmentEnd: THREE.Vector3
+  axes: [THREE.Vector3, THREE.Vector3, THREE.Vector3]
+  halfExtents: THREE.Vector3
+  boundingRadius: number
+}
+
+interface ContactInfo {
+  depth: number
+  normal: THREE.Vector3 // Points from the other shape towards the tested shape
+}
+
 interface LandMeshInfo {
   mesh: THREE.Mesh
   boundingBox: THREE.Box3
   priority: number // Higher priority = checked first
+  layer: CollisionLayer
+  mask: number
+}
+
+/**
+ * Land meshes sharing a layer and mask are sampled into one heightfield
+ */
+interface LandHeightfield {
+  layer: CollisionLayer
+  mask: number
+  heightfield: TerrainHeightfield
 }
 
 export class CollisionSystem {
@@ -47,23 +197,58 @@ export class CollisionSystem {
   // Performance optimizations
   private groundHeightCache: Map<string, GroundHeightCache> = new Map()
   private cacheTimeout: number = 500 // Increased cache time to 500ms
-  private lastCollisionCheck: number = 0
-  private collisionCheckInterval: number = 32 // Reduced to 30fps collision checks
   private maxRaycastDistance: number = 200 // Increased to check land within 200 units
   private playerPosition: THREE.Vector3 = new THREE.Vector3()
   private lastPlayerPosition: THREE.Vector3 = new THREE.Vector3()
   private positionThreshold: number = 0.1 // Only update if player moved more than 0.1 units
   
   // ============================================================================
-  // COLLISION HEIGHT OFFSET - ADJUST THIS TO MATCH LAND MESH SURFACE
+  // COLLISION HEIGHT OFFSET
   // ============================================================================
-  // Increase this value to raise collision detection higher (positive = up)
-  // Decrease this value to lower collision detection (negative = down)
-  // Working value: 0.9 (adjusts collision to match flat land mesh surface)
+  // Ground heights come from a heightfield built with the same vertex transform as
+  // land-vertex.glsl, so they already match the rendered surface. Leave this at 0
+  // unless you deliberately want collision above (positive) or below (negative) it.
   // You can also adjust at runtime using: collisionSystem.setGroundHeightOffset(value)
-  private groundHeightOffset: number = 0.9
+  private groundHeightOffset: number = 0
+
+  // Floor used wherever no land covers a point. It sits well below the ocean surface
+  // (-2.0) so the player and bodies end up in the water rather than standing on it.
+  private seabedHeight: number = -12.0
+
+  // Sampled land surface used for ground queries, one per land layer/mask group
+  private heightfields: LandHeightfield[] = []
+  private heightfieldDirty: boolean = false // Rebuilt lazily so bursts of parameter changes cost one rebuild
+  private readonly landRaycastStep: number = 0.25 // March step for land raycasts, about half a heightfield cell
+
+  // Unscaled volume dimensions for objects that follow their mesh transform
+  private meshBaseDimensions: Map<string, THREE.Vector3> = new Map()
+  private readonly contactSkin: number = 0.01 // Extra separation applied when resolving object contacts
+
+  // Broad phase - registered objects bucketed by their world-space bounds
+  private broadPhase: SpatialHashGrid = new SpatialHashGrid(10)
+  private broadPhaseMargin: number = 1.0 // Query padding so objects moving between updates aren't missed
+
+  // Which layers each layer interacts with (kept symmetric)
+  private layerMatrix: Map<CollisionLayer, number> = new Map()
+
+  // Trigger volumes and the objects currently inside each one
+  private triggers: Map<string, TriggerState> = new Map()
+
+  // Rigid-body simulation, stepped at a fixed rate independent of the frame rate
+  private gravity: THREE.Vector3 = new THREE.Vector3(0, -9.81, 0)
+  private readonly physicsTimeStep: number = 1 / 60
+  private readonly maxPhysicsSubsteps: number = 4 // Drop time rather than spiral after long frames
+  private physicsAccumulator: number = 0
+  private readonly solverIterations: number = 6
+  private readonly contactSlop: number = 0.005 // Penetration left uncorrected to keep contacts stable
+  private readonly positionCorrection: number = 0.6 // Fraction of remaining penetration removed per step
+  private readonly restitutionThreshold: number = 1.0 // Slower impacts don't bounce
+  private readonly sleepSpeed: number = 0.05 // Linear (units/s) and angular (rad/s) speed below which bodies may sleep
+  private readonly sleepDelay: number = 1.0 // Seconds below sleepSpeed before a body sleeps
+  private physicsStepListeners: Array<(deltaTime: number) => void> = []
 
   constructor() {
+    this.resetLayerMatrix()
     logger.info(LogModule.COLLISION, 'CollisionSystem initialized with performance optimizations')
   }
 
@@ -73,15 +258,46 @@ export class CollisionSystem {
 
   public registerObject(object: CollidableObject): void {
     this.collidableObjects.set(object.id, object)
+    this.broadPhase.insert(object.id, this.computeVolumeBounds(object.collisionVolume, object.collisionVolume.position, this.tempBox))
     logger.debug(LogModule.COLLISION, `Registered collidable object: ${object.id}`)
   }
 
+  /**
+   * Register a mesh as a collidable object, deriving its volume from the geometry.
+   * The volume follows the mesh transform, so animated objects stay in sync.
+   */
+  public registerMesh(
+    id: string,
+    mesh: THREE.Mesh,
+    isStatic: boolean = true,
+    layer: CollisionLayer = CollisionLayer.DEFAULT,
+    mask: number = COLLISION_MASK_ALL
+  ): CollidableObject {
+    const collisionVolume = this.createVolumeFromMesh(mesh)
+    this.meshBaseDimensions.set(id, collisionVolume.dimensions.clone())
+
+    const object: CollidableObject = {
+      id,
+      mesh,
+      collisionVolume,
+      isStatic,
+      syncWithMesh: true,
+      layer,
+      mask
+    }
+    this.syncVolumeWithMesh(object)
+    this.registerObject(object)
+    return object
+  }
+
   public unregisterObject(id: string): void {
     this.collidableObjects.delete(id)
+    this.meshBaseDimensions.delete(id)
+    this.broadPhase.remove(id)
     logger.debug(LogModule.COLLISION, `Unregistered collidable object: ${id}`)
   }
 
-  public registerLandMeshes(meshes: THREE.Mesh[]): void {
+  public registerLandMeshes(meshes: THREE.Mesh[], layer: CollisionLayer = CollisionLayer.LAND, mask: number = COLLISION_MASK_ALL): void {
     console.log(`🏔️ CollisionSystem.registerLandMeshes() called with ${meshes.length} meshes`)
     
     // Filter out ocean meshes - only register actual land terrain
@@ -119,7 +335,9 @@ export class CollisionSystem {
       return {
         mesh,
         boundingBox,
-        priority
+        priority,
+        layer,
+        mask
       }
     }).sort((a, b) => b.priority - a.priority) // Sort by priority (highest first)
     
@@ -130,8 +348,9 @@ export class CollisionSystem {
       logger.info(LogModule.COLLISION, `Land mesh ${index}: ${info.mesh.userData.id} (${info.mesh.userData.type}) priority=${info.priority} at (${info.mesh.position.x.toFixed(1)}, ${info.mesh.position.y.toFixed(1)}, ${info.mesh.position.z.toFixed(1)})`)
     })
     
-    // Clear cache when land meshes change
+    // Clear cache and resample the surface when land meshes change
     this.groundHeightCache.clear()
+    this.heightfieldDirty = true
     
     if (this.landMeshes.length === 0) {
       logger.warn(LogModule.COLLISION, 'No land meshes registered! Player will fall through terrain.')
@@ -148,10 +367,14 @@ export class CollisionSystem {
       info.boundingBox.setFromObject(info.mesh)
     })
     
-    // Clear cache to force recalculation
+    // Clear cache and resample the surface to force recalculation
     this.groundHeightCache.clear()
+    this.heightfieldDirty = true
+
+    // Resting bodies need to react to the new surface
+    this.wakeRigidBodies()
     
-    logger.info(LogModule.COLLISION, `Refreshed ${this.landMeshes.length} land meshes - updated bounding boxes and cleared cache`)
+    logger.info(LogModule.COLLISION, `Refreshed ${this.landMeshes.length} land meshes - updated bounding boxes and rebuilt heightfield`)
   }
 
   /**
@@ -164,10 +387,12 @@ export class CollisionSystem {
       // Update bounding box for this specific mesh
       landMeshInfo.boundingBox.setFromObject(landMeshInfo.mesh)
       
-      // Clear cache to force recalculation
+      // Clear cache and resample the surface to force recalculation
       this.groundHeightCache.clear()
+      this.heightfieldDirty = true
+      this.wakeRigidBodies()
       
-      logger.debug(LogModule.COLLISION, `Updated land mesh: ${meshId} - refreshed bounding box and cleared cache`)
+      logger.debug(LogModule.COLLISION, `Updated land mesh: ${meshId} - refreshed bounding box and rebuilt heightfield`)
     } else {
       logger.warn(LogModule.COLLISION, `Land mesh not found for update: ${meshId}`)
     }
@@ -192,30 +417,41 @@ export class CollisionSystem {
     }
 
     // Check collision with land
-    const landCollision = this.checkLandCollision(object.collisionVolume, newPosition)
+    const landCollision = this.checkLandCollision(object.collisionVolume, newPosition, object)
     
-    // Check collision with other objects
-    const objectCollision = this.checkObjectCollisions(objectId, object.collisionVolume, newPosition)
+    // Check collision with other objects, starting from the land-corrected position
+    const objectCollision = this.checkObjectCollisions(objectId, object.collisionVolume, landCollision.correctedPosition, object)
+
+    return this.mergeCollisionResults(landCollision, objectCollision)
+  }
 
-    // Combine results (prioritize land collision)
-    if (landCollision.hasCollision) {
+  /**
+   * Merge land and object results. Object contacts were resolved from the land-corrected
+   * position, so the object result already carries both corrections.
+   */
+  private mergeCollisionResults(landCollision: CollisionResult, objectCollision: CollisionResult): CollisionResult {
+    if (!objectCollision.hasCollision) {
       return landCollision
-    } else if (objectCollision.hasCollision) {
+    }
+    if (!landCollision.hasCollision) {
       return objectCollision
     }
 
+    // Report the normal of the deepest contact (land wins ties so ground detection stays stable)
+    const primary = objectCollision.penetrationDepth > landCollision.penetrationDepth ? objectCollision : landCollision
+
     return {
-      hasCollision: false,
-      penetrationDepth: 0,
-      normal: new THREE.Vector3(0, 1, 0),
-      correctedPosition: newPosition.clone()
+      hasCollision: true,
+      penetrationDepth: Math.max(landCollision.penetrationDepth, objectCollision.penetrationDepth),
+      normal: primary.normal.clone(),
+      correctedPosition: objectCollision.correctedPosition.clone()
     }
   }
 
   /**
    * Check collision with land meshes (optimized)
    */
-  private checkLandCollision(volume: CollisionVolume, position: THREE.Vector3): CollisionResult {
+  private checkLandCollision(volume: CollisionVolume, position: THREE.Vector3, filter?: CollisionFilter): CollisionResult {
     if (this.landMeshes.length === 0) {
       return {
         hasCollision: false,
@@ -227,11 +463,11 @@ export class CollisionSystem {
 
     switch (volume.type) {
       case 'capsule':
-        return this.checkCapsuleLandCollision(volume, position)
+        return this.checkCapsuleLandCollision(volume, position, filter)
       case 'box':
-        return this.checkBoxLandCollision(volume, position)
+        return this.checkBoxLandCollision(volume, position, filter)
       case 'sphere':
-        return this.checkSphereLandCollision(volume, position)
+        return this.checkSphereLandCollision(volume, position, filter)
       default:
         return {
           hasCollision: false,
@@ -245,7 +481,7 @@ export class CollisionSystem {
   /**
    * Check capsule collision with land (improved with proper mesh collision)
    */
-  private checkCapsuleLandCollision(volume: CollisionVolume, position: THREE.Vector3): CollisionResult {
+  private checkCapsuleLandCollision(volume: CollisionVolume, position: THREE.Vector3, filter?: CollisionFilter): CollisionResult {
     const radius = volume.dimensions.x
     const height = volume.dimensions.y
     const halfHeight = height * 0.5
@@ -271,7 +507,7 @@ export class CollisionSystem {
 
     // Check each point for collision with land meshes
     for (const checkPoint of checkPoints) {
-      const collision = this.checkPointCollision(checkPoint, radius)
+      const collision = this.checkPointCollision(checkPoint, radius, filter)
       if (collision.hasCollision && collision.penetrationDepth > maxPenetration) {
         maxPenetration = collision.penetrationDepth
         collisionNormal = collision.normal
@@ -302,7 +538,7 @@ export class CollisionSystem {
   /**
    * Check if a point collides with any land mesh
    */
-  private checkPointCollision(point: THREE.Vector3, radius: number): CollisionResult {
+  private checkPointCollision(point: THREE.Vector3, radius: number, filter?: CollisionFilter): CollisionResult {
     if (this.landMeshes.length === 0) {
       return {
         hasCollision: false,
@@ -313,7 +549,7 @@ export class CollisionSystem {
     }
 
     // First, try to get ground height using the existing method
-    const groundHeight = this.getGroundHeightOptimized(point.x, point.z)
+    const groundHeight = this.getGroundHeightOptimized(point.x, point.z, filter)
     
     // CRITICAL FIX: Check if point is below ground + radius (proper sphere collision)
     if (point.y < groundHeight + radius) {
@@ -350,7 +586,9 @@ export class CollisionSystem {
       correctedPosition: point.clone()
     }
 
-    const allMeshes = this.landMeshes.map(info => info.mesh)
+    const allMeshes = this.landMeshes
+      .filter(info => this.canCollide(filter, info))
+      .map(info => info.mesh)
 
     for (const direction of rayDirections) {
       this.raycaster.set(point, direction)
@@ -378,9 +616,9 @@ export class CollisionSystem {
   /**
    * Check box collision with land (optimized)
    */
-  private checkBoxLandCollision(volume: CollisionVolume, position: THREE.Vector3): CollisionResult {
+  private checkBoxLandCollision(volume: CollisionVolume, position: THREE.Vector3, filter?: CollisionFilter): CollisionResult {
     // Only check center point for performance
-    const groundHeight = this.getGroundHeightOptimized(position.x, position.z)
+    const groundHeight = this.getGroundHeightOptimized(position.x, position.z, filter)
     const halfHeight = volume.dimensions.y * 0.5
     const penetration = groundHeight - (position.y - halfHeight)
 
@@ -407,9 +645,9 @@ export class CollisionSystem {
   /**
    * Check sphere collision with land (optimized)
    */
-  private checkSphereLandCollision(volume: CollisionVolume, position: THREE.Vector3): CollisionResult {
+  private checkSphereLandCollision(volume: CollisionVolume, position: THREE.Vector3, filter?: CollisionFilter): CollisionResult {
     const radius = volume.dimensions.x
-    const groundHeight = this.getGroundHeightOptimized(position.x, position.z)
+    const groundHeight = this.getGroundHeightOptimized(position.x, position.z, filter)
     const penetration = groundHeight - (position.y - radius)
 
     if (penetration > 0) {
@@ -434,280 +672,1903 @@ export class CollisionSystem {
 
   /**
    * Check collisions with other objects
+   * Contacts are resolved one after another so corners between two objects push out correctly
    */
-  private checkObjectCollisions(objectId: string, volume: CollisionVolume, position: THREE.Vector3): CollisionResult {
-    // TODO: Implement object-to-object collision detection
-    // For now, return no collision
+  private checkObjectCollisions(objectId: string, volume: CollisionVolume, position: THREE.Vector3, filter?: CollisionFilter): CollisionResult {
+    const correctedPosition = position.clone()
+    let maxPenetration = 0
+    let collisionNormal = new THREE.Vector3(0, 1, 0)
+    let hasAnyCollision = false
+
+    // Only test objects whose bounds are near the tested volume. Once the corrections have
+    // pushed it further than the query margin, query again around where it is now
+    const queryPosition = position.clone()
+    const queryBounds = new THREE.Box3()
+    const tested = new Set<string>([objectId])
+    for (let query = 0; query < MAX_BROAD_PHASE_REQUERIES; query++) {
+      this.computeVolumeBounds(volume, queryPosition, queryBounds).expandByScalar(this.broadPhaseMargin)
+      let outOfRange = false
+
+      for (const id of this.broadPhase.queryAABB(queryBounds)) {
+        if (tested.has(id)) {
+          continue
+        }
+        tested.add(id)
+
+        const other = this.collidableObjects.get(id)
+        if (!other || !other.mesh.visible || !this.canCollide(filter, other)) {
+          continue
+        }
+
+        if (other.syncWithMesh) {
+          // Keep its broad-phase bounds in step with the mesh for the queries that follow
+          this.updateObjectBounds(id)
+        }
+
+        const selfShape = this.buildShapeProxy(volume, correctedPosition)
+        const otherShape = this.buildShapeProxy(other.collisionVolume, other.collisionVolume.position)
+
+        // Cheap bounding sphere rejection before the exact test
+        const reach = selfShape.boundingRadius + otherShape.boundingRadius
+        if (selfShape.center.distanceToSquared(otherShape.center) > reach * reach) {
+          continue
+        }
+
+        const contact = this.computeContact(selfShape, otherShape)
+        if (!contact) {
+          continue
+        }
+
+        correctedPosition.addScaledVector(contact.normal, contact.depth + this.contactSkin)
+        hasAnyCollision = true
+        if (correctedPosition.distanceTo(queryPosition) > this.broadPhaseMargin) {
+          outOfRange = true
+        }
+
+        if (contact.depth > maxPenetration) {
+          maxPenetration = contact.depth
+          collisionNormal = contact.normal
+        }
+      }
+
+      if (!outOfRange) {
+        break
+      }
+      queryPosition.copy(correctedPosition)
+    }
+
     return {
-      hasCollision: false,
-      penetrationDepth: 0,
-      normal: new THREE.Vector3(0, 1, 0),
-      correctedPosition: position.clone()
+      hasCollision: hasAnyCollision,
+      penetrationDepth: maxPenetration,
+      normal: collisionNormal,
+      correctedPosition
     }
   }
 
   // ============================================================================
-  // OPTIMIZED GROUND HEIGHT CALCULATION
+  // CONTINUOUS COLLISION
   // ============================================================================
 
   /**
-   * Get ground height using raycasting for exact mesh surface detection
-   * CRITICAL: Only uses top surface intersections (highest Y value)
-   * Uses mesh world matrix to ensure correct coordinate transformation
+   * Sweep a sphere along a motion and find the first time of impact
    */
-  private getGroundHeightOptimized(x: number, z: number): number {
-    if (this.landMeshes.length === 0) {
-      console.warn(`⚠️ No land meshes registered! Player will sink. Falling back to ocean level (-2.0)`)
-      return -2.0 // Ocean surface level
-    }
+  public sweepSphere(from: THREE.Vector3, to: THREE.Vector3, radius: number, excludeId?: string): SweepResult {
+    return this.sweepVolume({
+      type: 'sphere',
+      position: from.clone(),
+      rotation: new THREE.Euler(),
+      dimensions: new THREE.Vector3(radius, 0, 0)
+    }, from, to, excludeId)
+  }
 
-    let maxGroundHeight = -2.0 // Start with ocean surface level
-    
-    // Use raycasting to get exact surface height at this point
-    const allMeshes = this.landMeshes.map(info => info.mesh)
-    
-    // Find the highest bounding box to start raycast from
-    let highestY = -2.0
-    for (const info of this.landMeshes) {
-      const boundingBox = info.boundingBox
-      if (x >= boundingBox.min.x && x <= boundingBox.max.x &&
-          z >= boundingBox.min.z && z <= boundingBox.max.z) {
-        highestY = Math.max(highestY, boundingBox.max.y)
-      }
-    }
-    
-    // If we found a mesh in bounds, raycast down to get exact surface
-    if (highestY > -2.0) {
-      // Ensure all meshes have updated world matrices before raycasting
-      for (const mesh of allMeshes) {
-        mesh.updateMatrixWorld(true)
-      }
-      
-      // Cast from well above the mesh to ensure we hit the top surface
-      // Use a very high starting point to ensure we're above all geometry
-      const rayStartY = Math.max(highestY + 200, 500) // Start very high
-      this.tempVector.set(x, rayStartY, z)
-      this.tempVector2.set(0, -1, 0) // Cast straight down
-      
-      this.raycaster.set(this.tempVector, this.tempVector2)
-      // Use recursive intersection to account for all transforms
-      const intersects = this.raycaster.intersectObjects(allMeshes, true)
-      
-      if (intersects.length > 0) {
-        // CRITICAL FIX: Find the intersection with the HIGHEST Y value (top surface)
-        // This ensures we get the top of the mesh, not the bottom
-        // Also filter to only use intersections with upward-facing normals (top surface)
-        let topIntersection: THREE.Intersection | null = null
-        let highestY = -Infinity
-        
-        for (const intersect of intersects) {
-          const worldY = intersect.point.y
-          
-          // Check if this is a top surface (normal pointing up)
-          let isTopSurface = true
-          if (intersect.face) {
-            // Get world-space normal
-            const worldNormal = new THREE.Vector3()
-            worldNormal.copy(intersect.face.normal)
-            if (intersect.object instanceof THREE.Mesh) {
-              intersect.object.getWorldQuaternion(this.tempQuaternion)
-              worldNormal.applyQuaternion(this.tempQuaternion)
-            }
-            // Check if normal is pointing upward (Y component > 0.5 means mostly upward)
-            isTopSurface = worldNormal.y > 0.5
-          }
-          
-          // Only consider top surfaces, and take the highest one
-          if (isTopSurface && worldY > highestY) {
-            highestY = worldY
-            topIntersection = intersect
-          }
-        }
-        
-        // If we found a top surface, use it; otherwise fall back to highest Y
-        if (topIntersection) {
-          maxGroundHeight = topIntersection.point.y
-        } else {
-          // Fallback: use highest Y from all intersections
-          for (const intersect of intersects) {
-            if (intersect.point.y > maxGroundHeight) {
-              maxGroundHeight = intersect.point.y
-            }
-          }
-        }
-      } else {
-        // Fallback to bounding box if raycast fails
-        for (const info of this.landMeshes) {
-          const boundingBox = info.boundingBox
-          if (x >= boundingBox.min.x && x <= boundingBox.max.x &&
-              z >= boundingBox.min.z && z <= boundingBox.max.z) {
-            maxGroundHeight = Math.max(maxGroundHeight, boundingBox.max.y)
-          }
-        }
-      }
-    }
-    
-    // Apply vertical offset to match land mesh surface
-    return maxGroundHeight + this.groundHeightOffset
+  /**
+   * Sweep an upright capsule (height includes both caps) along a motion and find the first time of impact
+   */
+  public sweepCapsule(from: THREE.Vector3, to: THREE.Vector3, radius: number, height: number, excludeId?: string): SweepResult {
+    return this.sweepVolume({
+      type: 'capsule',
+      position: from.clone(),
+      rotation: new THREE.Euler(),
+      dimensions: new THREE.Vector3(radius, height, 0)
+    }, from, to, excludeId)
   }
 
   /**
-   * Clean up old cache entries
+   * Sweep a volume from one position to another against objects and land.
+   * The motion is sampled in steps no longer than half the volume's thinnest extent, so
+   * nothing thicker than zero can be skipped, then the impact is refined by bisection.
+   * Objects already overlapping at the start are ignored - the discrete pass resolves those.
+   * Layers are filtered with the given filter, or the excluded object's own layer and mask.
    */
-  private cleanupCache(): void {
-    const now = performance.now()
-    for (const [key, entry] of this.groundHeightCache.entries()) {
-      if ((now - entry.timestamp) > this.cacheTimeout * 2) {
-        this.groundHeightCache.delete(key)
+  public sweepVolume(
+    volume: CollisionVolume,
+    from: THREE.Vector3,
+    to: THREE.Vector3,
+    excludeId?: string,
+    filter: CollisionFilter | undefined = excludeId ? this.collidableObjects.get(excludeId) : undefined
+  ): SweepResult {
+    const motion = to.clone().sub(from)
+    const distance = motion.length()
+    const noHit: SweepResult = {
+      hit: false,
+      time: 1,
+      position: to.clone(),
+      normal: new THREE.Vector3(0, 1, 0),
+      objectId: null
+    }
+    if (distance < 1e-6) {
+      return noHit
+    }
+
+    // Candidates are everything the swept bounds touch
+    const sweptBounds = this.computeVolumeBounds(volume, from, new THREE.Box3())
+      .union(this.computeVolumeBounds(volume, to, this.tempBox))
+      .expandByScalar(this.broadPhaseMargin)
+    const candidates: { id: string, shape: ShapeProxy }[] = []
+    for (const id of this.broadPhase.queryAABB(sweptBounds)) {
+      const other = this.collidableObjects.get(id)
+      if (!other || id === excludeId || !other.mesh.visible || !this.canCollide(filter, other)) {
+        continue
+      }
+      if (other.syncWithMesh) {
+        this.syncVolumeWithMesh(other)
+      }
+
+      const shape = this.buildShapeProxy(other.collisionVolume, other.collisionVolume.position)
+      if (this.computeContact(this.buildShapeProxy(volume, from), shape)) {
+        continue
       }
+      candidates.push({ id, shape })
     }
-  }
 
-  // ============================================================================
-  // UTILITY METHODS
-  // ============================================================================
+    const startLandPenetration = this.getLandPenetration(volume, from, filter)
+    const sample = new THREE.Vector3()
 
-  /**
-   * Update all dynamic objects (apply gravity, resolve collisions) - optimized
-   */
-  public updateDynamicObjects(deltaTime: number): void {
-    const now = performance.now()
-    
-    // Throttle collision checks for better performance
-    if (now - this.lastCollisionCheck < this.collisionCheckInterval) {
-      return
+    // First sample that touches something, or null
+    const testAt = (t: number): { normal: THREE.Vector3, objectId: string | null } | null => {
+      sample.copy(from).addScaledVector(motion, t)
+      const shape = this.buildShapeProxy(volume, sample)
+
+      for (const candidate of candidates) {
+        const contact = this.computeContact(shape, candidate.shape)
+        if (contact) {
+          return { normal: contact.normal, objectId: candidate.id }
+        }
+      }
+
+      // The tolerance keeps float noise from registering a hit while sliding along the surface
+      if (this.getLandPenetration(volume, sample, filter) > Math.max(0, startLandPenetration) + 1e-4) {
+        return { normal: this.getGroundNormal(sample.x, sample.z, new THREE.Vector3(), filter), objectId: null }
+      }
+      return null
     }
-    
-    this.lastCollisionCheck = now
 
-    for (const [id, object] of this.collidableObjects) {
-      // Skip player - player controller handles its own physics
-      if (id === 'player') {
+    const step = Math.max(this.getThinnestExtent(volume) * 0.5, 0.01)
+    const sampleCount = Math.ceil(distance / step)
+    let freeTime = 0
+
+    for (let i = 1; i <= sampleCount; i++) {
+      const t = i / sampleCount
+      let impact = testAt(t)
+      if (!impact) {
+        freeTime = t
         continue
       }
-      
-      if (!object.isStatic) {
-        // Apply gravity
-        const currentPosition = object.mesh.position.clone()
-        currentPosition.y -= 9.81 * deltaTime // Simple gravity
 
-        // Check collision and correct position
-        const collision = this.checkCollision(id, currentPosition)
-        
-        if (collision.hasCollision) {
-          object.mesh.position.copy(collision.correctedPosition)
+      // Bisect between the last free sample and the first touching one
+      let hitTime = t
+      for (let j = 0; j < 8; j++) {
+        const mid = (freeTime + hitTime) * 0.5
+        const midImpact = testAt(mid)
+        if (midImpact) {
+          hitTime = mid
+          impact = midImpact
         } else {
-          object.mesh.position.copy(currentPosition)
+          freeTime = mid
         }
       }
+
+      return {
+        hit: true,
+        time: freeTime,
+        position: from.clone().addScaledVector(motion, freeTime),
+        normal: impact.normal.clone(),
+        objectId: impact.objectId
+      }
     }
-  }
 
-  /**
-   * Update player position for optimization
-   */
-  public updatePlayerPosition(position: THREE.Vector3): void {
-    this.lastPlayerPosition.copy(this.playerPosition)
-    this.playerPosition.copy(position)
+    return noHit
   }
 
   /**
-   * Check if player has moved significantly enough to warrant collision checks
+   * How far the bottom of a volume is below the land surface (negative when above)
    */
-  public shouldCheckCollision(): boolean {
-    return this.playerPosition.distanceTo(this.lastPlayerPosition) > this.positionThreshold
-  }
+  private getLandPenetration(volume: CollisionVolume, position: THREE.Vector3, filter?: CollisionFilter): number {
+    if (this.landMeshes.length === 0) {
+      return -Infinity
+    }
 
-  /**
-   * Create a debug wireframe for a collision volume
-   */
-  public createDebugWireframe(volume: CollisionVolume, color: number = 0x00ff00): THREE.Object3D {
-    let geometry: THREE.BufferGeometry
+    const halfHeight = volume.type === 'sphere' ? volume.dimensions.x : volume.dimensions.y * 0.5
+    return this.getGroundHeightOptimized(position.x, position.z, filter) - (position.y - halfHeight)
+  }
 
+  private getThinnestExtent(volume: CollisionVolume): number {
     switch (volume.type) {
-      case 'capsule':
-        // Create capsule wireframe (cylinder + 2 spheres)
-        const group = new THREE.Group()
-        
-        // Cylinder body
-        const cylinderGeometry = new THREE.CylinderGeometry(
-          volume.dimensions.x, // radius
-          volume.dimensions.x, // radius
-          volume.dimensions.y - volume.dimensions.x * 2, // height minus sphere caps
-          8, 1, true
-        )
-        const cylinderWireframe = new THREE.WireframeGeometry(cylinderGeometry)
-        const cylinderMesh = new THREE.LineSegments(cylinderWireframe, new THREE.LineBasicMaterial({ color }))
-        group.add(cylinderMesh)
+      case 'box':
+        return Math.min(volume.dimensions.x, volume.dimensions.y, volume.dimensions.z)
+      default:
+        return volume.dimensions.x * 2
+    }
+  }
 
-        // Top sphere cap
-        const topSphereGeometry = new THREE.SphereGeometry(volume.dimensions.x, 8, 4, 0, Math.PI * 2, 0, Math.PI / 2)
-        const topSphereWireframe = new THREE.WireframeGeometry(topSphereGeometry)
-        const topSphereMesh = new THREE.LineSegments(topSphereWireframe, new THREE.LineBasicMaterial({ color }))
-        topSphereMesh.position.y = (volume.dimensions.y - volume.dimensions.x * 2) * 0.5
-        group.add(topSphereMesh)
+  // ============================================================================
+  // NARROW PHASE
+  // ============================================================================
 
-        // Bottom sphere cap
-        const bottomSphereGeometry = new THREE.SphereGeometry(volume.dimensions.x, 8, 4, 0, Math.PI * 2, Math.PI / 2, Math.PI / 2)
-        const bottomSphereWireframe = new THREE.WireframeGeometry(bottomSphereGeometry)
-        const bottomSphereMesh = new THREE.LineSegments(bottomSphereWireframe, new THREE.LineBasicMaterial({ color }))
-        bottomSphereMesh.position.y = -(volume.dimensions.y - volume.dimensions.x * 2) * 0.5
-        group.add(bottomSphereMesh)
+  /**
+   * Build a world-space shape for a volume placed at the given position
+   */
+  private buildShapeProxy(volume: CollisionVolume, position: THREE.Vector3): ShapeProxy {
+    const quaternion = this.tempQuaternion.setFromEuler(volume.rotation)
+    const axes: [THREE.Vector3, THREE.Vector3, THREE.Vector3] = [
+      new THREE.Vector3(1, 0, 0).applyQuaternion(quaternion),
+      new THREE.Vector3(0, 1, 0).applyQuaternion(quaternion),
+      new THREE.Vector3(0, 0, 1).applyQuaternion(quaternion)
+    ]
 
-        return group
+    const shape: ShapeProxy = {
+      type: volume.type,
+      center: position.clone(),
+      radius: 0,
+      segmentStart: position.clone(),
+      segmentEnd: position.clone(),
+      axes,
+      halfExtents: new THREE.Vector3(),
+      boundingRadius: 0
+    }
 
+    switch (volume.type) {
       case 'box':
-        geometry = new THREE.BoxGeometry(volume.dimensions.x, volume.dimensions.y, volume.dimensions.z)
+        shape.halfExtents.copy(volume.dimensions).multiplyScalar(0.5)
+        shape.boundingRadius = shape.halfExtents.length()
         break
-
       case 'sphere':
-        geometry = new THREE.SphereGeometry(volume.dimensions.x, 8, 6)
+        shape.radius = volume.dimensions.x
+        shape.boundingRadius = shape.radius
         break
-
-      default:
-        geometry = new THREE.BoxGeometry(1, 1, 1)
+      case 'capsule': {
+        // Capsule height includes both hemispherical caps
+        shape.radius = volume.dimensions.x
+        const halfSegment = Math.max(0, volume.dimensions.y * 0.5 - shape.radius)
+        shape.segmentStart.addScaledVector(axes[1], -halfSegment)
+        shape.segmentEnd.addScaledVector(axes[1], halfSegment)
+        shape.boundingRadius = halfSegment + shape.radius
+        break
+      }
     }
 
-    const wireframe = new THREE.WireframeGeometry(geometry)
-    const mesh = new THREE.LineSegments(wireframe, new THREE.LineBasicMaterial({ color }))
-    
-    return mesh
+    return shape
   }
 
   /**
-   * Get all registered objects
+   * Compute the contact between two shapes, or null if they don't overlap
    */
-  public getObjects(): Map<string, CollidableObject> {
-    return this.collidableObjects
+  private computeContact(a: ShapeProxy, b: ShapeProxy): ContactInfo | null {
+    if (a.type !== 'box' && b.type !== 'box') {
+      return this.capsuleCapsuleContact(a, b)
+    }
+    if (a.type !== 'box' && b.type === 'box') {
+      return this.capsuleBoxContact(a, b)
+    }
+    if (a.type === 'box' && b.type !== 'box') {
+      const contact = this.capsuleBoxContact(b, a)
+      if (contact) {
+        contact.normal.negate()
+      }
+      return contact
+    }
+    return this.boxBoxContact(a, b)
   }
 
   /**
-   * Clear all registered objects
+   * Sphere/capsule vs sphere/capsule (spheres are zero-length capsules)
    */
-  public clear(): void {
-    this.collidableObjects.clear()
-    this.landMeshes = []
-    this.groundHeightCache.clear()
-    logger.info(LogModule.COLLISION, 'CollisionSystem cleared')
+  private capsuleCapsuleContact(a: ShapeProxy, b: ShapeProxy): ContactInfo | null {
+    const [pointA, pointB] = this.closestPointsBetweenSegments(a.segmentStart, a.segmentEnd, b.segmentStart, b.segmentEnd)
+    return this.sphereSphereContact(pointA, a.radius, pointB, b.radius)
   }
 
-  /**
-   * Set ground height offset to adjust collision detection height
-   * @param offset Positive values raise collision, negative values lower it
-   */
-  public setGroundHeightOffset(offset: number): void {
-    this.groundHeightOffset = offset
-    logger.info(LogModule.COLLISION, `Ground height offset set to ${offset.toFixed(2)}`)
+  private sphereSphereContact(centerA: THREE.Vector3, radiusA: number, centerB: THREE.Vector3, radiusB: number): ContactInfo | null {
+    const offset = centerA.clone().sub(centerB)
+    const distance = offset.length()
+    const radiusSum = radiusA + radiusB
+
+    if (distance >= radiusSum) {
+      return null
+    }
+
+    // Concentric shapes have no preferred direction - push upward
+    const normal = distance > 1e-6 ? offset.divideScalar(distance) : new THREE.Vector3(0, 1, 0)
+    return { depth: radiusSum - distance, normal }
   }
 
   /**
-   * Get current ground height offset
+   * Sphere/capsule vs oriented box
    */
-  public getGroundHeightOffset(): number {
-    return this.groundHeightOffset
+  private capsuleBoxContact(capsule: ShapeProxy, box: ShapeProxy): ContactInfo | null {
+    // Find the point on the capsule segment closest to the box by alternating projections
+    let segmentPoint = this.closestPointOnSegment(box.center, capsule.segmentStart, capsule.segmentEnd)
+    if (capsule.segmentStart.distanceToSquared(capsule.segmentEnd) > 1e-12) {
+      for (let i = 0; i < 4; i++) {
+        const boxPoint = this.closestPointOnBox(segmentPoint, box)
+        segmentPoint = this.closestPointOnSegment(boxPoint, capsule.segmentStart, capsule.segmentEnd)
+      }
+    }
+
+    return this.sphereBoxContact(segmentPoint, capsule.radius, box)
   }
 
-  /**
+  private sphereBoxContact(center: THREE.Vector3, radius: number, box: ShapeProxy): ContactInfo | null {
+    const offset = this.tempVector.copy(center).sub(box.center)
+    const local = [offset.dot(box.axes[0]), offset.dot(box.axes[1]), offset.dot(box.axes[2])]
+    const halfExtents = [box.halfExtents.x, box.halfExtents.y, box.halfExtents.z]
+
+    const inside = local.every((value, i) => Math.abs(value) <= halfExtents[i])
+
+    if (inside) {
+      // Center is inside the box - push out through the nearest face
+      let minAxis = 0
+      let minDistance = Infinity
+      for (let i = 0; i < 3; i++) {
+        const faceDistance = halfExtents[i] - Math.abs(local[i])
+        if (faceDistance < minDistance) {
+          minDistance = faceDistance
+          minAxis = i
+        }
+      }
+      const sign = local[minAxis] >= 0 ? 1 : -1
+      return {
+        depth: minDistance + radius,
+        normal: box.axes[minAxis].clone().multiplyScalar(sign)
+      }
+    }
+
+    const closest = this.closestPointOnBox(center, box)
+    const separation = center.clone().sub(closest)
+    const distance = separation.length()
+
+    if (distance >= radius) {
+      return null
+    }
+
+    return {
+      depth: radius - distance,
+      normal: separation.divideScalar(Math.max(distance, 1e-6))
+    }
+  }
+
+  /**
+   * Oriented box vs oriented box using the separating axis theorem
+   */
+  private boxBoxContact(a: ShapeProxy, b: ShapeProxy): ContactInfo | null {
+    const centerOffset = a.center.clone().sub(b.center)
+    const candidateAxes: THREE.Vector3[] = [...a.axes, ...b.axes].map(axis => axis.clone())
+    for (const axisA of a.axes) {
+      for (const axisB of b.axes) {
+        candidateAxes.push(new THREE.Vector3().crossVectors(axisA, axisB))
+      }
+    }
+
+    let minOverlap = Infinity
+    let bestAxis: THREE.Vector3 | null = null
+
+    for (let index = 0; index < candidateAxes.length; index++) {
+      const axis = candidateAxes[index]
+      const lengthSq = axis.lengthSq()
+      if (lengthSq < 1e-10) {
+        continue // Parallel edges produce a degenerate axis
+      }
+      axis.divideScalar(Math.sqrt(lengthSq))
+
+      const projectedA = this.projectBoxRadius(a, axis)
+      const projectedB = this.projectBoxRadius(b, axis)
+      const distance = centerOffset.dot(axis)
+      let overlap = projectedA + projectedB - Math.abs(distance)
+
+      // Prefer face axes over edge axes when overlaps are nearly equal
+      if (index >= 6) {
+        overlap *= 1.01
+      }
+
+      if (overlap < minOverlap) {
+        minOverlap = overlap
+        bestAxis = axis.clone().multiplyScalar(distance >= 0 ? 1 : -1)
+      }
+    }
+
+    if (!bestAxis || minOverlap <= 0) {
+      return null
+    }
+
+    return { depth: minOverlap, normal: bestAxis }
+  }
+
+  private projectBoxRadius(box: ShapeProxy, axis: THREE.Vector3): number {
+    return box.halfExtents.x * Math.abs(box.axes[0].dot(axis)) +
+           box.halfExtents.y * Math.abs(box.axes[1].dot(axis)) +
+           box.halfExtents.z * Math.abs(box.axes[2].dot(axis))
+  }
+
+  private closestPointOnBox(point: THREE.Vector3, box: ShapeProxy): THREE.Vector3 {
+    const offset = point.clone().sub(box.center)
+    const result = box.center.clone()
+    const halfExtents = [box.halfExtents.x, box.halfExtents.y, box.halfExtents.z]
+
+    for (let i = 0; i < 3; i++) {
+      const distance = THREE.MathUtils.clamp(offset.dot(box.axes[i]), -halfExtents[i], halfExtents[i])
+      result.addScaledVector(box.axes[i], distance)
+    }
+
+    return result
+  }
+
+  private closestPointOnSegment(point: THREE.Vector3, start: THREE.Vector3, end: THREE.Vector3): THREE.Vector3 {
+    const segment = end.clone().sub(start)
+    const lengthSq = segment.lengthSq()
+    if (lengthSq < 1e-12) {
+      return start.clone()
+    }
+    const t = THREE.MathUtils.clamp(point.clone().sub(start).dot(segment) / lengthSq, 0, 1)
+    return start.clone().addScaledVector(segment, t)
+  }
+
+  /**
+   * Closest points between segments p1-q1 and p2-q2 (Ericson, Real-Time Collision Detection 5.1.9)
+   */
+  private closestPointsBetweenSegments(
+    p1: THREE.Vector3, q1: THREE.Vector3,
+    p2: THREE.Vector3, q2: THREE.Vector3
+  ): [THREE.Vector3, THREE.Vector3] {
+    const d1 = q1.clone().sub(p1)
+    const d2 = q2.clone().sub(p2)
+    const r = p1.clone().sub(p2)
+    const a = d1.dot(d1)
+    const e = d2.dot(d2)
+    const f = d2.dot(r)
+    const epsilon = 1e-12
+
+    let s = 0
+    let t = 0
+
+    if (a <= epsilon && e <= epsilon) {
+      return [p1.clone(), p2.clone()]
+    }
+
+    if (a <= epsilon) {
+      t = THREE.MathUtils.clamp(f / e, 0, 1)
+    } else {
+      const c = d1.dot(r)
+      if (e <= epsilon) {
+        s = THREE.MathUtils.clamp(-c / a, 0, 1)
+      } else {
+        const b = d1.dot(d2)
+        const denom = a * e - b * b
+        s = denom !== 0 ? THREE.MathUtils.clamp((b * f - c * e) / denom, 0, 1) : 0
+        t = (b * s + f) / e
+        if (t < 0) {
+          t = 0
+          s = THREE.MathUtils.clamp(-c / a, 0, 1)
+        } else if (t > 1) {
+          t = 1
+          s = THREE.MathUtils.clamp((b - c) / a, 0, 1)
+        }
+      }
+    }
+
+    return [
+      p1.clone().addScaledVector(d1, s),
+      p2.clone().addScaledVector(d2, t)
+    ]
+  }
+
+  // ============================================================================
+  // COLLISION LAYERS
+  // ============================================================================
+
+  /**
+   * Restore the default layer interactions
+   */
+  public resetLayerMatrix(): void {
+    for (const layer of this.getLayers()) {
+      this.layerMatrix.set(layer, COLLISION_MASK_ALL)
+    }
+
+    for (const layer of this.getLayers()) {
+      this.setLayerCollision(CollisionLayer.TRIGGER, layer, false)
+      if (layer !== CollisionLayer.PLAYER && layer !== CollisionLayer.LAND) {
+        this.setLayerCollision(CollisionLayer.PROP, layer, false)
+      }
+    }
+    this.setLayerCollision(CollisionLayer.DEBRIS, CollisionLayer.DEBRIS, false)
+  }
+
+  /**
+   * Enable or disable collisions between two layers (both directions)
+   */
+  public setLayerCollision(layerA: CollisionLayer, layerB: CollisionLayer, enabled: boolean): void {
+    const rowA = this.layerMatrix.get(layerA) ?? COLLISION_MASK_ALL
+    const rowB = this.layerMatrix.get(layerB) ?? COLLISION_MASK_ALL
+    this.layerMatrix.set(layerA, enabled ? rowA | layerB : rowA & ~layerB)
+    this.layerMatrix.set(layerB, enabled ? rowB | layerA : rowB & ~layerA)
+  }
+
+  public getLayerCollision(layerA: CollisionLayer, layerB: CollisionLayer): boolean {
+    return ((this.layerMatrix.get(layerA) ?? COLLISION_MASK_ALL) & layerB) !== 0
+  }
+
+  public getLayers(): CollisionLayer[] {
+    return Object.values(CollisionLayer).filter((value): value is CollisionLayer => typeof value === 'number')
+  }
+
+  /**
+   * Change an object's layer and optionally its mask
+   */
+  public setObjectLayer(id: string, layer: CollisionLayer, mask?: number): boolean {
+    const object = this.collidableObjects.get(id)
+    if (!object) {
+      logger.warn(LogModule.COLLISION, `Cannot set layer - object not found: ${id}`)
+      return false
+    }
+
+    object.layer = layer
+    if (mask !== undefined) {
+      object.mask = mask
+    }
+    return true
+  }
+
+  /**
+   * Whether two filters interact: each mask must include the other's layer and the
+   * layer matrix must allow the pair. A missing filter collides with everything.
+   */
+  public canCollide(a: CollisionFilter | undefined, b: CollisionFilter): boolean {
+    if (!a) {
+      return true
+    }
+
+    const layerA = a.layer ?? CollisionLayer.DEFAULT
+    const layerB = b.layer ?? CollisionLayer.DEFAULT
+    return ((a.mask ?? COLLISION_MASK_ALL) & layerB) !== 0 &&
+      ((b.mask ?? COLLISION_MASK_ALL) & layerA) !== 0 &&
+      this.getLayerCollision(layerA, layerB)
+  }
+
+  private isOnLayers(object: CollidableObject, mask: number): boolean {
+    return ((object.layer ?? CollisionLayer.DEFAULT) & mask) !== 0
+  }
+
+  // ============================================================================
+  // BROAD PHASE & QUERIES
+  // ============================================================================
+
+  /**
+   * Compute the world-space AABB of a volume placed at the given position
+   */
+  private computeVolumeBounds(volume: CollisionVolume, position: THREE.Vector3, target: THREE.Box3): THREE.Box3 {
+    const shape = this.buildShapeProxy(volume, position)
+
+    if (shape.type === 'box') {
+      const [axisX, axisY, axisZ] = shape.axes
+      const he = shape.halfExtents
+      const extent = this.tempVector.set(
+        Math.abs(axisX.x) * he.x + Math.abs(axisY.x) * he.y + Math.abs(axisZ.x) * he.z,
+        Math.abs(axisX.y) * he.x + Math.abs(axisY.y) * he.y + Math.abs(axisZ.y) * he.z,
+        Math.abs(axisX.z) * he.x + Math.abs(axisY.z) * he.y + Math.abs(axisZ.z) * he.z
+      )
+      target.min.copy(shape.center).sub(extent)
+      target.max.copy(shape.center).add(extent)
+      return target
+    }
+
+    // Spheres and capsules: segment bounds grown by the radius
+    target.makeEmpty()
+    target.expandByPoint(shape.segmentStart)
+    target.expandByPoint(shape.segmentEnd)
+    return target.expandByScalar(shape.radius)
+  }
+
+  /**
+   * Refresh broad-phase bounds for objects that can move
+   */
+  private updateBroadPhase(): void {
+    for (const [id, object] of this.collidableObjects) {
+      if (object.isStatic && !object.syncWithMesh) {
+        continue
+      }
+
+      if (object.syncWithMesh) {
+        this.syncVolumeWithMesh(object)
+      }
+      this.broadPhase.update(id, this.computeVolumeBounds(object.collisionVolume, object.collisionVolume.position, this.tempBox))
+    }
+  }
+
+  /**
+   * Refresh the broad-phase bounds of a single object
+   * Call this after moving a static object by hand
+   */
+  public updateObjectBounds(id: string): void {
+    const object = this.collidableObjects.get(id)
+    if (!object) {
+      return
+    }
+
+    if (object.syncWithMesh) {
+      this.syncVolumeWithMesh(object)
+    }
+    this.broadPhase.update(id, this.computeVolumeBounds(object.collisionVolume, object.collisionVolume.position, this.tempBox))
+  }
+
+  /**
+   * Get all registered objects on the mask's layers whose bounds overlap the box
+   */
+  public queryAABB(box: THREE.Box3, mask: number = COLLISION_MASK_ALL): CollidableObject[] {
+    return this.broadPhase.queryAABB(box)
+      .map(id => this.collidableObjects.get(id))
+      .filter((object): object is CollidableObject => object !== undefined && this.isOnLayers(object, mask))
+  }
+
+  /**
+   * Get all registered objects on the mask's layers whose shape overlaps the sphere
+   */
+  public querySphere(center: THREE.Vector3, radius: number, mask: number = COLLISION_MASK_ALL): CollidableObject[] {
+    const probe = this.buildShapeProxy(
+      { type: 'sphere', position: center, rotation: new THREE.Euler(), dimensions: new THREE.Vector3(radius, 0, 0) },
+      center
+    )
+
+    return this.broadPhase.querySphere(center, radius)
+      .map(id => this.collidableObjects.get(id))
+      .filter((object): object is CollidableObject => {
+        if (!object || !this.isOnLayers(object, mask)) return false
+        const shape = this.buildShapeProxy(object.collisionVolume, object.collisionVolume.position)
+        return this.computeContact(probe, shape) !== null
+      })
+  }
+
+  /**
+   * Cast a ray against registered objects on the mask's layers, nearest hit first
+   * Rays starting inside a shape don't hit that shape
+   */
+  public raycastObjects(
+    origin: THREE.Vector3,
+    direction: THREE.Vector3,
+    maxDistance: number = this.maxRaycastDistance,
+    excludeId?: string,
+    mask: number = COLLISION_MASK_ALL
+  ): RaycastHit[] {
+    const ray = new THREE.Ray(origin.clone(), direction.clone().normalize())
+    const hits: RaycastHit[] = []
+
+    for (const id of this.broadPhase.queryRay(ray.origin, ray.direction, maxDistance)) {
+      const object = this.collidableObjects.get(id)
+      if (!object || id === excludeId || !object.mesh.visible || !this.isOnLayers(object, mask)) {
+        continue
+      }
+
+      const shape = this.buildShapeProxy(object.collisionVolume, object.collisionVolume.position)
+      const hit = shape.type === 'box' ? this.rayBoxHit(ray, shape) : this.rayCapsuleHit(ray, shape)
+      if (hit && hit.distance <= maxDistance) {
+        hits.push({ object, ...hit })
+      }
+    }
+
+    return hits.sort((a, b) => a.distance - b.distance)
+  }
+
+  /**
+   * Cast a ray against the land heightfields on the mask's layers
+   * Marches the ray in small steps, then bisects to the surface. Rays starting below ground miss.
+   */
+  public raycastLand(
+    origin: THREE.Vector3,
+    direction: THREE.Vector3,
+    maxDistance: number = this.maxRaycastDistance,
+    mask: number = COLLISION_MASK_ALL
+  ): Omit<RaycastHit, 'object'> | null {
+    if (this.heightfieldDirty) {
+      this.rebuildHeightfield()
+    }
+
+    const ray = new THREE.Ray(origin.clone(), direction.clone().normalize())
+    const point = new THREE.Vector3()
+
+    // Height of the ray above the highest land on the mask's layers (null where there is none)
+    const clearance = (distance: number): number | null => {
+      ray.at(distance, point)
+      let best: number | null = null
+      for (const group of this.heightfields) {
+        if ((group.layer & mask) === 0) continue
+        const height = group.heightfield.sampleHeight(point.x, point.z)
+        if (height !== null && (best === null || height > best)) {
+          best = height
+        }
+      }
+      return best === null ? null : point.y - (best + this.groundHeightOffset)
+    }
+    const isBelowGround = (distance: number): boolean => (clearance(distance) ?? 1) < 0
+
+    if (isBelowGround(0)) {
+      return null
+    }
+
+    let previous = 0
+    while (previous < maxDistance) {
+      const next = Math.min(previous + this.landRaycastStep, maxDistance)
+      if (isBelowGround(next)) {
+        let low = previous
+        let high = next
+        for (let i = 0; i < 10; i++) {
+          const mid = (low + high) / 2
+          if (isBelowGround(mid)) {
+            high = mid
+          } else {
+            low = mid
+          }
+        }
+
+        const hitPoint = ray.at(low, new THREE.Vector3())
+        return {
+          distance: low,
+          point: hitPoint,
+          normal: this.getGroundNormal(hitPoint.x, hitPoint.z)
+        }
+      }
+      previous = next
+    }
+
+    return null
+  }
+
+  /**
+   * Ray against an oriented box using the slab test in box space
+   */
+  private rayBoxHit(ray: THREE.Ray, box: ShapeProxy): Omit<RaycastHit, 'object'> | null {
+    const relativeOrigin = ray.origin.clone().sub(box.center)
+    let tNear = -Infinity
+    let tFar = Infinity
+    let nearAxis = 0
+    let nearSign = 1
+
+    for (let i = 0; i < 3; i++) {
+      const axis = box.axes[i]
+      const extent = box.halfExtents.getComponent(i)
+      const originOnAxis = relativeOrigin.dot(axis)
+      const directionOnAxis = ray.direction.dot(axis)
+
+      if (Math.abs(directionOnAxis) < 1e-8) {
+        // Parallel to this slab - miss unless the origin lies within it
+        if (Math.abs(originOnAxis) > extent) return null
+        continue
+      }
+
+      let t1 = (-extent - originOnAxis) / directionOnAxis
+      let t2 = (extent - originOnAxis) / directionOnAxis
+      let sign = -1
+      if (t1 > t2) {
+        [t1, t2] = [t2, t1]
+        sign = 1
+      }
+
+      if (t1 > tNear) {
+        tNear = t1
+        nearAxis = i
+        nearSign = sign
+      }
+      tFar = Math.min(tFar, t2)
+      if (tNear > tFar) return null
+    }
+
+    if (tNear < 0) return null
+
+    return {
+      distance: tNear,
+      point: ray.at(tNear, new THREE.Vector3()),
+      normal: box.axes[nearAxis].clone().multiplyScalar(nearSign)
+    }
+  }
+
+  /**
+   * Ray against a capsule (spheres are capsules with a zero-length segment)
+   */
+  private rayCapsuleHit(ray: THREE.Ray, capsule: ShapeProxy): Omit<RaycastHit, 'object'> | null {
+    const radiusSq = capsule.radius * capsule.radius
+    if (this.closestPointOnSegment(ray.origin, capsule.segmentStart, capsule.segmentEnd).distanceToSquared(ray.origin) <= radiusSq) {
+      return null
+    }
+
+    let best = Infinity
+    const segment = capsule.segmentEnd.clone().sub(capsule.segmentStart)
+    const segmentLengthSq = segment.lengthSq()
+
+    // Cylindrical body: solve |(o + t*d - a) x axis|^2 = r^2 within the segment
+    if (segmentLengthSq > 1e-8) {
+      const axis = segment.clone().divideScalar(Math.sqrt(segmentLengthSq))
+      const relativeOrigin = ray.origin.clone().sub(capsule.segmentStart)
+      const dPerp = ray.direction.clone().addScaledVector(axis, -ray.direction.dot(axis))
+      const oPerp = relativeOrigin.clone().addScaledVector(axis, -relativeOrigin.dot(axis))
+      const a = dPerp.lengthSq()
+      const b = 2 * dPerp.dot(oPerp)
+      const c = oPerp.lengthSq() - radiusSq
+      const discriminant = b * b - 4 * a * c
+
+      if (a > 1e-8 && discriminant >= 0) {
+        const t = (-b - Math.sqrt(discriminant)) / (2 * a)
+        const along = relativeOrigin.dot(axis) + t * ray.direction.dot(axis)
+        if (t >= 0 && along >= 0 && along * along <= segmentLengthSq) {
+          best = t
+        }
+      }
+    }
+
+    // Hemispherical caps
+    for (const capCenter of [capsule.segmentStart, capsule.segmentEnd]) {
+      const hit = ray.intersectSphere(new THREE.Sphere(capCenter, capsule.radius), this.tempVector2)
+      if (hit) {
+        best = Math.min(best, ray.origin.distanceTo(hit))
+      }
+    }
+
+    if (!isFinite(best)) return null
+
+    const point = ray.at(best, new THREE.Vector3())
+    const normal = point.clone().sub(this.closestPointOnSegment(point, capsule.segmentStart, capsule.segmentEnd)).normalize()
+    return { distance: best, point, normal }
+  }
+
+  // ============================================================================
+  // TRIGGERS
+  // ============================================================================
+
+  /**
+   * Register a trigger volume. Triggers never block movement; they only report
+   * overlaps with registered objects through their callbacks.
+   */
+  public registerTrigger(trigger: TriggerVolume): void {
+    this.unregisterTrigger(trigger.id)
+    this.triggers.set(trigger.id, { trigger, occupants: new Set() })
+    logger.debug(LogModule.COLLISION, `Registered trigger: ${trigger.id}`)
+  }
+
+  /**
+   * Remove a trigger, sending onExit for anything still inside it
+   */
+  public unregisterTrigger(id: string): void {
+    const state = this.triggers.get(id)
+    if (!state) {
+      return
+    }
+
+    for (const objectId of state.occupants) {
+      this.emitTriggerEvent(state.trigger, 'onExit', objectId, 0)
+    }
+    this.triggers.delete(id)
+    logger.debug(LogModule.COLLISION, `Unregistered trigger: ${id}`)
+  }
+
+  /**
+   * Replace the callbacks of a registered trigger (e.g. for triggers loaded from config)
+   */
+  public setTriggerCallbacks(id: string, callbacks: TriggerCallbacks): boolean {
+    const state = this.triggers.get(id)
+    if (!state) {
+      return false
+    }
+
+    state.trigger.onEnter = callbacks.onEnter
+    state.trigger.onStay = callbacks.onStay
+    state.trigger.onExit = callbacks.onExit
+    return true
+  }
+
+  public setTriggerEnabled(id: string, enabled: boolean): boolean {
+    const state = this.triggers.get(id)
+    if (!state) {
+      return false
+    }
+
+    state.trigger.enabled = enabled
+    return true
+  }
+
+  public getTrigger(id: string): TriggerVolume | undefined {
+    return this.triggers.get(id)?.trigger
+  }
+
+  public getTriggers(): TriggerVolume[] {
+    return Array.from(this.triggers.values()).map(state => state.trigger)
+  }
+
+  /**
+   * Get IDs of the objects currently inside a trigger
+   */
+  public getTriggerOccupants(id: string): string[] {
+    return Array.from(this.triggers.get(id)?.occupants ?? [])
+  }
+
+  /**
+   * Test every trigger against the registered objects and emit enter/stay/exit events
+   */
+  public updateTriggers(deltaTime: number): void {
+    for (const state of this.triggers.values()) {
+      const trigger = state.trigger
+      const inside = new Set<string>()
+
+      if (trigger.enabled !== false) {
+        const volume = trigger.collisionVolume
+        const triggerShape = this.buildShapeProxy(volume, volume.position)
+        const bounds = this.computeVolumeBounds(volume, volume.position, new THREE.Box3())
+
+        for (const id of this.broadPhase.queryAABB(bounds)) {
+          const object = this.collidableObjects.get(id)
+          if (!object || !this.passesTriggerFilter(object, trigger.filter)) {
+            continue
+          }
+
+          const objectShape = this.buildShapeProxy(object.collisionVolume, object.collisionVolume.position)
+          if (this.computeContact(objectShape, triggerShape)) {
+            inside.add(id)
+          }
+        }
+      }
+
+      for (const objectId of state.occupants) {
+        if (!inside.has(objectId)) {
+          state.occupants.delete(objectId)
+          this.emitTriggerEvent(trigger, 'onExit', objectId, deltaTime)
+        }
+      }
+
+      for (const objectId of inside) {
+        if (state.occupants.has(objectId)) {
+          this.emitTriggerEvent(trigger, 'onStay', objectId, deltaTime)
+        } else {
+          state.occupants.add(objectId)
+          this.emitTriggerEvent(trigger, 'onEnter', objectId, deltaTime)
+        }
+      }
+    }
+  }
+
+  private passesTriggerFilter(object: CollidableObject, filter?: TriggerFilter): boolean {
+    if (!filter) {
+      return true
+    }
+
+    if (filter.mask !== undefined && !this.isOnLayers(object, filter.mask)) {
+      return false
+    }
+    if (filter.objectIds && !filter.objectIds.includes(object.id)) {
+      return false
+    }
+    return !filter.predicate || filter.predicate(object)
+  }
+
+  private emitTriggerEvent(trigger: TriggerVolume, type: keyof TriggerCallbacks, objectId: string, deltaTime: number): void {
+    const callback = trigger[type]
+    if (!callback) {
+      return
+    }
+
+    try {
+      callback({
+        triggerId: trigger.id,
+        objectId,
+        object: this.collidableObjects.get(objectId) ?? null,
+        deltaTime
+      })
+    } catch (error) {
+      // A failing handler must not stop the other triggers from updating
+      logger.error(LogModule.COLLISION, `Trigger ${trigger.id} ${type} handler failed`, error)
+    }
+  }
+
+  // ============================================================================
+  // RIGID BODIES
+  // ============================================================================
+
+  /**
+   * Turn a registered object into a simulated rigid body (makes it non-static)
+   */
+  public enableRigidBody(id: string, options: RigidBodyOptions = {}): RigidBody | null {
+    const object = this.collidableObjects.get(id)
+    if (!object) {
+      logger.warn(LogModule.COLLISION, `Cannot enable rigid body, object not found: ${id}`)
+      return null
+    }
+
+    if (object.syncWithMesh) {
+      this.syncVolumeWithMesh(object)
+    }
+
+    const mass = Math.max(options.mass ?? 1, 0.001)
+    object.rigidBody = {
+      mass,
+      inverseMass: 1 / mass,
+      inverseInertia: this.computeInverseInertia(object.collisionVolume, mass),
+      restitution: options.restitution ?? 0.3,
+      friction: options.friction ?? 0.5,
+      linearDamping: options.linearDamping ?? 0.05,
+      angularDamping: options.angularDamping ?? 0.1,
+      velocity: new THREE.Vector3(),
+      angularVelocity: new THREE.Vector3(),
+      force: new THREE.Vector3(),
+      torque: new THREE.Vector3(),
+      sleeping: false,
+      sleepTimer: 0
+    }
+    object.isStatic = false
+
+    logger.debug(LogModule.COLLISION, `Enabled rigid body for ${id} (mass ${mass})`)
+    return object.rigidBody
+  }
+
+  /**
+   * Stop simulating an object and make it static again where it currently is
+   */
+  public disableRigidBody(id: string): void {
+    const object = this.collidableObjects.get(id)
+    if (!object?.rigidBody) {
+      return
+    }
+
+    delete object.rigidBody
+    object.isStatic = true
+    logger.debug(LogModule.COLLISION, `Disabled rigid body for ${id}`)
+  }
+
+  /**
+   * Apply an instantaneous impulse, optionally at a world-space point to add spin
+   */
+  public applyImpulse(id: string, impulse: THREE.Vector3, point?: THREE.Vector3): boolean {
+    const object = this.collidableObjects.get(id)
+    if (!object?.rigidBody) {
+      return false
+    }
+
+    this.wakeRigidBody(object)
+    const offset = point ? point.clone().sub(object.collisionVolume.position) : new THREE.Vector3()
+    this.applyBodyImpulse(object, impulse, offset)
+    return true
+  }
+
+  /**
+   * Apply a continuous force for the current physics step, optionally at a world-space point
+   * to add torque. Call it from an onPhysicsStep listener so it acts on every step.
+   */
+  public applyForce(id: string, force: THREE.Vector3, point?: THREE.Vector3): boolean {
+    const object = this.collidableObjects.get(id)
+    const body = object?.rigidBody
+    if (!object || !body) {
+      return false
+    }
+
+    this.wakeRigidBody(object)
+    body.force.add(force)
+    if (point) {
+      body.torque.add(this.tempVector.subVectors(point, object.collisionVolume.position).cross(force))
+    }
+    return true
+  }
+
+  /**
+   * Apply a continuous world-space torque for the current physics step
+   */
+  public applyTorque(id: string, torque: THREE.Vector3): boolean {
+    const object = this.collidableObjects.get(id)
+    if (!object?.rigidBody) {
+      return false
+    }
+
+    this.wakeRigidBody(object)
+    object.rigidBody.torque.add(torque)
+    return true
+  }
+
+  /**
+   * Run a listener before every fixed physics step (with the step length), e.g. to apply forces
+   */
+  public onPhysicsStep(listener: (deltaTime: number) => void): void {
+    this.physicsStepListeners.push(listener)
+  }
+
+  /**
+   * Transfer momentum from something pushing a body, e.g. the player walking into it.
+   * The pusher keeps its velocity; the body picks up the approach speed scaled by the
+   * mass ratio, like an inelastic collision.
+   */
+  public pushRigidBody(id: string, pusherVelocity: THREE.Vector3, pusherMass: number, direction: THREE.Vector3, point: THREE.Vector3): boolean {
+    const object = this.collidableObjects.get(id)
+    const body = object?.rigidBody
+    if (!object || !body) {
+      return false
+    }
+
+    const approachSpeed = pusherVelocity.dot(direction) - this.getPointVelocity(object, point).dot(direction)
+    if (approachSpeed <= 0) {
+      return false
+    }
+
+    const reducedMass = (pusherMass * body.mass) / (pusherMass + body.mass)
+    return this.applyImpulse(id, direction.clone().multiplyScalar(approachSpeed * reducedMass), point)
+  }
+
+  /**
+   * Drive a body directly, e.g. while it is being carried
+   */
+  public setRigidBodyVelocity(id: string, velocity: THREE.Vector3, angularVelocity?: THREE.Vector3): boolean {
+    const object = this.collidableObjects.get(id)
+    if (!object?.rigidBody) {
+      return false
+    }
+
+    this.wakeRigidBody(object)
+    object.rigidBody.velocity.copy(velocity)
+    if (angularVelocity) {
+      object.rigidBody.angularVelocity.copy(angularVelocity)
+    }
+    return true
+  }
+
+  public wakeRigidBodies(): void {
+    for (const object of this.collidableObjects.values()) {
+      if (object.rigidBody) {
+        this.wakeRigidBody(object)
+      }
+    }
+  }
+
+  public setGravity(gravity: THREE.Vector3): void {
+    this.gravity.copy(gravity)
+    this.wakeRigidBodies()
+  }
+
+  public getGravity(): THREE.Vector3 {
+    return this.gravity.clone()
+  }
+
+  public getRigidBodyStats(): { total: number, sleeping: number } {
+    let total = 0
+    let sleeping = 0
+    for (const object of this.collidableObjects.values()) {
+      if (object.rigidBody) {
+        total++
+        if (object.rigidBody.sleeping) sleeping++
+      }
+    }
+    return { total, sleeping }
+  }
+
+  /**
+   * Advance the simulation in fixed steps
+   */
+  private stepRigidBodies(deltaTime: number): void {
+    this.physicsAccumulator += deltaTime
+
+    let substeps = 0
+    while (this.physicsAccumulator >= this.physicsTimeStep && substeps < this.maxPhysicsSubsteps) {
+      this.physicsStepListeners.forEach(listener => listener(this.physicsTimeStep))
+      this.simulateRigidBodies(this.physicsTimeStep)
+      this.physicsAccumulator -= this.physicsTimeStep
+      substeps++
+    }
+
+    if (substeps === this.maxPhysicsSubsteps) {
+      this.physicsAccumulator = 0
+    }
+  }
+
+  private simulateRigidBodies(dt: number): void {
+    const bodies: CollidableObject[] = []
+    for (const object of this.collidableObjects.values()) {
+      if (object.rigidBody && !object.rigidBody.sleeping) {
+        bodies.push(object)
+      }
+    }
+    if (bodies.length === 0) {
+      return
+    }
+
+    // Integrate forces
+    for (const object of bodies) {
+      const body = object.rigidBody!
+      body.velocity.addScaledVector(this.gravity, dt)
+      body.velocity.addScaledVector(body.force, body.inverseMass * dt)
+      body.angularVelocity.addScaledVector(this.applyInverseInertia(object, body.torque.clone()), dt)
+      body.force.set(0, 0, 0)
+      body.torque.set(0, 0, 0)
+      body.velocity.multiplyScalar(1 / (1 + body.linearDamping * dt))
+      body.angularVelocity.multiplyScalar(1 / (1 + body.angularDamping * dt))
+    }
+
+    // Gather contacts, then solve them together so stacked and multi-point contacts share the work
+    const contacts: RigidContact[] = []
+    const awake = new Set(bodies.map(object => object.id))
+    for (const object of bodies) {
+      this.collectLandContacts(object, contacts)
+      this.collectObjectContacts(object, awake, contacts)
+    }
+
+    for (const contact of contacts) {
+      contact.bounce = this.computeBounce(contact)
+    }
+    for (let iteration = 0; iteration < this.solverIterations; iteration++) {
+      for (const contact of contacts) {
+        this.solveContact(contact)
+      }
+    }
+
+    // Integrate velocities
+    const spin = new THREE.Quaternion()
+    const orientation = new THREE.Quaternion()
+    for (const object of bodies) {
+      const body = object.rigidBody!
+      const volume = object.collisionVolume
+      volume.position.addScaledVector(body.velocity, dt)
+
+      // q' = q + 0.5 * w * q * dt
+      orientation.setFromEuler(volume.rotation)
+      spin.set(body.angularVelocity.x * dt * 0.5, body.angularVelocity.y * dt * 0.5, body.angularVelocity.z * dt * 0.5, 0)
+      spin.multiply(orientation)
+      orientation.set(orientation.x + spin.x, orientation.y + spin.y, orientation.z + spin.z, orientation.w + spin.w).normalize()
+      volume.rotation.setFromQuaternion(orientation)
+    }
+
+    // Push out remaining penetration without adding velocity
+    for (const contact of contacts) {
+      this.correctPenetration(contact)
+    }
+
+    for (const object of bodies) {
+      this.applyBodyTransform(object)
+      this.updateSleepState(object, dt)
+    }
+  }
+
+  /**
+   * Land contacts: box corners, or the lowest points of spheres and capsules, below the surface
+   */
+  private collectLandContacts(object: CollidableObject, contacts: RigidContact[]): void {
+    const volume = object.collisionVolume
+    const shape = this.buildShapeProxy(volume, volume.position)
+    const normal = new THREE.Vector3()
+
+    const addContact = (point: THREE.Vector3): void => {
+      const height = this.getRigidBodyGroundHeight(point.x, point.z, object)
+      if (point.y >= height) return
+
+      this.getGroundNormal(point.x, point.z, normal, object)
+      contacts.push({
+        object,
+        other: null,
+        point: point.clone(),
+        normal: normal.clone(),
+        depth: (height - point.y) * normal.y,
+        ...this.createContactBasis(normal)
+      })
+    }
+
+    if (shape.type === 'box') {
+      for (const corner of this.getBoxCorners(shape)) {
+        addContact(corner)
+      }
+      return
+    }
+
+    // Lowest point of each end sphere (a sphere's segment has zero length)
+    const ends = shape.segmentStart.distanceToSquared(shape.segmentEnd) > 1e-8
+      ? [shape.segmentStart, shape.segmentEnd]
+      : [shape.center]
+    for (const end of ends) {
+      addContact(end.clone().setY(end.y - shape.radius))
+    }
+  }
+
+  /**
+   * Contacts with other objects. Each pair of awake bodies is only collected once.
+   */
+  private collectObjectContacts(object: CollidableObject, awake: Set<string>, contacts: RigidContact[]): void {
+    const volume = object.collisionVolume
+    const bounds = this.computeVolumeBounds(volume, volume.position, new THREE.Box3()).expandByScalar(this.contactSlop)
+    const shape = this.buildShapeProxy(volume, volume.position)
+
+    for (const otherId of this.broadPhase.queryAABB(bounds)) {
+      const other = this.collidableObjects.get(otherId)
+      if (!other || other === object || !this.canCollide(object, other)) {
+        continue
+      }
+      if (awake.has(otherId) && otherId < object.id) {
+        continue
+      }
+
+      const otherShape = this.buildShapeProxy(other.collisionVolume, other.collisionVolume.position)
+      const contact = this.computeContact(shape, otherShape)
+      if (!contact) {
+        continue
+      }
+
+      if (other.rigidBody) {
+        this.wakeRigidBody(other)
+      }
+
+      contacts.push({
+        object,
+        other,
+        point: this.estimateContactPoint(shape, otherShape, contact.normal),
+        normal: contact.normal,
+        depth: contact.depth,
+        ...this.createContactBasis(contact.normal)
+      })
+    }
+  }
+
+  /**
+   * Pick the contact point from whichever shape has the smaller touching feature
+   * (a sphere's single point, a box corner, edge or face)
+   */
+  private estimateContactPoint(shape: ShapeProxy, otherShape: ShapeProxy, normal: THREE.Vector3): THREE.Vector3 {
+    const own = this.getSupportFeature(shape, normal.clone().negate())
+    const other = this.getSupportFeature(otherShape, normal)
+
+    if (own.count !== other.count) {
+      return own.count < other.count ? own.point : other.point
+    }
+    return shape.boundingRadius <= otherShape.boundingRadius ? own.point : other.point
+  }
+
+  /**
+   * Average of the shape's extreme points along a direction, and how many there were
+   */
+  private getSupportFeature(shape: ShapeProxy, direction: THREE.Vector3): { point: THREE.Vector3, count: number } {
+    const candidates = shape.type === 'box' ? this.getBoxCorners(shape) : [shape.segmentStart, shape.segmentEnd]
+    const tolerance = 0.02
+    const best = Math.max(...candidates.map(point => point.dot(direction)))
+    const feature = candidates.filter(point => point.dot(direction) >= best - tolerance)
+
+    const point = new THREE.Vector3()
+    feature.forEach(p => point.add(p))
+    point.divideScalar(feature.length).addScaledVector(direction, shape.radius)
+
+    // Coincident segment ends (spheres) are a single point
+    const count = shape.type === 'box' ? feature.length : (shape.segmentStart.distanceToSquared(shape.segmentEnd) > 1e-8 ? feature.length : 1)
+    return { point, count }
+  }
+
+  private getBoxCorners(shape: ShapeProxy): THREE.Vector3[] {
+    const corners: THREE.Vector3[] = []
+    const [axisX, axisY, axisZ] = shape.axes
+    const he = shape.halfExtents
+    for (const sx of [-1, 1]) {
+      for (const sy of [-1, 1]) {
+        for (const sz of [-1, 1]) {
+          corners.push(shape.center.clone()
+            .addScaledVector(axisX, sx * he.x)
+            .addScaledVector(axisY, sy * he.y)
+            .addScaledVector(axisZ, sz * he.z))
+        }
+      }
+    }
+    return corners
+  }
+
+  /**
+   * Separating speed the solver should reach: restitution for real impacts, nothing for resting contact
+   */
+  private computeBounce(contact: RigidContact): number {
+    const approachSpeed = -this.getRelativeVelocity(contact).dot(contact.normal)
+    if (approachSpeed < this.restitutionThreshold) {
+      return 0
+    }
+
+    const restitution = Math.max(contact.object.rigidBody!.restitution, contact.other?.rigidBody?.restitution ?? 0)
+    return approachSpeed * restitution
+  }
+
+  /**
+   * One sequential-impulse pass over a contact: normal impulse, then Coulomb friction
+   */
+  private solveContact(contact: RigidContact): void {
+    const { object, other, normal } = contact
+    const body = object.rigidBody!
+    const otherBody = other?.rigidBody
+    const offset = contact.point.clone().sub(object.collisionVolume.position)
+    const otherOffset = other ? contact.point.clone().sub(other.collisionVolume.position) : new THREE.Vector3()
+
+    // Normal impulse, accumulated and clamped so contacts only ever push
+    const normalSpeed = this.getRelativeVelocity(contact).dot(normal)
+    const normalMass = this.getEffectiveMass(object, offset, normal) + (otherBody ? this.getEffectiveMass(other!, otherOffset, normal) : 0)
+    const previousImpulse = contact.normalImpulse
+    contact.normalImpulse = Math.max(previousImpulse + (contact.bounce - normalSpeed) / normalMass, 0)
+    const normalImpulse = contact.normalImpulse - previousImpulse
+
+    this.applyBodyImpulse(object, normal.clone().multiplyScalar(normalImpulse), offset)
+    if (otherBody) {
+      this.applyBodyImpulse(other!, normal.clone().multiplyScalar(-normalImpulse), otherOffset)
+    }
+
+    // Friction opposes sliding; the accumulated impulse stays inside the friction cone
+    const relative = this.getRelativeVelocity(contact)
+    const friction = Math.sqrt(body.friction * (otherBody ? otherBody.friction : body.friction))
+    const previousFriction = contact.tangentImpulse.clone()
+    contact.tangents.forEach((tangent, axis) => {
+      const tangentMass = this.getEffectiveMass(object, offset, tangent) + (otherBody ? this.getEffectiveMass(other!, otherOffset, tangent) : 0)
+      contact.tangentImpulse.setComponent(axis, contact.tangentImpulse.getComponent(axis) - relative.dot(tangent) / tangentMass)
+    })
+
+    const maxFriction = friction * contact.normalImpulse
+    if (contact.tangentImpulse.length() > maxFriction) {
+      contact.tangentImpulse.setLength(maxFriction)
+    }
+
+    const frictionImpulse = new THREE.Vector3()
+      .addScaledVector(contact.tangents[0], contact.tangentImpulse.x - previousFriction.x)
+      .addScaledVector(contact.tangents[1], contact.tangentImpulse.y - previousFriction.y)
+    this.applyBodyImpulse(object, frictionImpulse, offset)
+    if (otherBody) {
+      this.applyBodyImpulse(other!, frictionImpulse.negate(), otherOffset)
+    }
+  }
+
+  /**
+   * Fresh solver state for a contact: no accumulated impulse and two tangents perpendicular to the normal
+   */
+  private createContactBasis(normal: THREE.Vector3): Pick<RigidContact, 'bounce' | 'normalImpulse' | 'tangents' | 'tangentImpulse'> {
+    const reference = Math.abs(normal.y) < 0.9 ? new THREE.Vector3(0, 1, 0) : new THREE.Vector3(1, 0, 0)
+    const first = new THREE.Vector3().crossVectors(normal, reference).normalize()
+    const second = new THREE.Vector3().crossVectors(normal, first)
+    return {
+      bounce: 0,
+      normalImpulse: 0,
+      tangents: [first, second],
+      tangentImpulse: new THREE.Vector2()
+    }
+  }
+
+  /**
+   * Move bodies apart along the contact normal, split by inverse mass
+   */
+  private correctPenetration(contact: RigidContact): void {
+    const correction = Math.max(contact.depth - this.contactSlop, 0) * this.positionCorrection
+    if (correction === 0) {
+      return
+    }
+
+    const body = contact.object.rigidBody!
+    const otherBody = contact.other?.rigidBody
+    const totalInverseMass = body.inverseMass + (otherBody?.inverseMass ?? 0)
+
+    contact.object.collisionVolume.position.addScaledVector(contact.normal, correction * body.inverseMass / totalInverseMass)
+    if (otherBody) {
+      contact.other!.collisionVolume.position.addScaledVector(contact.normal, -correction * otherBody.inverseMass / totalInverseMass)
+      this.applyBodyTransform(contact.other!)
+    }
+  }
+
+  /**
+   * Velocity of the body relative to whatever it touches, at the contact point
+   */
+  private getRelativeVelocity(contact: RigidContact): THREE.Vector3 {
+    const velocity = this.getPointVelocity(contact.object, contact.point)
+    if (contact.other?.rigidBody) {
+      velocity.sub(this.getPointVelocity(contact.other, contact.point))
+    }
+    return velocity
+  }
+
+  private getPointVelocity(object: CollidableObject, point: THREE.Vector3): THREE.Vector3 {
+    const body = object.rigidBody!
+    const offset = point.clone().sub(object.collisionVolume.position)
+    return body.angularVelocity.clone().cross(offset).add(body.velocity)
+  }
+
+  /**
+   * Inverse of the mass the body presents to an impulse along a direction at an offset
+   */
+  private getEffectiveMass(object: CollidableObject, offset: THREE.Vector3, direction: THREE.Vector3): number {
+    const angular = this.applyInverseInertia(object, offset.clone().cross(direction)).cross(offset)
+    return object.rigidBody!.inverseMass + angular.dot(direction)
+  }
+
+  private applyBodyImpulse(object: CollidableObject, impulse: THREE.Vector3, offset: THREE.Vector3): void {
+    const body = object.rigidBody!
+    body.velocity.addScaledVector(impulse, body.inverseMass)
+    body.angularVelocity.add(this.applyInverseInertia(object, offset.clone().cross(impulse)))
+  }
+
+  /**
+   * Multiply by the world-space inverse inertia tensor (R * I^-1 * R^T)
+   */
+  private applyInverseInertia(object: CollidableObject, vector: THREE.Vector3): THREE.Vector3 {
+    const orientation = new THREE.Quaternion().setFromEuler(object.collisionVolume.rotation)
+    return vector
+      .applyQuaternion(orientation.clone().invert())
+      .multiply(object.rigidBody!.inverseInertia)
+      .applyQuaternion(orientation)
+  }
+
+  private computeInverseInertia(volume: CollisionVolume, mass: number): THREE.Vector3 {
+    const d = volume.dimensions
+    switch (volume.type) {
+      case 'sphere': {
+        const inertia = 0.4 * mass * d.x * d.x
+        return new THREE.Vector3(1 / inertia, 1 / inertia, 1 / inertia)
+      }
+      case 'capsule': {
+        // Approximated as a solid cylinder of the full height
+        const radius = d.x
+        const around = 0.5 * mass * radius * radius
+        const across = mass * (3 * radius * radius + d.y * d.y) / 12
+        return new THREE.Vector3(1 / across, 1 / around, 1 / across)
+      }
+      default:
+        return new THREE.Vector3(
+          12 / (mass * (d.y * d.y + d.z * d.z)),
+          12 / (mass * (d.x * d.x + d.z * d.z)),
+          12 / (mass * (d.x * d.x + d.y * d.y))
+        )
+    }
+  }
+
+  /**
+   * Copy the simulated pose to the mesh and refresh the object's broad-phase bounds
+   */
+  private applyBodyTransform(object: CollidableObject): void {
+    const volume = object.collisionVolume
+    const mesh = object.mesh
+
+    // The volume is in world space; a parented mesh needs it in its parent's space
+    mesh.position.copy(volume.position)
+    mesh.quaternion.setFromEuler(volume.rotation)
+    if (mesh.parent) {
+      mesh.parent.updateWorldMatrix(true, false)
+      mesh.parent.worldToLocal(mesh.position)
+      mesh.quaternion.premultiply(mesh.parent.getWorldQuaternion(this.tempQuaternion).invert())
+    }
+    this.broadPhase.update(object.id, this.computeVolumeBounds(volume, volume.position, this.tempBox))
+  }
+
+  private updateSleepState(object: CollidableObject, dt: number): void {
+    const body = object.rigidBody!
+    const threshold = this.sleepSpeed * this.sleepSpeed
+    if (body.velocity.lengthSq() > threshold || body.angularVelocity.lengthSq() > threshold) {
+      body.sleepTimer = 0
+      return
+    }
+
+    body.sleepTimer += dt
+    if (body.sleepTimer >= this.sleepDelay) {
+      body.sleeping = true
+      body.velocity.set(0, 0, 0)
+      body.angularVelocity.set(0, 0, 0)
+    }
+  }
+
+  private wakeRigidBody(object: CollidableObject): void {
+    const body = object.rigidBody!
+    body.sleeping = false
+    body.sleepTimer = 0
+  }
+
+  /**
+   * Land height under a body; without land the seabed acts as the floor
+   */
+  private getRigidBodyGroundHeight(x: number, z: number, filter: CollisionFilter): number {
+    if (this.landMeshes.length === 0) {
+      return this.seabedHeight
+    }
+    return this.getGroundHeightOptimized(x, z, filter)
+  }
+
+  // ============================================================================
+  // MESH VOLUMES
+  // ============================================================================
+
+  /**
+   * Derive a collision volume from a mesh's geometry (unscaled, local dimensions)
+   * Cones and cylinders are approximated by capsules, thin planes by boxes
+   */
+  public createVolumeFromMesh(mesh: THREE.Mesh): CollisionVolume {
+    const geometry = mesh.geometry
+    const volume: CollisionVolume = {
+      type: 'box',
+      position: mesh.position.clone(),
+      rotation: mesh.rotation.clone(),
+      dimensions: new THREE.Vector3(1, 1, 1)
+    }
+
+    if (geometry instanceof THREE.BoxGeometry) {
+      const { width, height, depth } = geometry.parameters
+      volume.dimensions.set(width, height, depth)
+    } else if (geometry instanceof THREE.SphereGeometry || geometry instanceof THREE.PolyhedronGeometry) {
+      volume.type = 'sphere'
+      volume.dimensions.set(geometry.parameters.radius, 0, 0)
+    } else if (geometry instanceof THREE.CylinderGeometry) {
+      // ConeGeometry extends CylinderGeometry (radiusTop = 0)
+      const { radiusTop, radiusBottom, height } = geometry.parameters
+      volume.type = 'capsule'
+      volume.dimensions.set(Math.max(radiusTop, radiusBottom), height, 0)
+    } else if (geometry instanceof THREE.PlaneGeometry) {
+      const { width, height } = geometry.parameters
+      volume.dimensions.set(width, height, 0.1)
+    } else {
+      geometry.computeBoundingBox()
+      geometry.boundingBox!.getSize(volume.dimensions)
+    }
+
+    return volume
+  }
+
+  /**
+   * Copy the mesh transform into a mesh-following collision volume
+   */
+  private syncVolumeWithMesh(object: CollidableObject): void {
+    const volume = object.collisionVolume
+    object.mesh.getWorldPosition(volume.position)
+    volume.rotation.setFromQuaternion(object.mesh.getWorldQuaternion(this.tempQuaternion))
+
+    const baseDimensions = this.meshBaseDimensions.get(object.id)
+    if (!baseDimensions) {
+      return
+    }
+
+    const scale = object.mesh.scale
+    switch (volume.type) {
+      case 'box':
+        volume.dimensions.set(baseDimensions.x * scale.x, baseDimensions.y * scale.y, baseDimensions.z * scale.z)
+        break
+      case 'sphere':
+        volume.dimensions.set(baseDimensions.x * Math.max(scale.x, scale.y, scale.z), 0, 0)
+        break
+      case 'capsule':
+        volume.dimensions.set(baseDimensions.x * Math.max(scale.x, scale.z), baseDimensions.y * scale.y, 0)
+        break
+    }
+  }
+
+  // ============================================================================
+  // OPTIMIZED GROUND HEIGHT CALCULATION
+  // ============================================================================
+
+  /**
+   * Resample the land surface into heightfields, one per land layer/mask group
+   * Runs on the next ground query after land meshes or land parameters change
+   */
+  public rebuildHeightfield(): void {
+    const start = performance.now()
+    const groups = new Map<string, LandMeshInfo[]>()
+    for (const info of this.landMeshes) {
+      const key = `${info.layer}:${info.mask}`
+      if (!groups.has(key)) {
+        groups.set(key, [])
+      }
+      groups.get(key)!.push(info)
+    }
+
+    this.heightfields = Array.from(groups.values()).map(infos => {
+      const heightfield = new TerrainHeightfield(0.5)
+      heightfield.build(infos.map(info => info.mesh))
+      return { layer: infos[0].layer, mask: infos[0].mask, heightfield }
+    })
+    this.heightfieldDirty = false
+
+    this.heightfields.forEach(({ layer, heightfield }) => {
+      const stats = heightfield.getStats()
+      logger.info(LogModule.COLLISION, `Heightfield rebuilt (${CollisionLayer[layer]}): ${stats.columns}x${stats.rows} samples from ${stats.triangles} top-surface triangles`)
+    })
+    logger.info(LogModule.COLLISION, `Heightfields rebuilt in ${(performance.now() - start).toFixed(1)}ms`)
+  }
+
+  /**
+   * Get ground height from the land heightfields (bilinear lookup)
+   * Falls back to the seabed where there is no land, and to -Infinity
+   * when the filter excludes every land layer
+   */
+  private getGroundHeightOptimized(x: number, z: number, filter?: CollisionFilter): number {
+    if (this.landMeshes.length === 0) {
+      console.warn(`⚠️ No land meshes registered! Player will sink. Falling back to seabed (${this.seabedHeight.toFixed(1)})`)
+      return this.seabedHeight
+    }
+
+    const best = this.sampleLand(x, z, filter)
+    if (!best) {
+      return -Infinity
+    }
+
+    const height = best.height ?? this.seabedHeight
+
+    // Apply optional vertical offset
+    return height + this.groundHeightOffset
+  }
+
+  /**
+   * Find the highest land surface the filter collides with
+   * Returns null when no land group passes the filter; height is null where none covers the point
+   */
+  private sampleLand(x: number, z: number, filter?: CollisionFilter): { height: number | null, heightfield: TerrainHeightfield | null } | null {
+    if (this.heightfieldDirty) {
+      this.rebuildHeightfield()
+    }
+
+    let result: { height: number | null, heightfield: TerrainHeightfield | null } | null = null
+    for (const group of this.heightfields) {
+      if (!this.canCollide(filter, group)) {
+        continue
+      }
+
+      const height = group.heightfield.sampleHeight(x, z)
+      if (!result) {
+        result = { height: null, heightfield: null }
+      }
+      if (height !== null && (result.height === null || height > result.height)) {
+        result = { height, heightfield: group.heightfield }
+      }
+    }
+
+    return result
+  }
+
+  /**
+   * Clean up old cache entries
+   */
+  private cleanupCache(): void {
+    const now = performance.now()
+    for (const [key, entry] of this.groundHeightCache.entries()) {
+      if ((now - entry.timestamp) > this.cacheTimeout * 2) {
+        this.groundHeightCache.delete(key)
+      }
+    }
+  }
+
+  // ============================================================================
+  // UTILITY METHODS
+  // ============================================================================
+
+  /**
+   * Update all dynamic objects: broad phase, triggers and rigid-body simulation
+   */
+  public updateDynamicObjects(deltaTime: number): void {
+    // Keep broad-phase bounds current every frame so queries see animated objects
+    this.updateBroadPhase()
+
+    // Triggers run every frame so onStay sees the real frame time
+    this.updateTriggers(deltaTime)
+
+    this.stepRigidBodies(deltaTime)
+  }
+
+  /**
+   * Update player position for optimization
+   */
+  public updatePlayerPosition(position: THREE.Vector3): void {
+    this.lastPlayerPosition.copy(this.playerPosition)
+    this.playerPosition.copy(position)
+  }
+
+  /**
+   * Check if player has moved significantly enough to warrant collision checks
+   */
+  public shouldCheckCollision(): boolean {
+    return this.playerPosition.distanceTo(this.lastPlayerPosition) > this.positionThreshold
+  }
+
+  /**
+   * Create a debug wireframe for a collision volume
+   */
+  public createDebugWireframe(volume: CollisionVolume, color: number = 0x00ff00): THREE.Object3D {
+    let geometry: THREE.BufferGeometry
+
+    switch (volume.type) {
+      case 'capsule':
+        // Create capsule wireframe (cylinder + 2 spheres)
+        const group = new THREE.Group()
+        
+        // Cylinder body
+        const cylinderGeometry = new THREE.CylinderGeometry(
+          volume.dimensions.x, // radius
+          volume.dimensions.x, // radius
+          volume.dimensions.y - volume.dimensions.x * 2, // height minus sphere caps
+          8, 1, true
+        )
+        const cylinderWireframe = new THREE.WireframeGeometry(cylinderGeometry)
+        const cylinderMesh = new THREE.LineSegments(cylinderWireframe, new THREE.LineBasicMaterial({ color }))
+        group.add(cylinderMesh)
+
+        // Top sphere cap
+        const topSphereGeometry = new THREE.SphereGeometry(volume.dimensions.x, 8, 4, 0, Math.PI * 2, 0, Math.PI / 2)
+        const topSphereWireframe = new THREE.WireframeGeometry(topSphereGeometry)
+        const topSphereMesh = new THREE.LineSegments(topSphereWireframe, new THREE.LineBasicMaterial({ color }))
+        topSphereMesh.position.y = (volume.dimensions.y - volume.dimensions.x * 2) * 0.5
+        group.add(topSphereMesh)
+
+        // Bottom sphere cap
+        const bottomSphereGeometry = new THREE.SphereGeometry(volume.dimensions.x, 8, 4, 0, Math.PI * 2, Math.PI / 2, Math.PI / 2)
+        const bottomSphereWireframe = new THREE.WireframeGeometry(bottomSphereGeometry)
+        const bottomSphereMesh = new THREE.LineSegments(bottomSphereWireframe, new THREE.LineBasicMaterial({ color }))
+        bottomSphereMesh.position.y = -(volume.dimensions.y - volume.dimensions.x * 2) * 0.5
+        group.add(bottomSphereMesh)
+
+        return group
+
+      case 'box':
+        geometry = new THREE.BoxGeometry(volume.dimensions.x, volume.dimensions.y, volume.dimensions.z)
+        break
+
+      case 'sphere':
+        geometry = new THREE.SphereGeometry(volume.dimensions.x, 8, 6)
+        break
+
+      default:
+        geometry = new THREE.BoxGeometry(1, 1, 1)
+    }
+
+    const wireframe = new THREE.WireframeGeometry(geometry)
+    const mesh = new THREE.LineSegments(wireframe, new THREE.LineBasicMaterial({ color }))
+    
+    return mesh
+  }
+
+  /**
+   * Get all registered objects
+   */
+  public getObjects(): Map<string, CollidableObject> {
+    return this.collidableObjects
+  }
+
+  /**
+   * Clear all registered objects
+   */
+  public clear(): void {
+    this.collidableObjects.clear()
+    this.meshBaseDimensions.clear()
+    this.broadPhase.clear()
+    this.triggers.clear()
+    this.landMeshes = []
+    this.groundHeightCache.clear()
+    this.heightfields = []
+    this.heightfieldDirty = false
+    logger.info(LogModule.COLLISION, 'CollisionSystem cleared')
+  }
+
+  /**
+   * Set ground height offset to adjust collision detection height
+   * @param offset Positive values raise collision, negative values lower it
+   */
+  public setGroundHeightOffset(offset: number): void {
+    this.groundHeightOffset = offset
+    logger.info(LogModule.COLLISION, `Ground height offset set to ${offset.toFixed(2)}`)
+  }
+
+  /**
+   * Get current ground height offset
+   */
+  public getGroundHeightOffset(): number {
+    return this.groundHeightOffset
+  }
+
+  /**
+   * Set the floor height used where no land covers a point
+   */
+  public setSeabedHeight(height: number): void {
+    this.seabedHeight = height
+    this.wakeRigidBodies()
+    logger.info(LogModule.COLLISION, `Seabed height set to ${height.toFixed(2)}`)
+  }
+
+  public getSeabedHeight(): number {
+    return this.seabedHeight
+  }
+
+  /**
    * Get performance statistics
    */
   public getPerformanceStats(): object {
@@ -716,9 +2577,14 @@ export class CollisionSystem {
       landMeshes: this.landMeshes.length,
       cacheSize: this.groundHeightCache.size,
       cacheTimeout: this.cacheTimeout,
-      collisionCheckInterval: this.collisionCheckInterval,
+      physicsTimeStep: this.physicsTimeStep * 1000,
+      rigidBodies: this.getRigidBodyStats(),
       maxRaycastDistance: this.maxRaycastDistance,
-      groundHeightOffset: this.groundHeightOffset
+      groundHeightOffset: this.groundHeightOffset,
+      seabedHeight: this.seabedHeight,
+      broadPhase: this.broadPhase.getStats(),
+      triggers: this.triggers.size,
+      heightfields: this.heightfields.map(({ layer, heightfield }) => ({ layer: CollisionLayer[layer], ...heightfield.getStats() }))
     }
   }
 
@@ -729,7 +2595,9 @@ export class CollisionSystem {
     return this.landMeshes.map(info => ({
       mesh: info.mesh,
       boundingBox: info.boundingBox.clone(),
-      priority: info.priority
+      priority: info.priority,
+      layer: info.layer,
+      mask: info.mask
     }))
   }
 
@@ -740,6 +2608,18 @@ export class CollisionSystem {
     return this.getGroundHeightOptimized(x, z)
   }
 
+  /**
+   * Get the land surface normal at position (straight up where there is no land)
+   */
+  public getGroundNormal(x: number, z: number, target: THREE.Vector3 = new THREE.Vector3(), filter?: CollisionFilter): THREE.Vector3 {
+    const best = this.sampleLand(x, z, filter)
+    if (!best?.heightfield) {
+      return target.set(0, 1, 0)
+    }
+    return best.heightfield.sampleNormal(x, z, target)
+  }
+
+
   /**
    * Fallback ground height detection using bounding boxes
    */
@@ -858,7 +2738,9 @@ export class CollisionSystem {
     console.log(`🏔️ TERRAIN HEIGHT DEBUG at (${x.toFixed(2)}, ${z.toFixed(2)}):`)
     
     const groundHeight = this.getGroundHeightOptimized(x, z)
-    console.log(`  Final Ground Height: ${groundHeight.toFixed(2)}`)
+    const groundNormal = this.getGroundNormal(x, z)
+    console.log(`  Final Ground Height: ${groundHeight.toFixed(2)} (heightfield)`)
+    console.log(`  Ground Normal: (${groundNormal.x.toFixed(2)}, ${groundNormal.y.toFixed(2)}, ${groundNormal.z.toFixed(2)})`)
     
     // Test raycast directly
     const allMeshes = this.landMeshes.map(info => info.mesh)
@@ -4,6 +4,13 @@ import { AnimationSystem } from './AnimationSystem'
 import { ConfigManager } from './ConfigManager'
 import { logger, LogModule, LogLevel } from './Logger'
 import { performanceMonitor } from './PerformanceMonitor'
+import { CollisionSystem, CollisionLayer } from './CollisionSystem'
+import type { CameraBookmark, CameraMode } from './CameraManager'
+import { isCameraEasing, type CameraEasing, type CameraPathData } from './CameraPath'
+import { VIEWPORT_OVERRIDES, type ViewportOverride } from './ViewportManager'
+import { QUALITY_PRESETS } from './OceanReflectionSystem'
+import { BuoyancySystem, FLOATING_OBJECT_KINDS, type FloatingObjectKind } from './BuoyancySystem'
+import type { QualityPreset } from './LODSystem'
 
 
 // Interface for the main app reference
@@ -17,8 +24,14 @@ interface AppReference {
   collisionSystem?: any
   playerController?: any
   cameraManager?: any
+  splitScreenSystem?: any
+  minimapSystem?: any
+  viewportManager?: any
   oceanLODSystem?: any
+  oceanReflectionSystem?: any
+  oceanRippleSystem?: any
   landSystem?: any
+  buoyancySystem?: any
   parameterManager?: any
   parameterGUI?: any
   parameterIntegration?: any
@@ -45,6 +58,13 @@ export class ConsoleCommands {
     this.app = app
   }
 
+  /**
+   * Fill in systems that are created after the console commands (the ocean and land content)
+   */
+  public updateAppReference(systems: Partial<AppReference>): void {
+    Object.assign(this.app, systems)
+  }
+
   // ============================================================================
   // OBJECT MANAGEMENT COMMANDS
   // ============================================================================
@@ -436,7 +456,7 @@ export class ConsoleCommands {
   // CAMERA MANAGER COMMANDS (New System)
   // ============================================================================
 
-  public switchCamera(mode: 'system' | 'player' = 'system'): void {
+  public switchCamera(mode: CameraMode = 'system'): void {
     if ((this.app as any).cameraManager) {
       const cameraManager = (this.app as any).cameraManager
       cameraManager.switchCamera(mode)
@@ -473,6 +493,11 @@ export class ConsoleCommands {
       console.log('Position:', info.playerCamera.position)
       console.log('Rotation:', info.playerCamera.rotation)
       console.groupEnd()
+      console.group('Third-Person Camera')
+      console.log('Position:', info.thirdPersonCamera.position)
+      console.log('Rotation:', info.thirdPersonCamera.rotation)
+      console.log('Boom:', `${info.thirdPersonCamera.boomLength.toFixed(2)} / ${info.thirdPersonCamera.maxBoomLength}`)
+      console.groupEnd()
       console.group('Player Controls')
       console.log('Enabled:', info.playerControls.enabled)
       console.log('Pitch:', info.playerControls.pitch.toFixed(3))
@@ -485,6 +510,275 @@ export class ConsoleCommands {
     }
   }
 
+  public setCameraDistance(distance: number): void {
+    if ((this.app as any).cameraManager) {
+      const cameraManager = (this.app as any).cameraManager
+      cameraManager.setThirdPersonConfig({ distance: Math.max(0.5, distance) })
+      console.log(`📷 Third-person camera distance set to ${Math.max(0.5, distance)}`)
+    } else {
+      console.warn('⚠️ CameraManager not available')
+    }
+  }
+
+  public exitFly(teleportPlayer?: boolean): void {
+    if (!this.app.cameraManager) {
+      console.warn('⚠️ CameraManager not available')
+      return
+    }
+    if (this.app.cameraManager.getCurrentMode() !== 'fly') {
+      console.warn('⚠️ Not in fly mode - use switchCamera(\'fly\') or press F')
+      return
+    }
+
+    const position = this.app.cameraManager.getCurrentCamera().position
+    this.app.cameraManager.exitFlyMode(teleportPlayer)
+    if (teleportPlayer !== false && this.app.cameraManager.getCurrentMode() !== 'system') {
+      console.log(`🪂 Left fly mode, player dropped at (${position.x.toFixed(2)}, ${position.y.toFixed(2)}, ${position.z.toFixed(2)})`)
+    } else {
+      console.log('🪂 Left fly mode')
+    }
+  }
+
+  public setFlySpeed(speed: number): void {
+    if (!this.app.cameraManager) {
+      console.warn('⚠️ CameraManager not available')
+      return
+    }
+    this.app.cameraManager.setFlyConfig({ speed })
+    console.log(`🪂 Fly speed set to ${this.app.cameraManager.getFlyConfig().speed.toFixed(1)} units/s`)
+  }
+
+  public shakeCamera(trauma: number = 0.6): void {
+    if (!this.app.cameraManager) {
+      console.warn('⚠️ CameraManager not available')
+      return
+    }
+    this.app.cameraManager.addCameraTrauma(trauma)
+    if (this.app.cameraManager.getCameraEffectsConfig().reduceMotion) {
+      console.log('📳 Camera trauma added, but reduce motion is on - setReduceMotion(false) to feel it')
+    } else {
+      console.log(`📳 Camera shake: +${trauma} trauma`)
+    }
+  }
+
+  public setReduceMotion(enabled: boolean = true): void {
+    if (this.app.parameterManager) {
+      // Through the parameter so the GUI and saved settings follow
+      this.app.parameterManager.setParameter('camera', 'reduceMotion', enabled)
+    } else if (this.app.cameraManager) {
+      this.app.cameraManager.setCameraEffectsConfig({ reduceMotion: enabled })
+    } else {
+      console.warn('⚠️ CameraManager not available')
+      return
+    }
+    console.log(`🧘 Reduce motion ${enabled ? 'on - camera shake, head bob, landing dip and FOV kick disabled' : 'off'}`)
+  }
+
+  // ============================================================================
+  // CAMERA BOOKMARK COMMANDS
+  // ============================================================================
+
+  public saveBookmark(name?: string): void {
+    if (!this.app.cameraManager) {
+      console.warn('⚠️ CameraManager not available')
+      return
+    }
+
+    const bookmark = this.app.cameraManager.saveBookmark(name)
+    const number = this.app.cameraManager.getBookmarks().findIndex((existing: CameraBookmark) => existing.name === bookmark.name) + 1
+    console.log(`📍 Bookmark "${bookmark.name}" saved (${bookmark.mode} view)${number <= 9 ? ` - press ${number} to jump back` : ''}`)
+  }
+
+  public goToBookmark(nameOrNumber: string | number): void {
+    if (!this.app.cameraManager) {
+      console.warn('⚠️ CameraManager not available')
+      return
+    }
+
+    if (this.app.cameraManager.goToBookmark(nameOrNumber)) {
+      console.log(`📍 Moving to bookmark ${typeof nameOrNumber === 'number' ? `#${nameOrNumber}` : `"${nameOrNumber}"`}`)
+    } else {
+      console.warn(`⚠️ Bookmark ${JSON.stringify(nameOrNumber)} not found (or a camera transition is running) - see listBookmarks()`)
+    }
+  }
+
+  public listBookmarks(): void {
+    if (!this.app.cameraManager) {
+      console.warn('⚠️ CameraManager not available')
+      return
+    }
+
+    const bookmarks: CameraBookmark[] = this.app.cameraManager.getBookmarks()
+    console.group('📍 Camera Bookmarks')
+    if (bookmarks.length === 0) {
+      console.log('No bookmarks yet - saveBookmark("name") stores the current view')
+    }
+    bookmarks.forEach((bookmark, index) => {
+      const [x, y, z] = bookmark.position
+      const hotkey = index < 9 ? `[${index + 1}] ` : '    '
+      console.log(`${hotkey}${bookmark.name} - ${bookmark.mode} at (${x.toFixed(1)}, ${y.toFixed(1)}, ${z.toFixed(1)}), fov ${bookmark.fov.toFixed(0)}`)
+    })
+    console.groupEnd()
+  }
+
+  public renameBookmark(name: string, newName: string): void {
+    if (!this.app.cameraManager) {
+      console.warn('⚠️ CameraManager not available')
+      return
+    }
+
+    if (this.app.cameraManager.renameBookmark(name, newName)) {
+      console.log(`✏️ Bookmark "${name}" renamed to "${newName}"`)
+    } else {
+      console.warn(`⚠️ Could not rename "${name}" - it doesn't exist or "${newName}" is already taken`)
+    }
+  }
+
+  public deleteBookmark(name: string): void {
+    if (!this.app.cameraManager) {
+      console.warn('⚠️ CameraManager not available')
+      return
+    }
+
+    if (this.app.cameraManager.deleteBookmark(name)) {
+      console.log(`🗑️ Bookmark "${name}" deleted`)
+    } else {
+      console.warn(`⚠️ Bookmark "${name}" not found`)
+    }
+  }
+
+  // ============================================================================
+  // CAMERA PATH COMMANDS
+  // ============================================================================
+
+  public recordCameraKey(duration: number = 2, easing: CameraEasing = 'easeInOut'): void {
+    if (!this.app.cameraManager) {
+      console.warn('⚠️ CameraManager not available')
+      return
+    }
+    if (!isCameraEasing(easing)) {
+      console.warn(`⚠️ Unknown easing "${easing}" - use 'linear', 'easeIn', 'easeOut' or 'easeInOut'`)
+      return
+    }
+
+    const key = this.app.cameraManager.recordCameraKey(duration, easing)
+    const count = this.app.cameraManager.getRecordedKeys().length
+    const [x, y, z] = key.position
+    console.log(`🎬 Keyframe ${count} recorded at (${x.toFixed(2)}, ${y.toFixed(2)}, ${z.toFixed(2)}), fov ${key.fov.toFixed(0)}, ${duration}s ${easing} to the next`)
+    if (count >= 2) {
+      console.log('💡 Save with saveCameraPath("name") when done')
+    }
+  }
+
+  public clearCameraKeys(): void {
+    if (!this.app.cameraManager) {
+      console.warn('⚠️ CameraManager not available')
+      return
+    }
+    this.app.cameraManager.clearRecordedKeys()
+    console.log('🧹 Recorded camera keyframes cleared')
+  }
+
+  public saveCameraPath(name: string, loop: boolean = false): void {
+    if (!this.app.cameraManager) {
+      console.warn('⚠️ CameraManager not available')
+      return
+    }
+    if (!name) {
+      console.warn('⚠️ Path name required - saveCameraPath("name", loop?)')
+      return
+    }
+
+    const path = this.app.cameraManager.saveCameraPath(name, loop)
+    if (path) {
+      console.log(`🎬 Camera path "${name}" saved (${path.getKeyframeCount()} keyframes, ${path.getDuration().toFixed(1)}s${loop ? ', looping' : ''})`)
+      console.log('💡 Use exportCameraPaths() to keep it in src/config/cameraPaths.json')
+    } else {
+      console.warn('⚠️ Record at least two keyframes with recordCameraKey() first')
+    }
+  }
+
+  public playCameraPath(name: string): void {
+    if (!this.app.cameraManager) {
+      console.warn('⚠️ CameraManager not available')
+      return
+    }
+
+    if (this.app.cameraManager.playCameraPath(name)) {
+      console.log(`🎬 Playing camera path "${name}" - press C or run stopCameraPath() to stop`)
+    } else {
+      console.warn(`⚠️ Could not play camera path "${name}". Available: ${this.app.cameraManager.getCameraPathNames().join(', ') || 'none'}`)
+    }
+  }
+
+  public stopCameraPath(): void {
+    if (!this.app.cameraManager) {
+      console.warn('⚠️ CameraManager not available')
+      return
+    }
+    this.app.cameraManager.stopCameraPath()
+    console.log('⏹️ Camera path stopped')
+  }
+
+  public listCameraPaths(): void {
+    if (!this.app.cameraManager) {
+      console.warn('⚠️ CameraManager not available')
+      return
+    }
+
+    const paths = this.app.cameraManager.exportCameraPaths() as Record<string, CameraPathData>
+    console.group('🎬 Camera Paths')
+    Object.entries(paths).forEach(([name, path]) => {
+      const duration = path.keyframes
+        .slice(0, path.loop ? undefined : -1)
+        .reduce((total, key) => total + key.duration, 0)
+      console.log(`${name}: ${path.keyframes.length} keyframes, ${duration.toFixed(1)}s${path.loop ? ', looping' : ''}`)
+    })
+    console.log(`Recorded (unsaved) keyframes: ${this.app.cameraManager.getRecordedKeys().length}`)
+    console.groupEnd()
+  }
+
+  /**
+   * Export camera paths to JSON format for committing to codebase
+   */
+  public exportCameraPaths(): void {
+    if (!this.app.cameraManager) {
+      console.warn('⚠️ CameraManager not available')
+      return
+    }
+
+    const jsonString = JSON.stringify(this.app.cameraManager.exportCameraPaths(), null, 2)
+
+    console.group('📤 Exporting Camera Paths')
+    console.log('📋 Copy this JSON and paste it into src/config/cameraPaths.json:')
+    console.log('')
+    console.log(jsonString)
+    console.log('')
+    console.groupEnd()
+
+    if (navigator.clipboard) {
+      navigator.clipboard.writeText(jsonString).then(() => {
+        console.log('✅ JSON copied to clipboard!')
+      }).catch(() => {
+        console.warn('⚠️ Could not copy to clipboard, please copy manually')
+      })
+    }
+  }
+
+  public importCameraPaths(jsonString: string): void {
+    if (!this.app.cameraManager) {
+      console.warn('⚠️ CameraManager not available')
+      return
+    }
+
+    try {
+      const loaded = this.app.cameraManager.importCameraPaths(JSON.parse(jsonString))
+      console.log(`✅ Imported ${loaded} camera path(s)`)
+    } catch (error) {
+      console.error('❌ Invalid camera path JSON:', (error as Error).message)
+    }
+  }
+
   public setPlayerPosition(x: number, y: number, z: number): void {
     if ((this.app as any).playerController) {
       const playerController = (this.app as any).playerController
@@ -781,6 +1075,183 @@ export class ConsoleCommands {
     console.groupEnd()
   }
 
+  // ============================================================================
+  // SPLIT-SCREEN COMMANDS
+  // ============================================================================
+
+  public addSplitScreenPlayer(): void {
+    if (!this.app.splitScreenSystem) {
+      console.warn('⚠️ SplitScreenSystem not available')
+      return
+    }
+
+    const number = this.app.splitScreenSystem.addGuest()
+    if (number === null) {
+      console.warn('⚠️ Split-screen is full (4 players)')
+    } else {
+      console.log(`🎮 Player ${number} joined (no gamepad - connect one to play, or removeSplitScreenPlayer(${number}))`)
+    }
+  }
+
+  public removeSplitScreenPlayer(number: number): void {
+    if (!this.app.splitScreenSystem) {
+      console.warn('⚠️ SplitScreenSystem not available')
+      return
+    }
+
+    if (this.app.splitScreenSystem.removeGuest(number)) {
+      console.log(`👋 Player ${number} left`)
+    } else {
+      console.warn(`⚠️ No split-screen player ${number} (players 2-4 can be removed)`)
+    }
+  }
+
+  public setSplitScreen(enabled: boolean = true): void {
+    if (!this.app.splitScreenSystem) {
+      console.warn('⚠️ SplitScreenSystem not available')
+      return
+    }
+
+    this.app.splitScreenSystem.setEnabled(enabled)
+    console.log(`🎮 Split-screen ${enabled ? 'on - extra gamepads spawn their own players' : 'off - every gamepad controls player 1'}`)
+  }
+
+  public getSplitScreenInfo(): void {
+    if (!this.app.splitScreenSystem) {
+      console.warn('⚠️ SplitScreenSystem not available')
+      return
+    }
+
+    console.log('🎮 Split-screen:', this.app.splitScreenSystem.getInfo())
+  }
+
+  // ============================================================================
+  // MAP COMMANDS
+  // ============================================================================
+
+  public setMapView(x: number, z: number, halfHeight?: number): void {
+    if (!this.app.cameraManager) {
+      console.warn('⚠️ CameraManager not available')
+      return
+    }
+
+    this.app.cameraManager.setMapView(halfHeight === undefined ? { centerX: x, centerZ: z } : { centerX: x, centerZ: z, halfHeight })
+    const view = this.app.cameraManager.getMapView()
+    console.log(`🗺️ Map centered on (${view.centerX.toFixed(1)}, ${view.centerZ.toFixed(1)}), ${(view.halfHeight * 2).toFixed(0)} units tall`)
+  }
+
+  public setMinimap(enabled: boolean = true): void {
+    if (!this.app.minimapSystem) {
+      console.warn('⚠️ MinimapSystem not available')
+      return
+    }
+
+    this.app.minimapSystem.setEnabled(enabled)
+    console.log(`🗺️ Minimap ${enabled ? 'shown' : 'hidden'}`)
+  }
+
+  public setMinimapRange(range: number): void {
+    if (!this.app.minimapSystem) {
+      console.warn('⚠️ MinimapSystem not available')
+      return
+    }
+
+    this.app.minimapSystem.setConfig({ range })
+    console.log(`🗺️ Minimap shows ${(this.app.minimapSystem.getConfig().range * 2).toFixed(0)} units across`)
+  }
+
+  public setMinimapInterval(frames: number): void {
+    if (!this.app.minimapSystem) {
+      console.warn('⚠️ MinimapSystem not available')
+      return
+    }
+
+    this.app.minimapSystem.setConfig({ updateInterval: Math.max(1, Math.round(frames)) })
+    console.log(`🗺️ Minimap re-rendered every ${this.app.minimapSystem.getConfig().updateInterval} frames`)
+  }
+
+  public setMinimapFollow(followPlayer: boolean = true): void {
+    if (!this.app.minimapSystem) {
+      console.warn('⚠️ MinimapSystem not available')
+      return
+    }
+
+    this.app.minimapSystem.setConfig({ followPlayer })
+    console.log(`🗺️ Minimap ${followPlayer ? 'follows the player' : 'shows the map camera\'s view center'}`)
+  }
+
+  public minimapGoTo(x: number, z: number): void {
+    if (!this.app.minimapSystem) {
+      console.warn('⚠️ MinimapSystem not available')
+      return
+    }
+
+    // Same as clicking that spot on the minimap
+    this.app.minimapSystem.goTo(x, z)
+  }
+
+  // ============================================================================
+  // VIEWPORT COMMANDS
+  // ============================================================================
+
+  public addViewport(camera: string = 'player', override: ViewportOverride = 'none'): void {
+    if (!this.app.viewportManager) {
+      console.warn('⚠️ ViewportManager not available')
+      return
+    }
+
+    const id = this.app.viewportManager.addViewport({ camera, override })
+    if (id === null) {
+      console.warn(`⚠️ Unknown camera "${camera}" - try ${this.app.viewportManager.getCameraNames().join(', ')}`)
+    } else {
+      console.log(`🖼️ Viewport ${id} shows the ${camera} camera (drag its title bar to move, corner to resize)`)
+    }
+  }
+
+  public removeViewport(id: number): void {
+    if (!this.app.viewportManager) {
+      console.warn('⚠️ ViewportManager not available')
+      return
+    }
+
+    if (this.app.viewportManager.removeViewport(id)) {
+      console.log(`🖼️ Viewport ${id} removed`)
+    } else {
+      console.warn(`⚠️ No viewport ${id}`)
+    }
+  }
+
+  public setViewportOverride(id: number, override: ViewportOverride): void {
+    if (!this.app.viewportManager) {
+      console.warn('⚠️ ViewportManager not available')
+      return
+    }
+    if (!VIEWPORT_OVERRIDES.includes(override)) {
+      console.warn(`⚠️ Unknown override "${override}" - use ${VIEWPORT_OVERRIDES.join(', ')}`)
+      return
+    }
+
+    if (this.app.viewportManager.updateViewport(id, { override })) {
+      console.log(`🖼️ Viewport ${id} override: ${override}`)
+    } else {
+      console.warn(`⚠️ No viewport ${id}`)
+    }
+  }
+
+  public listViewports(): void {
+    if (!this.app.viewportManager) {
+      console.warn('⚠️ ViewportManager not available')
+      return
+    }
+
+    const viewports = this.app.viewportManager.getViewports()
+    if (viewports.length === 0) {
+      console.log('🖼️ No viewports - addViewport(camera?, override?)')
+      return
+    }
+    console.table(viewports)
+  }
+
   // ============================================================================
   // OCEAN SYSTEM COMMANDS
   // ============================================================================
@@ -815,6 +1286,106 @@ export class ConsoleCommands {
     }
   }
 
+  public getWaterHeight(x?: number, z?: number): void {
+    if (!this.app.oceanLODSystem) {
+      console.warn('⚠️ Ocean system not available')
+      return
+    }
+
+    // Default to the player's position
+    const playerController = (this.app as any).playerController
+    if (x === undefined || z === undefined) {
+      if (!playerController) {
+        console.warn('⚠️ Pass x and z, PlayerController not available')
+        return
+      }
+      const position = playerController.getPosition()
+      x = position.x
+      z = position.z
+    }
+
+    const { height, normal } = this.app.oceanLODSystem.sampleHeight(x, z)
+    console.log(`🌊 Water surface at (${x!.toFixed(2)}, ${z!.toFixed(2)}): ${height.toFixed(3)}`)
+    console.log(`🌊 Normal: (${normal.x.toFixed(3)}, ${normal.y.toFixed(3)}, ${normal.z.toFixed(3)})`)
+    if (playerController) {
+      console.log(`🏊 Player swimming: ${playerController.isSwimming()}`)
+    }
+  }
+
+  public setOceanWaveCount(count: number): void {
+    if (!this.app.oceanLODSystem) {
+      console.warn('⚠️ Ocean system not available')
+      return
+    }
+
+    this.app.oceanLODSystem.setWaveCount(count)
+    console.log(`🌊 Gerstner waves: ${this.app.oceanLODSystem.getWaveCount()}`)
+  }
+
+  public listOceanWaves(): void {
+    if (!this.app.oceanLODSystem) {
+      console.warn('⚠️ Ocean system not available')
+      return
+    }
+
+    const waves = this.app.oceanLODSystem.getWaves().map((wave: any) => ({
+      direction: `(${wave.direction.x.toFixed(2)}, ${wave.direction.y.toFixed(2)})`,
+      steepness: +wave.steepness.toFixed(3),
+      wavelength: +wave.wavelength.toFixed(2),
+      speed: +wave.speed.toFixed(2),
+      height: +(wave.steepness * wave.wavelength / (2 * Math.PI)).toFixed(3)
+    }))
+    console.table(waves)
+  }
+
+  public setOceanReflections(enabled: boolean): void {
+    if (!this.app.oceanReflectionSystem) {
+      console.warn('⚠️ Ocean reflection system not available')
+      return
+    }
+
+    this.app.oceanReflectionSystem.setConfig({ enabled })
+    console.log(`🪞 Ocean reflections ${enabled ? 'enabled' : 'disabled'}`)
+    if (enabled && !this.app.oceanReflectionSystem.isActive()) {
+      console.log('🪞 Skipped at the current quality or retro resolution')
+    }
+  }
+
+  public setOceanReflectionQuality(preset: QualityPreset): void {
+    if (!this.app.oceanReflectionSystem) {
+      console.warn('⚠️ Ocean reflection system not available')
+      return
+    }
+
+    if (!QUALITY_PRESETS.includes(preset)) {
+      console.warn(`⚠️ Unknown quality "${preset}" - use ${QUALITY_PRESETS.join(', ')}`)
+      return
+    }
+
+    this.app.oceanReflectionSystem.setQuality(preset)
+    console.log(`🪞 Ocean reflection quality: ${preset}`)
+  }
+
+  public setOceanRipples(enabled: boolean): void {
+    if (!this.app.oceanRippleSystem) {
+      console.warn('⚠️ Ocean ripple system not available')
+      return
+    }
+
+    this.app.oceanRippleSystem.setConfig({ enabled })
+    console.log(`💧 Ocean ripples ${enabled ? 'enabled' : 'disabled'}`)
+  }
+
+  public clearOceanRipples(): void {
+    if (!this.app.oceanRippleSystem) {
+      console.warn('⚠️ Ocean ripple system not available')
+      return
+    }
+
+    this.app.oceanRippleSystem.clear()
+    console.log('💧 Ocean ripples cleared')
+  }
+
   // ============================================================================
   // LAND SYSTEM COMMANDS
   // ============================================================================
@@ -901,7 +1472,29 @@ export class ConsoleCommands {
 - getCameraState()                 - Show current camera state
 
 📷 CAMERA MANAGER (New System):
-- switchCamera('system'/'player')  - Switch between camera modes
+- switchCamera('system'/'player'/'third-person'/'fly'/'map') - Switch between camera modes
+- setCameraDistance(distance)      - Set the third-person boom length
+- exitFly(teleport?)               - Leave fly mode (teleport drops the player there)
+- setFlySpeed(speed)               - Set the fly camera speed (units/s)
+- shakeCamera(trauma?)             - Shake the player camera (0-1)
+- setReduceMotion(true/false)      - Turn camera shake/bob/dip/FOV kick off or on
+
+📍 CAMERA BOOKMARKS:
+- saveBookmark(name?)              - Bookmark the current view
+- goToBookmark(name or number)     - Fly to a bookmark
+- listBookmarks()                  - List bookmarks and their hotkeys
+- renameBookmark(name, newName)    - Rename a bookmark
+- deleteBookmark(name)             - Delete a bookmark
+
+🎬 CAMERA PATHS:
+- recordCameraKey(duration?, easing?) - Record the current view as a keyframe
+- saveCameraPath(name, loop?)      - Save recorded keyframes as a path
+- playCameraPath(name)             - Fly the camera along a path
+- stopCameraPath()                 - Stop and return to the previous camera
+- listCameraPaths()                - List available paths
+- clearCameraKeys()                - Discard recorded keyframes
+- exportCameraPaths()              - Export paths for src/config/cameraPaths.json
+- importCameraPaths(json)          - Load paths from JSON
 - getCameraMode()                  - Get current camera mode
 - getCameraInfo()                  - Show detailed camera info
 
@@ -913,6 +1506,27 @@ export class ConsoleCommands {
 - syncPlayerSpeeds()               - Sync speeds from ParameterManager
 - diagnosePlayerIssues()           - Comprehensive player issue diagnosis
 
+🎮 SPLIT-SCREEN:
+- addSplitScreenPlayer()           - Add a player without a gamepad (layout preview)
+- removeSplitScreenPlayer(number)  - Remove player 2-4
+- setSplitScreen(true/false)       - Let extra gamepads spawn players, or give them all to player 1
+- getSplitScreenInfo()             - Show players, gamepads and viewports
+
+🗺️ MAP & MINIMAP:
+- switchCamera('map')              - Top-down orthographic map (drag to pan, scroll to zoom)
+- setMapView(x, z, halfHeight?)    - Center the map camera (halfHeight = half the visible height)
+- setMinimap(true/false)           - Show or hide the corner minimap
+- setMinimapRange(range)           - Half the width the minimap shows
+- setMinimapInterval(frames)       - Re-render the minimap every N frames
+- setMinimapFollow(true/false)     - Center the minimap on the player or on the map view
+- minimapGoTo(x, z)                - Same as clicking the minimap there
+
+🖼️ VIEWPORTS:
+- addViewport(camera?, override?)  - Picture-in-picture view (player/third-person/system/fly/map)
+- setViewportOverride(id, override) - none, wireframe, normals or depth
+- removeViewport(id)               - Remove a viewport
+- listViewports()                  - List viewports
+
 🔍 COLLISION SYSTEM:
 - testCollision(x, y, z)           - Test collision at position
 - testCollisionAt(x, y, z)         - Test collision at specific position
@@ -921,7 +1535,18 @@ export class ConsoleCommands {
 - testCollisionPerformance()       - Test collision system performance
 - testPlayerMovement()             - Test player movement and collision
 - testPlayerCollision()            - Test collision at player position
+- testSweptCollision()             - Fire a capsule at a thin box (continuous collision test)
 - getCollisionStatus()             - Show collision system status
+- listCollisionLayers()            - List collision layers and what they collide with
+- setLayerCollision(a, b, enabled) - Enable/disable collisions between two layers
+- toggleLayerCollision(a, b)       - Toggle collisions between two layers
+- setObjectLayer(id, layer)        - Move a collidable object to another layer
+- listTriggers()                   - List trigger volumes and what is inside them
+- toggleTrigger(id)                - Enable/disable a trigger volume
+- enablePhysics(id)                - Simulate an object as a rigid body ('all' for every object)
+- disablePhysics(id)               - Make a rigid body static again
+- pushObject(id, x, y, z)          - Apply an impulse to a rigid body
+- listRigidBodies()                - List rigid bodies and their velocities
 - showLandMeshes()                 - Show registered land meshes
 - showLandBounds()                 - Show land mesh bounds and player position analysis
 - movePlayerToSafePosition()       - Move player to safe position within land bounds
@@ -952,6 +1577,17 @@ export class ConsoleCommands {
 - resetOcean()                     - Reset ocean positions
 - setWaveAmplitude(amplitude)      - Set wave height
 - setWind(x, z, strength?)         - Set wind direction/strength
+- getWaterHeight(x?, z?)           - Water surface height and normal (defaults to the player position)
+- setOceanWaveCount(count)         - Number of Gerstner waves (1-8)
+- listOceanWaves()                 - Show the Gerstner waves
+- spawnFloating(kind?, x?, z?)     - Drop a crate, buoy or boat into the water (ahead of the player)
+- removeFloating(id)               - Remove a floating object
+- listFloating()                   - List floating objects, how deep they sit and who rides them
+- testBuoyancy()                   - Float test bodies on flat water (settling, righting, boat steering, riders)
+- setOceanReflections(enabled)     - Toggle planar reflection/refraction passes
+- setOceanReflectionQuality(preset) - ultra, high, medium, low or potato
+- setOceanRipples(enabled)         - Toggle wakes and ripples from players and floating objects
+- clearOceanRipples()              - Calm the ripple simulation
 
 🏔️ LAND SYSTEM:
 - clearLand()                      - Clear all land
@@ -981,17 +1617,39 @@ export class ConsoleCommands {
 - setCameraPosition(10, 5, 10)     // Move camera
 - setCameraPosition(10, 5, 10, 0, 0, 0) // Move camera, look at origin
 - switchCamera('player')            // Switch to player camera
+- switchCamera('third-person')      // Follow the player from behind
+- switchCamera('fly')               // Noclip spectator camera
+- setMapView(0, 0, 150)             // Whole island from above (press M)
+- addViewport('player', 'wireframe') // See the ocean LOD the player gets
+- playCameraPath('island-flyover')  // Cinematic flythrough
+- saveBookmark('harbor')            // Then press its number key to come back
+- recordCameraKey(3, 'linear')      // Keyframe with a 3s linear move to the next
 - setPlayerPosition(0, 10, 0)       // Move player
+- addSplitScreenPlayer()            // Preview the two-player layout
 - togglePlayerDebug()               // Show/hide player wireframe
+- toggleLayerCollision('player', 'prop') // Walk through props
+- enablePhysics('animated-0')        // Drop an animated box onto the island
+- pushObject('animated-0', 2, 6, 0)  // Knock it over
+- spawnFloating('boat')             // Then look at it and press E to board
 - setWaveAmplitude(0.8)
 - showSystemStatus()
 
 🎮 CONTROLS:
 - C = Switch between System/Player cameras
+- V = Toggle first/third-person view (in player camera mode)
+- 1-9 = Jump to camera bookmark
+- F = Toggle fly camera (WASD, Space/Q up/down, Shift boost, scroll speed)
+- M = Toggle top-down map camera (drag to pan, scroll to zoom)
+- Click minimap = Move system camera target / teleport player
 - WASD = Move player (in player camera mode)
 - Space = Jump (in player camera mode)
-- Shift = Run (in player camera mode)
+- Shift = Run while stamina lasts (in player camera mode)
+- E / Gamepad X = Pick up, carry and throw objects (in player camera mode)
+- Q / Gamepad right stick press = Crouch (stands up once there is headroom)
+- Space / Q (Gamepad A / right stick) = Swim up / dive while in water
+- E / Gamepad X at a boat = Board it; WASD steers, Shift boosts, E or Space jumps off
 - Mouse = Look around (in player camera mode)
+- Extra gamepads = Join as players 2-4 (split-screen)
 `)
   }
 
@@ -1064,7 +1722,29 @@ export class ConsoleCommands {
     win.getCameraState = () => this.getCameraState()
     
     // Camera Manager Commands (New System)
-    win.switchCamera = (mode: 'system' | 'player') => this.switchCamera(mode)
+    win.switchCamera = (mode: CameraMode) => this.switchCamera(mode)
+    win.setCameraDistance = (distance: number) => this.setCameraDistance(distance)
+    win.exitFly = (teleportPlayer?: boolean) => this.exitFly(teleportPlayer)
+    win.setFlySpeed = (speed: number) => this.setFlySpeed(speed)
+    win.shakeCamera = (trauma?: number) => this.shakeCamera(trauma)
+    win.setReduceMotion = (enabled?: boolean) => this.setReduceMotion(enabled)
+    
+    // Camera Bookmark Commands
+    win.saveBookmark = (name?: string) => this.saveBookmark(name)
+    win.goToBookmark = (nameOrNumber: string | number) => this.goToBookmark(nameOrNumber)
+    win.listBookmarks = () => this.listBookmarks()
+    win.renameBookmark = (name: string, newName: string) => this.renameBookmark(name, newName)
+    win.deleteBookmark = (name: string) => this.deleteBookmark(name)
+    
+    // Camera Path Commands
+    win.recordCameraKey = (duration?: number, easing?: CameraEasing) => this.recordCameraKey(duration, easing)
+    win.clearCameraKeys = () => this.clearCameraKeys()
+    win.saveCameraPath = (name: string, loop?: boolean) => this.saveCameraPath(name, loop)
+    win.playCameraPath = (name: string) => this.playCameraPath(name)
+    win.stopCameraPath = () => this.stopCameraPath()
+    win.listCameraPaths = () => this.listCameraPaths()
+    win.exportCameraPaths = () => this.exportCameraPaths()
+    win.importCameraPaths = (json: string) => this.importCameraPaths(json)
     win.getCameraMode = () => this.getCameraMode()
     win.getCameraInfo = () => this.getCameraInfo()
     
@@ -1073,9 +1753,39 @@ export class ConsoleCommands {
     win.getPlayerStatus = () => this.getPlayerStatus()
     win.togglePlayerDebug = () => this.togglePlayerDebug()
     
+    // Split-Screen Commands
+    win.addSplitScreenPlayer = () => this.addSplitScreenPlayer()
+    win.removeSplitScreenPlayer = (number: number) => this.removeSplitScreenPlayer(number)
+    win.setSplitScreen = (enabled?: boolean) => this.setSplitScreen(enabled)
+    win.getSplitScreenInfo = () => this.getSplitScreenInfo()
+    
+    // Map Commands
+    win.setMapView = (x: number, z: number, halfHeight?: number) => this.setMapView(x, z, halfHeight)
+    win.setMinimap = (enabled?: boolean) => this.setMinimap(enabled)
+    win.setMinimapRange = (range: number) => this.setMinimapRange(range)
+    win.setMinimapInterval = (frames: number) => this.setMinimapInterval(frames)
+    win.setMinimapFollow = (followPlayer?: boolean) => this.setMinimapFollow(followPlayer)
+    win.minimapGoTo = (x: number, z: number) => this.minimapGoTo(x, z)
+    
+    // Viewport Commands
+    win.addViewport = (camera?: string, override?: ViewportOverride) => this.addViewport(camera, override)
+    win.removeViewport = (id: number) => this.removeViewport(id)
+    win.setViewportOverride = (id: number, override: ViewportOverride) => this.setViewportOverride(id, override)
+    win.listViewports = () => this.listViewports()
+    
     // Collision System Commands
     win.testCollision = (x: number = 0, y: number = 10, z: number = 0) => this.testCollision(x, y, z)
     win.getCollisionStatus = () => this.getCollisionStatus()
+    win.listCollisionLayers = () => this.listCollisionLayers()
+    win.setLayerCollision = (layerA: string, layerB: string, enabled: boolean) => this.setLayerCollision(layerA, layerB, enabled)
+    win.toggleLayerCollision = (layerA: string, layerB: string) => this.toggleLayerCollision(layerA, layerB)
+    win.setObjectLayer = (id: string, layer: string) => this.setObjectLayer(id, layer)
+    win.listTriggers = () => this.listTriggers()
+    win.toggleTrigger = (id: string) => this.toggleTrigger(id)
+    win.enablePhysics = (id: string, mass: number = 1) => this.enablePhysics(id, mass)
+    win.disablePhysics = (id: string) => this.disablePhysics(id)
+    win.pushObject = (id: string, x: number = 0, y: number = 5, z: number = 0) => this.pushObject(id, x, y, z)
+    win.listRigidBodies = () => this.listRigidBodies()
     win.debugCollision = (x: number = 0, y: number = 10, z: number = 0) => {
       if (this.app.collisionSystem) {
         this.app.collisionSystem.debugCollisionTest(new THREE.Vector3(x, y, z))
@@ -1112,6 +1822,7 @@ export class ConsoleCommands {
     win.testLandCollision = () => this.testLandCollision()
     win.testCollisionAtPosition = (x: number, y: number, z: number) => this.testCollisionAtPosition(x, y, z)
     win.testGroundDetection = () => this.testGroundDetection()
+    win.testSweptCollision = () => this.testSweptCollision()
     
     // Retro Post-Processing Commands
     win.setRetroEnabled = (enabled: boolean) => this.setRetroEnabled(enabled)
@@ -1175,7 +1886,8 @@ export class ConsoleCommands {
         console.log(`Land Meshes: ${stats.landMeshes}`)
         console.log(`Cache Size: ${stats.cacheSize}`)
         console.log(`Cache Timeout: ${stats.cacheTimeout}ms`)
-        console.log(`Collision Check Interval: ${stats.collisionCheckInterval}ms`)
+        console.log(`Physics Step: ${stats.physicsTimeStep.toFixed(1)}ms`)
+        console.log(`Rigid Bodies: ${stats.rigidBodies.total} (${stats.rigidBodies.sleeping} sleeping)`)
         console.log(`Max Raycast Distance: ${stats.maxRaycastDistance} units`)
         console.groupEnd()
       } else {
@@ -1194,6 +1906,17 @@ export class ConsoleCommands {
     win.resetOcean = () => this.resetOcean()
     win.setWaveAmplitude = (amplitude: number) => this.setWaveAmplitude(amplitude)
     win.setWind = (x: number, z: number, strength?: number) => this.setWind(x, z, strength)
+    win.getWaterHeight = (x?: number, z?: number) => this.getWaterHeight(x, z)
+    win.setOceanWaveCount = (count: number) => this.setOceanWaveCount(count)
+    win.listOceanWaves = () => this.listOceanWaves()
+    win.setOceanReflections = (enabled: boolean) => this.setOceanReflections(enabled)
+    win.setOceanReflectionQuality = (preset: QualityPreset) => this.setOceanReflectionQuality(preset)
+    win.setOceanRipples = (enabled: boolean) => this.setOceanRipples(enabled)
+    win.clearOceanRipples = () => this.clearOceanRipples()
+    win.spawnFloating = (kind?: FloatingObjectKind, x?: number, z?: number) => this.spawnFloating(kind, x, z)
+    win.removeFloating = (id: string) => this.removeFloating(id)
+    win.listFloating = () => this.listFloating()
+    win.testBuoyancy = () => this.testBuoyancy()
     
     // Land System Commands
     win.clearLand = () => this.clearLand()
@@ -1287,12 +2010,375 @@ export class ConsoleCommands {
     console.log(`🎯 Registered Objects: ${objects.size}`)
     
     objects.forEach((obj: any, id: string) => {
-      console.log(`  ${id}: ${obj.isStatic ? 'Static' : 'Dynamic'} - ${obj.collisionVolume.type}`)
+      console.log(`  ${id}: ${obj.isStatic ? 'Static' : 'Dynamic'} - ${obj.collisionVolume.type} - ${CollisionLayer[obj.layer ?? CollisionLayer.DEFAULT]}`)
     })
     
     console.groupEnd()
   }
 
+  /**
+   * List collision layers, their objects and which layers they interact with
+   */
+  public listCollisionLayers(): void {
+    if (!this.app.collisionSystem) {
+      console.warn('❌ Collision system not available')
+      return
+    }
+
+    const collisionSystem: CollisionSystem = this.app.collisionSystem
+    const layers = collisionSystem.getLayers()
+    const objects = Array.from(collisionSystem.getObjects().values())
+    const landMeshes = collisionSystem.getLandMeshes()
+
+    console.group('🧱 Collision Layers')
+    layers.forEach(layer => {
+      const members = objects
+        .filter(obj => (obj.layer ?? CollisionLayer.DEFAULT) === layer)
+        .map(obj => obj.id)
+      const landCount = landMeshes.filter(info => info.layer === layer).length
+      const collidesWith = layers
+        .filter(other => collisionSystem.getLayerCollision(layer, other))
+        .map(other => CollisionLayer[other])
+
+      console.log(`${CollisionLayer[layer]} (${layer}): collides with [${collidesWith.join(', ') || 'nothing'}]`)
+      if (members.length > 0) console.log(`  Objects: ${members.join(', ')}`)
+      if (landCount > 0) console.log(`  Land meshes: ${landCount}`)
+    })
+    console.groupEnd()
+  }
+
+  /**
+   * Enable or disable collisions between two layers by name, e.g. setLayerCollision('debris', 'player', false)
+   */
+  public setLayerCollision(layerA: string, layerB: string, enabled: boolean): void {
+    const a = this.parseCollisionLayer(layerA)
+    const b = this.parseCollisionLayer(layerB)
+    if (a === null || b === null || !this.app.collisionSystem) return
+
+    this.app.collisionSystem.setLayerCollision(a, b, enabled)
+    console.log(`🧱 ${CollisionLayer[a]} ↔ ${CollisionLayer[b]} collisions ${enabled ? 'enabled' : 'disabled'}`)
+  }
+
+  /**
+   * Flip whether two layers collide
+   */
+  public toggleLayerCollision(layerA: string, layerB: string): void {
+    const a = this.parseCollisionLayer(layerA)
+    const b = this.parseCollisionLayer(layerB)
+    if (a === null || b === null || !this.app.collisionSystem) return
+
+    this.setLayerCollision(layerA, layerB, !this.app.collisionSystem.getLayerCollision(a, b))
+  }
+
+  /**
+   * Move a collidable object to another layer
+   */
+  public setObjectLayer(id: string, layerName: string): void {
+    const layer = this.parseCollisionLayer(layerName)
+    if (layer === null || !this.app.collisionSystem) return
+
+    if (this.app.collisionSystem.setObjectLayer(id, layer)) {
+      console.log(`🧱 ${id} moved to layer ${CollisionLayer[layer]}`)
+    } else {
+      console.warn(`❌ Collidable object not found: ${id}`)
+    }
+  }
+
+  /**
+   * List trigger volumes, their filters and current occupants
+   */
+  public listTriggers(): void {
+    if (!this.app.collisionSystem) {
+      console.warn('❌ Collision system not available')
+      return
+    }
+
+    const collisionSystem: CollisionSystem = this.app.collisionSystem
+    const triggers = collisionSystem.getTriggers()
+
+    console.group(`🚪 Trigger Volumes (${triggers.length})`)
+    triggers.forEach(trigger => {
+      const volume = trigger.collisionVolume
+      const pos = volume.position
+      const occupants = collisionSystem.getTriggerOccupants(trigger.id)
+      const mask = trigger.filter?.mask
+      const layers = mask === undefined
+        ? 'all'
+        : collisionSystem.getLayers().filter(layer => (mask & layer) !== 0).map(layer => CollisionLayer[layer]).join(', ')
+
+      console.log(`${trigger.id}: ${volume.type} at (${pos.x.toFixed(1)}, ${pos.y.toFixed(1)}, ${pos.z.toFixed(1)})${trigger.enabled === false ? ' [disabled]' : ''}`)
+      console.log(`  Layers: ${layers}${trigger.filter?.objectIds ? ` | Objects: ${trigger.filter.objectIds.join(', ')}` : ''}`)
+      console.log(`  Inside: ${occupants.join(', ') || 'nothing'}`)
+    })
+    console.groupEnd()
+  }
+
+  /**
+   * Enable or disable a trigger volume
+   */
+  public toggleTrigger(id: string): void {
+    if (!this.app.collisionSystem) return
+
+    const trigger = this.app.collisionSystem.getTrigger(id)
+    if (!trigger) {
+      console.warn(`❌ Trigger not found: ${id}`)
+      return
+    }
+
+    const enabled = trigger.enabled === false
+    this.app.collisionSystem.setTriggerEnabled(id, enabled)
+    console.log(`🚪 Trigger ${id} ${enabled ? 'enabled' : 'disabled'}`)
+  }
+
+  /**
+   * Simulate a managed object as a rigid body. Its scripted animations are removed so
+   * they don't fight the simulation.
+   */
+  public enablePhysics(id: string, mass: number = 1): void {
+    if (!this.app.collisionSystem) {
+      console.warn('❌ Collision system not available')
+      return
+    }
+
+    const ids = id === 'all'
+      ? this.app.objectManager.getAllObjects().map(obj => obj.id)
+      : [id]
+
+    ids.forEach(objectId => {
+      const collidable = this.app.collisionSystem.getObjects().get(objectId)
+      if (!collidable) {
+        console.warn(`❌ Collidable object not found: ${objectId}`)
+        return
+      }
+
+      this.app.animationSystem.removeAnimationsForObject(collidable.mesh)
+      this.app.collisionSystem.enableRigidBody(objectId, { mass })
+      console.log(`🧊 ${objectId} is now a rigid body (mass ${mass})`)
+    })
+  }
+
+  public disablePhysics(id: string): void {
+    if (!this.app.collisionSystem) return
+
+    this.app.collisionSystem.disableRigidBody(id)
+    console.log(`🧊 ${id} is static again`)
+  }
+
+  /**
+   * Apply an impulse to a rigid body, e.g. pushObject('animated-0', 0, 8, 2)
+   */
+  public pushObject(id: string, x: number, y: number, z: number): void {
+    if (!this.app.collisionSystem) return
+
+    if (this.app.collisionSystem.applyImpulse(id, new THREE.Vector3(x, y, z))) {
+      console.log(`💨 Pushed ${id} with impulse (${x}, ${y}, ${z})`)
+    } else {
+      console.warn(`❌ ${id} is not a rigid body. Use enablePhysics('${id}') first`)
+    }
+  }
+
+  public listRigidBodies(): void {
+    if (!this.app.collisionSystem) {
+      console.warn('❌ Collision system not available')
+      return
+    }
+
+    const collisionSystem: CollisionSystem = this.app.collisionSystem
+    const bodies = Array.from(collisionSystem.getObjects().values()).filter(obj => obj.rigidBody)
+
+    console.group(`🧊 Rigid Bodies (${bodies.length})`)
+    bodies.forEach(obj => {
+      const body = obj.rigidBody!
+      const pos = obj.collisionVolume.position
+      console.log(`${obj.id}: mass ${body.mass} at (${pos.x.toFixed(2)}, ${pos.y.toFixed(2)}, ${pos.z.toFixed(2)}) speed ${body.velocity.length().toFixed(2)} spin ${body.angularVelocity.length().toFixed(2)}${body.sleeping ? ' [sleeping]' : ''}`)
+    })
+    console.groupEnd()
+  }
+
+  // ============================================================================
+  // FLOATING OBJECT COMMANDS
+  // ============================================================================
+
+  /**
+   * Drop a crate, buoy or boat into the water, by default a few units in front of the player
+   */
+  public spawnFloating(kind: FloatingObjectKind = 'crate', x?: number, z?: number): void {
+    if (!this.app.buoyancySystem) {
+      console.warn('⚠️ Buoyancy system not available')
+      return
+    }
+    if (!FLOATING_OBJECT_KINDS.includes(kind)) {
+      console.warn(`⚠️ Unknown floating object "${kind}" - use ${FLOATING_OBJECT_KINDS.join(', ')}`)
+      return
+    }
+
+    if (x === undefined || z === undefined) {
+      if (!this.app.playerController) {
+        console.warn('⚠️ Pass x and z, PlayerController not available')
+        return
+      }
+      const ahead = this.app.cameraManager?.getPlayerCamera().getWorldDirection(new THREE.Vector3()).setY(0)
+      const position = this.app.playerController.getPosition()
+      if (ahead && ahead.lengthSq() > 1e-6) {
+        position.addScaledVector(ahead.normalize(), 4)
+      }
+      x = position.x
+      z = position.z
+    }
+
+    const waterHeight = this.app.oceanLODSystem?.sampleHeight(x, z).height ?? -2
+    const managedObject = this.app.buoyancySystem.spawn(kind, new THREE.Vector3(x, waterHeight + 1.5, z))
+    console.log(`🛟 Spawned ${managedObject.id} at (${x!.toFixed(1)}, ${z!.toFixed(1)})${kind === 'boat' ? ' - look at it and press E to board' : ''}`)
+  }
+
+  public removeFloating(id: string): void {
+    if (!this.app.buoyancySystem) {
+      console.warn('⚠️ Buoyancy system not available')
+      return
+    }
+
+    if (this.app.buoyancySystem.despawn(id)) {
+      console.log(`🛟 Removed ${id}`)
+    } else {
+      console.warn(`❌ Floating object not found: ${id}`)
+    }
+  }
+
+  public listFloating(): void {
+    if (!this.app.buoyancySystem) {
+      console.warn('⚠️ Buoyancy system not available')
+      return
+    }
+
+    const bodies = this.app.buoyancySystem.getBodies().map((body: any) => ({
+      id: body.id,
+      density: body.density,
+      submerged: `${(body.submersion * 100).toFixed(0)}%`,
+      boat: body.boat,
+      rider: body.rider ?? ''
+    }))
+    if (bodies.length === 0) {
+      console.log("🛟 Nothing is floating - spawnFloating('crate'), spawnFloating('boat')")
+      return
+    }
+    console.table(bodies)
+  }
+
+  /**
+   * Simulate floating bodies on flat water (y = 0) in a scratch collision system and check
+   * that they settle at their density, right themselves and that boats drive forward
+   */
+  public testBuoyancy(): boolean {
+    console.group('🛟 Buoyancy Test')
+
+    const collisionSystem = new CollisionSystem()
+    const buoyancySystem = new BuoyancySystem(collisionSystem, this.app.objectManager)
+    buoyancySystem.setWaterSampler(() => ({ height: 0, normal: new THREE.Vector3(0, 1, 0) }))
+
+    const addBox = (id: string, size: THREE.Vector3, position: THREE.Vector3, rotation: THREE.Euler, mass: number, density: number) => {
+      const mesh = new THREE.Mesh(new THREE.BoxGeometry(size.x, size.y, size.z))
+      mesh.position.copy(position)
+      mesh.rotation.copy(rotation)
+      mesh.updateMatrixWorld(true)
+      collisionSystem.registerMesh(id, mesh, false)
+      collisionSystem.enableRigidBody(id, { mass })
+      buoyancySystem.addBody(id, { density })
+      return collisionSystem.getObjects().get(id)!
+    }
+    const simulate = (seconds: number) => {
+      for (let time = 0; time < seconds; time += 1 / 60) {
+        collisionSystem.updateDynamicObjects(1 / 60)
+      }
+    }
+
+    const crate = addBox('crate', new THREE.Vector3(1, 1, 1), new THREE.Vector3(0, 2, 0), new THREE.Euler(), 20, 0.6)
+    const tilted = addBox('tilted', new THREE.Vector3(2, 0.5, 2), new THREE.Vector3(10, 0.5, 0), new THREE.Euler(0.5, 0, 0.3), 40, 0.4)
+    const boat = addBox('boat', new THREE.Vector3(1.6, 0.6, 4), new THREE.Vector3(-10, 0, 0), new THREE.Euler(), 150, 0.3)
+    buoyancySystem.addBoat('boat')
+    simulate(8)
+
+    const results: { name: string, passed: boolean, detail: string }[] = []
+
+    // Bottom at y = -draft, so the center sits at 0.5 - density * 1
+    const expectedCrateY = 0.5 - 0.6
+    results.push({
+      name: 'Crate floats at its density',
+      passed: Math.abs(crate.collisionVolume.position.y - expectedCrateY) < 0.05,
+      detail: `y=${crate.collisionVolume.position.y.toFixed(3)}, expected=${expectedCrateY.toFixed(3)}`
+    })
+    results.push({
+      name: 'Crate comes to rest',
+      passed: crate.rigidBody!.velocity.length() < 0.05,
+      detail: `speed=${crate.rigidBody!.velocity.length().toFixed(3)}`
+    })
+
+    const tiltedUp = new THREE.Vector3(0, 1, 0).applyEuler(tilted.collisionVolume.rotation)
+    results.push({
+      name: 'Tilted raft rights itself',
+      passed: tiltedUp.y > 0.99,
+      detail: `up.y=${tiltedUp.y.toFixed(3)}`
+    })
+
+    const start = boat.collisionVolume.position.clone()
+    const vehicle = buoyancySystem.getVehicle('boat')!
+    const input = { forward: true, backward: false, left: false, right: false, jump: false, run: false, camera: false, action: false, crouch: false }
+    vehicle.steer(input)
+    simulate(3)
+    const travelled = boat.collisionVolume.position.clone().sub(start)
+    results.push({
+      name: 'Boat drives towards its bow (-Z)',
+      passed: travelled.z < -3 && Math.abs(travelled.x) < 0.5,
+      detail: `moved=(${travelled.x.toFixed(2)}, ${travelled.z.toFixed(2)})`
+    })
+
+    const heading = new THREE.Vector3(0, 0, -1).applyEuler(boat.collisionVolume.rotation)
+    vehicle.steer({ ...input, right: true })
+    simulate(1.5)
+    const turned = new THREE.Vector3(0, 0, -1).applyEuler(boat.collisionVolume.rotation)
+    const turnDirection = heading.clone().cross(turned).y
+    results.push({
+      name: 'Right rudder turns to starboard',
+      passed: turnDirection < -0.05,
+      detail: `turn=${turnDirection.toFixed(3)}`
+    })
+
+    let ejected = 0
+    const boarded = vehicle.setRider('rider-1', () => ejected++)
+    const secondBoarded = vehicle.setRider('rider-2', () => ejected++)
+    results.push({
+      name: 'One rider per boat',
+      passed: boarded && !secondBoarded,
+      detail: `first=${boarded}, second=${secondBoarded}`
+    })
+
+    buoyancySystem.removeBody('boat')
+    const seat = vehicle.getSeatPosition(new THREE.Vector3())
+    results.push({
+      name: 'Removing the boat ejects its rider',
+      passed: ejected === 1 && seat === null,
+      detail: `ejected=${ejected}, seat=${seat ? 'still there' : 'gone'}`
+    })
+
+    results.forEach(result => {
+      console.log(`${result.passed ? '✅' : '❌'} ${result.name} (${result.detail})`)
+    })
+
+    const passed = results.every(result => result.passed)
+    console.log(passed ? '✅ All buoyancy checks passed' : '❌ Buoyancy test failed')
+    console.groupEnd()
+    return passed
+  }
+
+  private parseCollisionLayer(name: string): CollisionLayer | null {
+    const layer = CollisionLayer[name.toUpperCase() as keyof typeof CollisionLayer]
+    if (layer === undefined) {
+      const names = Object.keys(CollisionLayer).filter(key => isNaN(Number(key))).map(key => key.toLowerCase())
+      console.warn(`❌ Unknown collision layer '${name}'. Available: ${names.join(', ')}`)
+      return null
+    }
+    return layer
+  }
+
   public showLandMeshes(): void {
     console.group('🏔️ Land Meshes in Collision System')
     
@@ -2109,6 +3195,8 @@ export class ConsoleCommands {
           waterColor: { type: 'color', description: 'Shallow water color' },
           deepWaterColor: { type: 'color', description: 'Deep water color' },
           foamColor: { type: 'color', description: 'Foam color' },
+          shallowDepth: { type: 'number', min: 0.5, max: 20, step: 0.5, description: 'Depth of the shallow-water tint', unit: 'units' },
+          shoreFoamWidth: { type: 'number', min: 0, max: 5, step: 0.1, description: 'Shoreline foam reach (water depth)', unit: 'units' },
           transparency: { type: 'number', min: 0, max: 1, step: 0.01, description: 'Water transparency' },
           reflectionStrength: { type: 'number', min: 0, max: 1, step: 0.01, description: 'Reflection strength' }
         },
@@ -2272,7 +3360,8 @@ export class ConsoleCommands {
       console.log(`Land Meshes: ${stats.landMeshes}`)
       console.log(`Cache Size: ${stats.cacheSize}`)
       console.log(`Cache Timeout: ${stats.cacheTimeout}ms`)
-      console.log(`Collision Check Interval: ${stats.collisionCheckInterval}ms`)
+      console.log(`Physics Step: ${stats.physicsTimeStep.toFixed(1)}ms`)
+      console.log(`Rigid Bodies: ${stats.rigidBodies.total} (${stats.rigidBodies.sleeping} sleeping)`)
       console.log(`Max Raycast Distance: ${stats.maxRaycastDistance} units`)
       console.groupEnd()
     }
@@ -2598,7 +3687,7 @@ export class ConsoleCommands {
     // Test ground height at current position
     if (this.app.collisionSystem) {
       const groundHeight = this.app.collisionSystem.getGroundHeight(position.x, position.z)
-      const playerBottomY = position.y - (1.8 / 2 - 0.5) // Player height/2 - radius
+      const playerBottomY = position.y - 1.8 + 0.5 // Eye position - height + radius (bottom cap center)
       const distanceToGround = playerBottomY - groundHeight
       
       console.log(`Ground Height: ${groundHeight.toFixed(2)}`)
@@ -2616,6 +3705,86 @@ export class ConsoleCommands {
     console.groupEnd()
   }
 
+  /**
+   * Deterministic swept collision test: fire a capsule through a thin box in one step.
+   * Runs on its own CollisionSystem so the scene doesn't affect the result.
+   */
+  public testSweptCollision(): boolean {
+    console.group('🎯 Swept Collision Test')
+
+    const collisionSystem = new CollisionSystem()
+    const wall = new THREE.Mesh(new THREE.BoxGeometry(0.05, 4, 4))
+    wall.updateMatrixWorld(true)
+    collisionSystem.registerMesh('thin-wall', wall)
+
+    const radius = 0.5
+    const height = 1.8
+    const from = new THREE.Vector3(-5, 0, 0)
+    const to = new THREE.Vector3(5, 0, 0)
+    collisionSystem.registerObject({
+      id: 'probe',
+      mesh: new THREE.Mesh(),
+      collisionVolume: {
+        type: 'capsule',
+        position: from.clone(),
+        rotation: new THREE.Euler(),
+        dimensions: new THREE.Vector3(radius, height, 0)
+      },
+      isStatic: false
+    })
+
+    // Capsule surface touches the wall face at x = -0.025
+    const expectedTime = (-0.025 - radius - from.x) / (to.x - from.x)
+    const results: { name: string, passed: boolean, detail: string }[] = []
+
+    const discrete = collisionSystem.checkCollision('probe', to)
+    results.push({
+      name: 'Discrete check misses (tunneling case)',
+      passed: !discrete.hasCollision,
+      detail: `hasCollision=${discrete.hasCollision}`
+    })
+
+    const capsuleSweep = collisionSystem.sweepCapsule(from, to, radius, height, 'probe')
+    results.push({
+      name: 'Capsule sweep hits the wall',
+      passed: capsuleSweep.hit && capsuleSweep.objectId === 'thin-wall',
+      detail: `hit=${capsuleSweep.hit}, object=${capsuleSweep.objectId}`
+    })
+    results.push({
+      name: 'Capsule time of impact',
+      passed: Math.abs(capsuleSweep.time - expectedTime) < 0.005,
+      detail: `time=${capsuleSweep.time.toFixed(4)}, expected=${expectedTime.toFixed(4)}`
+    })
+    results.push({
+      name: 'Capsule impact normal faces back along the motion',
+      passed: capsuleSweep.normal.x < -0.99,
+      detail: `normal=(${capsuleSweep.normal.x.toFixed(2)}, ${capsuleSweep.normal.y.toFixed(2)}, ${capsuleSweep.normal.z.toFixed(2)})`
+    })
+
+    const sphereSweep = collisionSystem.sweepSphere(from, to, radius, 'probe')
+    results.push({
+      name: 'Sphere sweep time of impact',
+      passed: sphereSweep.hit && Math.abs(sphereSweep.time - expectedTime) < 0.005,
+      detail: `hit=${sphereSweep.hit}, time=${sphereSweep.time.toFixed(4)}`
+    })
+
+    const missSweep = collisionSystem.sweepCapsule(from, new THREE.Vector3(-5, 0, 10), radius, height, 'probe')
+    results.push({
+      name: 'Sweep parallel to the wall misses',
+      passed: !missSweep.hit && missSweep.time === 1,
+      detail: `hit=${missSweep.hit}`
+    })
+
+    results.forEach(result => {
+      console.log(`${result.passed ? '✅' : '❌'} ${result.name} (${result.detail})`)
+    })
+
+    const passed = results.every(result => result.passed)
+    console.log(passed ? '✅ All swept collision checks passed' : '❌ Swept collision test failed')
+    console.groupEnd()
+    return passed
+  }
+
   // ============================================================================
   // RETRO POST-PROCESSING COMMANDS
   // ============================================================================
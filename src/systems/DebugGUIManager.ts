@@ -7,6 +7,8 @@ import { ConfigManager } from './ConfigManager'
 // import { CameraManager } from './CameraManager' // Unused
 // import { PlayerController } from './PlayerController' // Unused
 import { performanceMonitor } from './PerformanceMonitor'
+import { VIEWPORT_OVERRIDES, type ViewportInfo } from './ViewportManager'
+import { QUALITY_PRESETS } from './OceanReflectionSystem'
 import { logger, LogModule } from './Logger'
 
 export interface DebugGUIConfig {
@@ -26,7 +28,10 @@ export interface SystemReferences {
   collisionSystem?: any
   cameraManager?: any
   playerController?: any
+  viewportManager?: any
   oceanLODSystem?: any
+  oceanReflectionSystem?: any
+  oceanRippleSystem?: any
   landSystem?: any
   sky?: any
   skyConfig?: any
@@ -84,6 +89,7 @@ export class DebugGUIManager {
     this.setupDeviceInfo()
     this.setupAnimationControls()
     this.setupCameraControls()
+    this.setupViewportControls()
     this.setupObjectManagement()
   }
 
@@ -209,9 +215,124 @@ export class DebugGUIManager {
     cameraFolder.add(cameraPersistence, 'Save Camera State')
     cameraFolder.add(cameraPersistence, 'Load Camera State')
     cameraFolder.add(cameraPersistence, 'Clear Camera State')
+    
+    this.setupCameraBookmarks(cameraFolder)
     cameraFolder.open()
   }
 
+  /**
+   * Named camera bookmarks (also on number keys 1-9 in list order)
+   */
+  private setupCameraBookmarks(cameraFolder: GUI): void {
+    const cameraManager = this.systems.cameraManager
+    if (!cameraManager) return
+    
+    const bookmarkFolder = cameraFolder.addFolder('Bookmarks')
+    const state = { name: '', selected: '' }
+    
+    const rebuild = (): void => {
+      bookmarkFolder.controllers.slice().forEach(controller => controller.destroy())
+      
+      const names: string[] = cameraManager.getBookmarks().map((bookmark: { name: string }) => bookmark.name)
+      if (!names.includes(state.selected)) {
+        state.selected = names[0] ?? ''
+      }
+      
+      bookmarkFolder.add(state, 'name').name('Name')
+      bookmarkFolder.add({
+        save: () => {
+          const bookmark = cameraManager.saveBookmark(state.name || undefined)
+          state.selected = bookmark.name
+          state.name = ''
+          logger.info(LogModule.CAMERA, `Camera bookmark "${bookmark.name}" saved`)
+          rebuild()
+        }
+      }, 'save').name('Save Current View')
+      
+      // Bookmarks can also change from the console
+      bookmarkFolder.add({ refresh: rebuild }, 'refresh').name('Refresh List')
+      
+      if (names.length === 0) return
+      
+      bookmarkFolder.add(state, 'selected', names).name('Bookmark')
+      bookmarkFolder.add({
+        goTo: () => cameraManager.goToBookmark(state.selected)
+      }, 'goTo').name('Go To')
+      bookmarkFolder.add({
+        rename: () => {
+          if (cameraManager.renameBookmark(state.selected, state.name)) {
+            logger.info(LogModule.CAMERA, `Camera bookmark "${state.selected}" renamed to "${state.name}"`)
+            state.selected = state.name
+            state.name = ''
+            rebuild()
+          } else {
+            logger.warn(LogModule.CAMERA, 'Enter an unused name to rename the bookmark')
+          }
+        }
+      }, 'rename').name('Rename To Name')
+      bookmarkFolder.add({
+        delete: () => {
+          cameraManager.deleteBookmark(state.selected)
+          logger.info(LogModule.CAMERA, `Camera bookmark "${state.selected}" deleted`)
+          rebuild()
+        }
+      }, 'delete').name('Delete')
+    }
+    
+    rebuild()
+  }
+
+  /**
+   * Picture-in-picture viewports: camera, override material and rectangle per viewport
+   */
+  private setupViewportControls(): void {
+    const viewportManager = this.systems.viewportManager
+    if (!this.mainGUI || !viewportManager) return
+    
+    const viewportFolder = this.mainGUI.addFolder('🖼️ Viewports')
+    const cameraNames: string[] = viewportManager.getCameraNames()
+    const state = { camera: cameraNames[0] ?? '', depthRange: viewportManager.getDepthRange() }
+    
+    const rebuild = (): void => {
+      viewportFolder.children.slice().forEach(child => child.destroy())
+      
+      viewportFolder.add(state, 'camera', cameraNames).name('Camera')
+      viewportFolder.add({
+        add: () => {
+          viewportManager.addViewport({ camera: state.camera })
+          rebuild()
+        }
+      }, 'add').name('Add Viewport')
+      viewportFolder.add(state, 'depthRange', 10, 2000, 10).name('Depth Range').onChange((value: number) => {
+        viewportManager.setDepthRange(value)
+      })
+      
+      viewportManager.getViewports().forEach((viewport: ViewportInfo) => {
+        const folder = viewportFolder.addFolder(`#${viewport.id}`)
+        // lil-gui edits the copy, changes are pushed back to the manager
+        const apply = () => viewportManager.updateViewport(viewport.id, viewport)
+        folder.add(viewport, 'enabled').name('Visible').onChange(apply)
+        folder.add(viewport, 'camera', cameraNames).name('Camera').onChange(apply)
+        folder.add(viewport, 'override', VIEWPORT_OVERRIDES).name('Override').onChange(apply)
+        folder.add(viewport, 'x', 0, 1, 0.01).name('Left').onChange(apply)
+        folder.add(viewport, 'y', 0, 1, 0.01).name('Top').onChange(apply)
+        folder.add(viewport, 'width', 0.1, 1, 0.01).name('Width').onChange(apply)
+        folder.add(viewport, 'height', 0.1, 1, 0.01).name('Height').onChange(apply)
+        folder.add({
+          remove: () => {
+            viewportManager.removeViewport(viewport.id)
+            rebuild()
+          }
+        }, 'remove').name('Remove')
+      })
+      
+      // Frames can also be dragged and resized on screen
+      viewportFolder.add({ refresh: rebuild }, 'refresh').name('Refresh')
+    }
+    
+    rebuild()
+  }
+
   private setupObjectManagement(): void {
     if (!this.mainGUI || !this.systems.objectManager) return
     
@@ -282,6 +403,10 @@ export class DebugGUIManager {
       waveFolder.add(oceanUniforms.uWindStrength, 'value', 0, 3, 0.1).name('Wind Strength')
       waveFolder.add(oceanUniforms.uWindDirection.value, 'x', -1, 1, 0.1).name('Wind Dir X')
       waveFolder.add(oceanUniforms.uWindDirection.value, 'y', -1, 1, 0.1).name('Wind Dir Z')
+      const waveSettings = { count: this.systems.oceanLODSystem.getWaveCount() }
+      waveFolder.add(waveSettings, 'count', 1, 8, 1).name('Gerstner Waves').onChange((count: number) => {
+        this.systems.oceanLODSystem.setWaveCount(count)
+      })
       waveFolder.open()
       
       // Visual Parameters
@@ -293,6 +418,51 @@ export class DebugGUIManager {
       visualFolder.addColor(oceanUniforms.uFoamColor, 'value').name('Foam Color')
       visualFolder.open()
       
+      // Shoreline (water depth around the land)
+      const shoreFolder = oceanFolder.addFolder('🏖️ Shoreline')
+      shoreFolder.add(oceanUniforms.uShallowDepth, 'value', 0.5, 20, 0.5).name('Shallow Depth')
+      shoreFolder.add(oceanUniforms.uShoreFoamWidth, 'value', 0, 5, 0.1).name('Foam Width')
+      shoreFolder.add(oceanUniforms.uShoreSoftness, 'value', 0.01, 2, 0.01).name('Edge Softness')
+      
+      // Planar reflection/refraction passes
+      if (this.systems.oceanReflectionSystem) {
+        const reflections = this.systems.oceanReflectionSystem
+        const reflectionFolder = oceanFolder.addFolder('🪞 Reflections')
+        const reflectionSettings = reflections.getConfig()
+        reflectionFolder.add(reflectionSettings, 'enabled').name('Enabled').onChange((enabled: boolean) => {
+          reflections.setConfig({ enabled })
+        })
+        reflectionFolder.add(reflectionSettings, 'quality', QUALITY_PRESETS).name('Quality')
+          .onChange((quality: string) => reflections.setQuality(quality))
+        reflectionFolder.add(reflectionSettings, 'distortion', 0, 0.1, 0.005).name('Distortion').onChange((distortion: number) => {
+          reflections.setConfig({ distortion })
+        })
+        reflectionFolder.add(reflectionSettings, 'skipBelowRetroScale', 0.25, 1, 0.05).name('Skip Below Retro Scale')
+          .onChange((skipBelowRetroScale: number) => reflections.setConfig({ skipBelowRetroScale }))
+      }
+      
+      // Wake/ripple simulation
+      if (this.systems.oceanRippleSystem) {
+        const ripples = this.systems.oceanRippleSystem
+        const rippleFolder = oceanFolder.addFolder('💧 Ripples')
+        const rippleSettings = ripples.getConfig()
+        rippleFolder.add(rippleSettings, 'enabled').name('Enabled').onChange((enabled: boolean) => {
+          ripples.setConfig({ enabled })
+        })
+        rippleFolder.add(rippleSettings, 'strength', 0, 3, 0.1).name('Strength').onChange((strength: number) => {
+          ripples.setConfig({ strength })
+        })
+        rippleFolder.add(rippleSettings, 'sourceStrength', 0, 0.3, 0.01).name('Source Strength')
+          .onChange((sourceStrength: number) => ripples.setConfig({ sourceStrength }))
+        rippleFolder.add(rippleSettings, 'waveSpeed', 0.05, 0.5, 0.01).name('Wave Speed').onChange((waveSpeed: number) => {
+          ripples.setConfig({ waveSpeed })
+        })
+        rippleFolder.add(rippleSettings, 'damping', 0.9, 0.999, 0.001).name('Damping').onChange((damping: number) => {
+          ripples.setConfig({ damping })
+        })
+        rippleFolder.add({ clear: () => ripples.clear() }, 'clear').name('Clear')
+      }
+      
       // Ocean Sun Parameters
       const oceanSunFolder = oceanFolder.addFolder('☀️ Ocean Sun Effects')
       oceanSunFolder.add(oceanUniforms.uSunIntensity, 'value', 0, 3, 0.1).name('Sun Intensity')
@@ -418,7 +588,8 @@ export class DebugGUIManager {
         console.log(`Land Meshes: ${stats.landMeshes}`)
         console.log(`Cache Size: ${stats.cacheSize}`)
         console.log(`Cache Timeout: ${stats.cacheTimeout}ms`)
-        console.log(`Collision Check Interval: ${stats.collisionCheckInterval}ms`)
+        console.log(`Physics Step: ${stats.physicsTimeStep.toFixed(1)}ms`)
+        console.log(`Rigid Bodies: ${stats.rigidBodies.total} (${stats.rigidBodies.sleeping} sleeping)`)
         console.groupEnd()
       },
       'Test Collision': () => {
@@ -528,6 +699,48 @@ export class DebugGUIManager {
       .onChange((value: number) => {
         this.systems.playerController.updateConfig({ airResistance: value })
       })
+    
+    configFolder.add({ maxSlope: config.maxSlope }, 'maxSlope', 0, 89, 1)
+      .name('Max Slope (°)')
+      .onChange((value: number) => {
+        this.systems.playerController.updateConfig({ maxSlope: value })
+      })
+    
+    configFolder.add({ stepHeight: config.stepHeight }, 'stepHeight', 0, 1, 0.05)
+      .name('Step Height')
+      .onChange((value: number) => {
+        this.systems.playerController.updateConfig({ stepHeight: value })
+      })
+    
+    configFolder.add({ maxCarryMass: config.maxCarryMass }, 'maxCarryMass', 0, 100, 1)
+      .name('Max Carry Mass')
+      .onChange((value: number) => {
+        this.systems.playerController.updateConfig({ maxCarryMass: value })
+      })
+    
+    configFolder.add({ throwSpeed: config.throwSpeed }, 'throwSpeed', 0, 40, 0.5)
+      .name('Throw Speed')
+      .onChange((value: number) => {
+        this.systems.playerController.updateConfig({ throwSpeed: value })
+      })
+    
+    configFolder.add({ swimSpeed: config.swimSpeed }, 'swimSpeed', 1, 500, 0.5)
+      .name('Swim Speed')
+      .onChange((value: number) => {
+        this.systems.playerController.updateConfig({ swimSpeed: value })
+      })
+    
+    configFolder.add({ buoyancy: config.buoyancy }, 'buoyancy', 0, 3, 0.05)
+      .name('Buoyancy')
+      .onChange((value: number) => {
+        this.systems.playerController.updateConfig({ buoyancy: value })
+      })
+    
+    configFolder.add({ waterDrag: config.waterDrag }, 'waterDrag', 0, 10, 0.1)
+      .name('Water Drag')
+      .onChange((value: number) => {
+        this.systems.playerController.updateConfig({ waterDrag: value })
+      })
     configFolder.open()
     
     // Player debug controls
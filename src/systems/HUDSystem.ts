@@ -5,6 +5,7 @@
  * - Mode switching interface
  * - Toggle visibility with 'G' key
  * - CSS-styled modern appearance
+ * - One HUD per split-screen viewport
  */
 
 export interface HUDData {
@@ -12,6 +13,7 @@ export interface HUDData {
   position: { x: number; y: number; z: number }
   velocity: { x: number; y: number; z: number }
   onGround: boolean
+  stamina: number // Fraction of max stamina (0-1)
   
   // Input states
   keys: {
@@ -56,8 +58,24 @@ export interface HUDData {
   drawCalls: number
 }
 
+export interface HUDOptions {
+  title?: string // Player panel title (defaults to 'Player Info')
+  showSystemInfo?: boolean // FPS/draw call panel and toggle hint, only needed once on screen
+}
+
+/**
+ * Screen rectangle in CSS pixels, measured from the top-left
+ */
+export interface HUDViewport {
+  left: number
+  top: number
+  width: number
+  height: number
+}
+
 export class HUDSystem {
   private container: HTMLElement
+  private options: Required<HUDOptions>
   private isVisible: boolean = false // Start hidden by default
   private data: Partial<HUDData> = {}
   private updateCallbacks: Map<string, () => void> = new Map()
@@ -74,7 +92,14 @@ export class HUDSystem {
     performanceInfo?: HTMLElement
   } = {}
 
-  constructor() {
+  private boundKeyDown = (e: KeyboardEvent) => {
+    if (e.code === 'KeyG' && !e.repeat) {
+      this.toggle()
+    }
+  }
+
+  constructor(options: HUDOptions = {}) {
+    this.options = { title: 'Player Info', showSystemInfo: true, ...options }
     this.container = this.createHUDContainer()
     this.createHUDElements()
     this.setupEventListeners()
@@ -83,7 +108,7 @@ export class HUDSystem {
     // Hide HUD by default on initialization
     this.container.classList.add('hidden')
     
-    console.log('🖥️ HUD System initialized (hidden by default)')
+    console.log(`🖥️ HUD System initialized (${this.options.title}, hidden by default)`)
   }
 
   /**
@@ -91,7 +116,9 @@ export class HUDSystem {
    */
   private createHUDContainer(): HTMLElement {
     const container = document.createElement('div')
-    container.id = 'hud-container'
+    if (this.options.showSystemInfo) {
+      container.id = 'hud-container'
+    }
     container.className = 'hud-container'
     
     // Insert at the beginning of body to ensure it's on top
@@ -105,10 +132,11 @@ export class HUDSystem {
    */
   private createHUDElements(): void {
     // Player info panel
-    this.elements.playerInfo = this.createPanel('player-info', 'Player Info', [
+    this.elements.playerInfo = this.createPanel('player-info', this.options.title, [
       { id: 'position', label: 'Position', value: '0, 0, 0' },
       { id: 'velocity', label: 'Velocity', value: '0, 0, 0' },
       { id: 'on-ground', label: 'On Ground', value: 'false' },
+      { id: 'stamina', label: 'Stamina', value: '100%' },
       { id: 'terrain-height', label: 'Terrain Height', value: '0.0' }
     ])
 
@@ -125,6 +153,8 @@ export class HUDSystem {
       { id: 'gamepad-triggers', label: 'Triggers L/R', value: '0.0 / 0.0' }
     ])
 
+    if (!this.options.showSystemInfo) return
+
     // System info panel
     this.elements.systemInfo = this.createPanel('system-info', 'System Info', [
       { id: 'fps', label: 'FPS', value: '60' },
@@ -142,8 +172,7 @@ export class HUDSystem {
    */
   private createPanel(id: string, title: string, fields: Array<{id: string, label: string, value: string}>): HTMLElement {
     const panel = document.createElement('div')
-    panel.className = 'hud-panel'
-    panel.id = id
+    panel.className = `hud-panel hud-panel-${id}`
 
     const titleElement = document.createElement('div')
     titleElement.className = 'hud-panel-title'
@@ -163,7 +192,7 @@ export class HUDSystem {
 
       const value = document.createElement('span')
       value.className = 'hud-value'
-      value.id = `hud-${field.id}`
+      value.dataset.hud = field.id
       value.textContent = field.value
 
       row.appendChild(label)
@@ -191,7 +220,11 @@ export class HUDSystem {
    * Setup CSS styles
    */
   private setupStyles(): void {
+    // Shared by every HUD instance
+    if (document.getElementById('hud-styles')) return
+
     const style = document.createElement('style')
+    style.id = 'hud-styles'
     style.textContent = `
       .hud-container {
         position: fixed;
@@ -270,18 +303,18 @@ export class HUDSystem {
       }
 
       /* Panel positioning */
-      #player-info {
+      .hud-panel-player-info {
         top: 20px;
         left: 20px;
       }
 
-      #input-display {
+      .hud-panel-input-display {
         top: 20px;
         left: 250px;
         min-width: 280px; /* Wider for mouse mode text */
       }
 
-      #system-info {
+      .hud-panel-system-info {
         top: 20px;
         right: 20px;
       }
@@ -305,13 +338,13 @@ export class HUDSystem {
           min-width: 150px;
         }
         
-        #input-display {
+        .hud-panel-input-display {
           top: 140px;
           left: 20px;
           min-width: 200px;
         }
         
-        #system-info {
+        .hud-panel-system-info {
           top: 280px;
           left: 20px;
         }
@@ -326,11 +359,7 @@ export class HUDSystem {
    */
   private setupEventListeners(): void {
     // Toggle HUD with 'G' key
-    document.addEventListener('keydown', (e) => {
-      if (e.code === 'KeyG' && !e.repeat) {
-        this.toggle()
-      }
-    })
+    document.addEventListener('keydown', this.boundKeyDown)
 
     // Prevent HUD from interfering with game input
     this.container.addEventListener('keydown', (e) => {
@@ -377,6 +406,11 @@ export class HUDSystem {
         this.data.onGround ? 'good' : 'warning')
     }
     
+    if (this.data.stamina !== undefined) {
+      this.updateElement('stamina', `${Math.round(this.data.stamina * 100)}%`,
+        this.data.stamina > 0.25 ? 'good' : 'warning')
+    }
+    
     if (this.data.terrainHeight !== undefined) {
       this.updateElement('terrain-height', this.data.terrainHeight.toFixed(2))
     }
@@ -486,7 +520,7 @@ export class HUDSystem {
    * Update a specific element
    */
   private updateElement(id: string, value: string, className: string = ''): void {
-    const element = document.getElementById(`hud-${id}`)
+    const element = this.container.querySelector<HTMLElement>(`[data-hud="${id}"]`)
     if (element) {
       element.textContent = value
       element.className = `hud-value ${className}`
@@ -510,6 +544,14 @@ export class HUDSystem {
         return 'Orbit Camera (L: Rotate, R: Pan, Wheel: Zoom)'
       case 'player':
         return 'Look Around (Move: Look, L: Select, R: Context)'
+      case 'third-person':
+        return 'Orbit Player (Move: Look, L: Select, R: Context)'
+      case 'fly':
+        return 'Fly Look (Move: Look, Wheel: Speed)'
+      case 'cinematic':
+        return 'Camera Path Playback (C: Stop)'
+      case 'map':
+        return 'Top-Down Map (L Drag: Pan, Wheel: Zoom)'
       case 'debug':
         return 'Debug View (L: Inspect, R: Measure, Wheel: Zoom)'
       case 'performance':
@@ -557,6 +599,21 @@ export class HUDSystem {
     this.container.classList.add('hidden')
   }
 
+  public isShown(): boolean {
+    return this.isVisible
+  }
+
+  /**
+   * Confine the HUD to part of the screen (a split-screen viewport), or null for the whole window
+   */
+  public setViewport(viewport: HUDViewport | null): void {
+    const style = this.container.style
+    style.left = viewport ? `${viewport.left}px` : ''
+    style.top = viewport ? `${viewport.top}px` : ''
+    style.width = viewport ? `${viewport.width}px` : ''
+    style.height = viewport ? `${viewport.height}px` : ''
+  }
+
   /**
    * Register callback for specific updates
    */
@@ -568,6 +625,7 @@ export class HUDSystem {
    * Cleanup
    */
   public dispose(): void {
+    document.removeEventListener('keydown', this.boundKeyDown)
     if (this.container && this.container.parentNode) {
       this.container.parentNode.removeChild(this.container)
     }
@@ -70,7 +70,8 @@ interface InputState {
     rotation: number
     active: boolean
   }
-  gamepad: GamepadState | null
+  gamepad: GamepadState | null // First connected gamepad
+  gamepads: Map<number, GamepadState> // Every connected gamepad, by index
 }
 
 // Device capability detection
@@ -84,6 +85,17 @@ interface DeviceCapabilities {
   isAppleDevice: boolean
 }
 
+// Processed gamepad input, as sent to player controllers
+interface GamepadPlayerInput {
+  movement: THREE.Vector2
+  camera: THREE.Vector2
+  jump: boolean
+  run: boolean
+  action: boolean
+  crouch: boolean
+  cameraMode: boolean
+}
+
 // Input handler interface - allows for dependency injection pattern
 interface InputHandler {
   handleInput(event: InputEvent, state: Readonly<InputState>): void
@@ -280,17 +292,10 @@ class GamepadInputHandler extends BaseInputHandler {
   public priority = 15 // Higher priority than camera controls
 
   private deadzone = 0.1
-  private previousState: GamepadState | null = null
+  private previousStates: Map<number, GamepadState> = new Map() // Per gamepad, for button edge detection
 
   constructor(
-    private onPlayerInput?: (input: {
-      movement: THREE.Vector2
-      camera: THREE.Vector2
-      jump: boolean
-      run: boolean
-      action: boolean
-      cameraMode: boolean
-    }) => void
+    private onPlayerInput?: (input: GamepadPlayerInput, gamepadIndex: number) => void
   ) {
     super()
   }
@@ -326,6 +331,7 @@ class GamepadInputHandler extends BaseInputHandler {
     const jump = gamepad.buttons.a
     const run = gamepad.buttons.b || gamepad.rt > 0.5 // B button or right trigger
     const action = gamepad.buttons.x
+    const crouch = gamepad.buttons.rs // Right stick press
     const cameraMode = this.wasButtonPressed('y', gamepad) // Y button for camera mode toggle
 
     // Send processed input to player controller
@@ -336,11 +342,12 @@ class GamepadInputHandler extends BaseInputHandler {
         jump,
         run,
         action,
+        crouch,
         cameraMode
-      })
+      }, gamepad.index)
     }
 
-    this.previousState = { ...gamepad }
+    this.previousStates.set(gamepad.index, { ...gamepad })
   }
 
   private applyDeadzone(value: number): number {
@@ -349,7 +356,7 @@ class GamepadInputHandler extends BaseInputHandler {
 
   private wasButtonPressed(button: keyof GamepadState['buttons'], currentState: GamepadState): boolean {
     const current = currentState.buttons[button]
-    const previous = this.previousState?.buttons[button] || false
+    const previous = this.previousStates.get(currentState.index)?.buttons[button] || false
     return current && !previous
   }
 
@@ -418,11 +425,13 @@ export class InputSystem {
     wheelDelta: 0,
     touches: new Map(),
     gesture: { scale: 1, rotation: 0, active: false },
-    gamepad: null
+    gamepad: null,
+    gamepads: new Map()
   }
   private capabilities: DeviceCapabilities
   private boundEventListeners: Map<string, EventListener> = new Map()
   private gamepadPollingInterval: number | null = null
+  private gamepadConnectionListener: ((gamepad: GamepadState, connected: boolean) => void) | null = null
 
   constructor(canvas: HTMLCanvasElement) {
     this.canvas = canvas
@@ -458,15 +467,20 @@ export class InputSystem {
 
   private pollGamepads(): void {
     const gamepads = navigator.getGamepads()
+    const previous = this.state.gamepads
+    this.state.gamepads = new Map()
     
-    // Find the first connected gamepad (typically Xbox controller)
+    // Every connected gamepad is dispatched; handlers tell them apart by index
     for (let i = 0; i < gamepads.length; i++) {
       const gamepad = gamepads[i]
       if (gamepad && gamepad.connected) {
         const gamepadState = this.parseGamepadState(gamepad)
         
         // Update state
-        this.state.gamepad = gamepadState
+        this.state.gamepads.set(gamepadState.index, gamepadState)
+        if (!previous.has(gamepadState.index)) {
+          this.gamepadConnectionListener?.(gamepadState, true)
+        }
         
         // Dispatch gamepad event
         const inputEvent: InputEvent = {
@@ -475,14 +489,17 @@ export class InputSystem {
         }
         
         this.dispatchToHandlers(inputEvent)
-        break // Use first connected gamepad only
       }
     }
     
-    // If no gamepad found, clear state
-    if (!this.state.gamepad?.connected) {
-      this.state.gamepad = null
+    for (const [index, gamepadState] of previous) {
+      if (!this.state.gamepads.has(index)) {
+        this.gamepadConnectionListener?.({ ...gamepadState, connected: false }, false)
+      }
     }
+    
+    // First connected gamepad, or null if none
+    this.state.gamepad = this.state.gamepads.values().next().value ?? null
   }
 
   private parseGamepadState(gamepad: Gamepad): GamepadState {
@@ -730,14 +747,7 @@ export class InputSystem {
   }
 
   public createGamepadHandler(
-    onPlayerInput?: (input: {
-      movement: THREE.Vector2
-      camera: THREE.Vector2
-      jump: boolean
-      run: boolean
-      action: boolean
-      cameraMode: boolean
-    }) => void
+    onPlayerInput?: (input: GamepadPlayerInput, gamepadIndex: number) => void
   ): GamepadInputHandler {
     return new GamepadInputHandler(onPlayerInput)
   }
@@ -762,12 +772,29 @@ export class InputSystem {
     return this.state.touches.size
   }
 
-  public getGamepadState(): GamepadState | null {
-    return this.state.gamepad
+  /**
+   * Get a gamepad's state by index, or the first connected gamepad
+   */
+  public getGamepadState(index?: number): GamepadState | null {
+    if (index === undefined) {
+      return this.state.gamepad
+    }
+    return this.state.gamepads.get(index) ?? null
+  }
+
+  public isGamepadConnected(index?: number): boolean {
+    return this.getGamepadState(index)?.connected || false
+  }
+
+  public getConnectedGamepads(): GamepadState[] {
+    return Array.from(this.state.gamepads.values())
   }
 
-  public isGamepadConnected(): boolean {
-    return this.state.gamepad?.connected || false
+  /**
+   * Be notified when a gamepad connects or disconnects (detected while polling)
+   */
+  public setGamepadConnectionListener(listener: ((gamepad: GamepadState, connected: boolean) => void) | null): void {
+    this.gamepadConnectionListener = listener
   }
 
   // Cleanup
@@ -800,7 +827,8 @@ export type {
   InputState,
   DeviceCapabilities,
   InputHandler,
-  GamepadState
+  GamepadState,
+  GamepadPlayerInput
 }
 export {
   BaseInputHandler,
@@ -0,0 +1,421 @@
+import * as THREE from 'three'
+import { MAP_MARKER_LAYER, type CameraManager } from './CameraManager'
+import type { CollisionSystem } from './CollisionSystem'
+import { logger, LogModule } from './Logger'
+
+const OCEAN_COLOR = 0x4ab3ff
+const LAND_COLOR = 0xe8c872
+const OBJECT_COLOR = 0xffffff
+const LOCKED_OBJECT_COLOR = 0xff5050
+const PLAYER_COLOR = 0xffe14a
+
+// Marker sizes in screen pixels, so they read the same at every zoom
+const OBJECT_DOT_RADIUS = 3
+const PLAYER_ARROW_SIZE = 9
+
+const TELEPORT_HEIGHT = 2.5 // Player position above the ground after a minimap teleport (eye height plus a short drop)
+
+export interface MinimapConfig {
+  enabled: boolean
+  size: number // Side of the square overlay, in CSS pixels
+  range: number // Half the world width shown
+  updateInterval: number // Re-render the map every N frames (the overlay is drawn every frame)
+  followPlayer: boolean // Center on the player instead of the map camera's view
+  margin: number // Gap to the bottom-left corner of the screen
+}
+
+export interface MapObjectFeature {
+  object: THREE.Object3D
+  locked: boolean
+}
+
+/**
+ * Where the map markers come from; the app owns the ocean, land and object systems
+ */
+export interface MapFeatureSource {
+  getOceanMeshes(): THREE.Object3D[] // Only visible ones get an outline
+  getLandMeshes(): THREE.Object3D[]
+  getObjects(): MapObjectFeature[]
+}
+
+export interface MinimapDependencies {
+  scene: THREE.Scene
+  renderer: THREE.WebGLRenderer
+  cameraManager: CameraManager
+  collisionSystem: CollisionSystem
+}
+
+/**
+ * Top-down map overlays: markers for the ocean, land pieces, objects and the player (drawn on
+ * MAP_MARKER_LAYER, so only the map cameras see them), and a corner minimap that renders the
+ * map camera's view into a texture every few frames. Clicking the minimap moves the system
+ * camera's target there, or teleports the player in the other modes.
+ */
+export class MinimapSystem {
+  private deps: MinimapDependencies
+  private config: MinimapConfig = {
+    enabled: true,
+    size: 200,
+    range: 40,
+    updateInterval: 10,
+    followPlayer: true,
+    margin: 20
+  }
+
+  private featureSource: MapFeatureSource | null = null
+
+  // Markers (pooled, hidden when unused)
+  private markers: THREE.Group = new THREE.Group()
+  private outlines: THREE.LineLoop[] = []
+  private fills: THREE.Mesh[] = []
+  private dots: THREE.Mesh[] = []
+  private playerArrow: THREE.Mesh
+  private outlineGeometry: THREE.BufferGeometry
+  private fillGeometry: THREE.BufferGeometry
+  private dotGeometry: THREE.BufferGeometry
+  private materials: {
+    ocean: THREE.LineBasicMaterial
+    land: THREE.LineBasicMaterial
+    landFill: THREE.MeshBasicMaterial
+    object: THREE.MeshBasicMaterial
+    lockedObject: THREE.MeshBasicMaterial
+    player: THREE.MeshBasicMaterial
+  }
+
+  // Minimap rendering
+  private camera: THREE.OrthographicCamera = new THREE.OrthographicCamera(-1, 1, 1, -1)
+  private target: THREE.WebGLRenderTarget | null = null
+  private blitScene: THREE.Scene = new THREE.Scene()
+  private blitCamera: THREE.OrthographicCamera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1)
+  private blitMaterial: THREE.MeshBasicMaterial
+  private frameCount: number = 0
+  private element: HTMLDivElement
+  private boundClick = (event: MouseEvent) => this.onClick(event)
+
+  constructor(deps: MinimapDependencies) {
+    this.deps = deps
+
+    const marker = (color: number, opacity: number = 1) => new THREE.MeshBasicMaterial({
+      color, transparent: true, opacity, depthTest: false, depthWrite: false
+    })
+    const line = (color: number) => new THREE.LineBasicMaterial({
+      color, transparent: true, depthTest: false, depthWrite: false
+    })
+    this.materials = {
+      ocean: line(OCEAN_COLOR),
+      land: line(LAND_COLOR),
+      landFill: marker(LAND_COLOR, 0.25),
+      object: marker(OBJECT_COLOR),
+      lockedObject: marker(LOCKED_OBJECT_COLOR),
+      player: marker(PLAYER_COLOR)
+    }
+
+    // Unit shapes lying flat on the ground (XZ), scaled per marker
+    this.outlineGeometry = new THREE.BufferGeometry().setFromPoints([
+      new THREE.Vector3(-0.5, 0, -0.5),
+      new THREE.Vector3(0.5, 0, -0.5),
+      new THREE.Vector3(0.5, 0, 0.5),
+      new THREE.Vector3(-0.5, 0, 0.5)
+    ])
+    this.fillGeometry = new THREE.PlaneGeometry(1, 1).rotateX(-Math.PI / 2)
+    this.dotGeometry = new THREE.CircleGeometry(1, 12).rotateX(-Math.PI / 2)
+
+    // Arrow pointing down -Z, the way an unrotated camera looks
+    const arrowShape = new THREE.Shape()
+    arrowShape.moveTo(0, 1)
+    arrowShape.lineTo(0.7, -0.8)
+    arrowShape.lineTo(0, -0.4)
+    arrowShape.lineTo(-0.7, -0.8)
+    arrowShape.closePath()
+    this.playerArrow = this.createMarker(
+      new THREE.Mesh(new THREE.ShapeGeometry(arrowShape).rotateX(-Math.PI / 2), this.materials.player)
+    )
+    this.playerArrow.renderOrder += 1 // Above the object dots
+
+    this.markers.name = 'MapMarkers'
+    this.deps.scene.add(this.markers)
+
+    // Minimap overlay: a textured quad drawn into the corner viewport
+    this.camera.copy(this.deps.cameraManager.getMapCamera())
+    this.blitMaterial = new THREE.MeshBasicMaterial({ depthTest: false, depthWrite: false })
+    this.blitScene.add(new THREE.Mesh(new THREE.PlaneGeometry(2, 2), this.blitMaterial))
+
+    // The frame on top of it takes the clicks, so they never reach the canvas
+    this.element = document.createElement('div')
+    this.element.id = 'minimap-frame'
+    this.element.title = 'Click to move the camera target (system camera) or teleport the player'
+    this.element.style.cssText = `
+      position: fixed;
+      box-sizing: border-box;
+      border: 2px solid rgba(0, 255, 0, 0.5);
+      border-radius: 4px;
+      cursor: crosshair;
+      z-index: 1000;
+    `
+    this.element.addEventListener('click', this.boundClick)
+    document.body.appendChild(this.element)
+    this.updateElement()
+  }
+
+  /**
+   * Set where the ocean, land and object markers come from
+   */
+  public setFeatureSource(source: MapFeatureSource | null): void {
+    this.featureSource = source
+  }
+
+  // ============================================================================
+  // MARKERS
+  // ============================================================================
+
+  private createMarker<T extends THREE.Mesh | THREE.LineLoop>(object: T): T {
+    object.layers.set(MAP_MARKER_LAYER)
+    object.renderOrder = 1000
+    object.frustumCulled = false
+    this.markers.add(object)
+    return object
+  }
+
+  private getPooled<T extends THREE.Mesh | THREE.LineLoop>(pool: T[], index: number, create: () => T): T {
+    if (!pool[index]) {
+      pool[index] = this.createMarker(create())
+    }
+    pool[index].visible = true
+    return pool[index]
+  }
+
+  /**
+   * Rebuild the markers from the feature source
+   * @param worldPerPixel - Scale of the view they'll be seen in (keeps dots and the arrow a fixed pixel size)
+   */
+  private updateMarkers(worldPerPixel: number): void {
+    let outlineCount = 0
+    let fillCount = 0
+    let dotCount = 0
+    const box = new THREE.Box3()
+    const size = new THREE.Vector3()
+    const center = new THREE.Vector3()
+
+    const addRect = (object: THREE.Object3D, material: THREE.LineBasicMaterial, fill: boolean) => {
+      box.setFromObject(object)
+      if (box.isEmpty()) return
+      box.getSize(size)
+      box.getCenter(center)
+
+      const outline = this.getPooled(this.outlines, outlineCount++, () => new THREE.LineLoop(this.outlineGeometry, material))
+      outline.material = material
+      outline.position.set(center.x, 0, center.z)
+      outline.scale.set(Math.max(size.x, 0.01), 1, Math.max(size.z, 0.01))
+
+      if (fill) {
+        const area = this.getPooled(this.fills, fillCount++, () => new THREE.Mesh(this.fillGeometry, this.materials.landFill))
+        area.position.copy(outline.position)
+        area.scale.copy(outline.scale)
+      }
+    }
+
+    if (this.featureSource) {
+      this.featureSource.getOceanMeshes().forEach(mesh => {
+        if (mesh.visible) addRect(mesh, this.materials.ocean, false)
+      })
+      this.featureSource.getLandMeshes().forEach(mesh => addRect(mesh, this.materials.land, true))
+
+      const dotScale = OBJECT_DOT_RADIUS * worldPerPixel
+      this.featureSource.getObjects().forEach(({ object, locked }) => {
+        box.setFromObject(object)
+        if (box.isEmpty()) return
+        box.getCenter(center)
+
+        const dot = this.getPooled(this.dots, dotCount++, () => new THREE.Mesh(this.dotGeometry, this.materials.object))
+        dot.material = locked ? this.materials.lockedObject : this.materials.object
+        dot.position.set(center.x, 0, center.z)
+        dot.scale.setScalar(dotScale)
+      })
+    }
+
+    for (let i = outlineCount; i < this.outlines.length; i++) this.outlines[i].visible = false
+    for (let i = fillCount; i < this.fills.length; i++) this.fills[i].visible = false
+    for (let i = dotCount; i < this.dots.length; i++) this.dots[i].visible = false
+
+    // Player: position and heading of the first-person view
+    const { cameraManager } = this.deps
+    const playerPosition = cameraManager.getPlayerPosition()
+    const heading = new THREE.Euler().setFromQuaternion(cameraManager.getPlayerCamera().quaternion, 'YXZ').y
+    this.playerArrow.position.set(playerPosition.x, 0, playerPosition.z)
+    this.playerArrow.rotation.y = heading
+    this.playerArrow.scale.setScalar(PLAYER_ARROW_SIZE * worldPerPixel)
+  }
+
+  // ============================================================================
+  // UPDATE AND RENDERING
+  // ============================================================================
+
+  /**
+   * Refresh the markers for the map camera when it's the main view (call once per frame before rendering)
+   */
+  public update(): void {
+    const { cameraManager } = this.deps
+    const inMapMode = cameraManager.getCurrentMode() === 'map'
+    this.element.style.display = this.config.enabled && !inMapMode ? 'block' : 'none'
+
+    if (inMapMode) {
+      const { halfHeight } = cameraManager.getMapView()
+      this.updateMarkers((halfHeight * 2) / Math.max(window.innerHeight, 1))
+    }
+  }
+
+  /**
+   * Draw the minimap into its corner (after the main view has been rendered); the map itself is
+   * only re-rendered every updateInterval frames
+   */
+  public render(): void {
+    const { renderer, cameraManager } = this.deps
+    if (!this.config.enabled || cameraManager.getCurrentMode() === 'map') return
+
+    const pixelSize = Math.round(this.config.size * renderer.getPixelRatio())
+    if (!this.target || this.target.width !== pixelSize) {
+      this.target?.dispose()
+      this.target = new THREE.WebGLRenderTarget(pixelSize, pixelSize)
+      this.blitMaterial.map = this.target.texture
+      this.blitMaterial.needsUpdate = true
+      this.frameCount = 0
+    }
+
+    if (this.frameCount % Math.max(1, Math.round(this.config.updateInterval)) === 0) {
+      this.renderMap()
+    }
+    this.frameCount++
+
+    const { size, margin } = this.config
+    renderer.setScissorTest(true)
+    renderer.setViewport(margin, margin, size, size)
+    renderer.setScissor(margin, margin, size, size)
+    renderer.render(this.blitScene, this.blitCamera)
+    renderer.setScissorTest(false)
+    renderer.setViewport(0, 0, window.innerWidth, window.innerHeight)
+  }
+
+  private renderMap(): void {
+    const { renderer, scene } = this.deps
+    const center = this.getMapCenter()
+    const range = this.config.range
+
+    this.camera.copy(this.deps.cameraManager.getMapCamera())
+    this.camera.position.set(center.x, this.camera.position.y, center.y)
+    this.camera.left = -range
+    this.camera.right = range
+    this.camera.top = range
+    this.camera.bottom = -range
+    this.camera.updateProjectionMatrix()
+
+    this.updateMarkers((range * 2) / this.config.size)
+
+    const previousTarget = renderer.getRenderTarget()
+    renderer.setRenderTarget(this.target)
+    renderer.render(scene, this.camera)
+    renderer.setRenderTarget(previousTarget)
+  }
+
+  /**
+   * World x/z at the middle of the minimap
+   */
+  private getMapCenter(): THREE.Vector2 {
+    if (this.config.followPlayer) {
+      const position = this.deps.cameraManager.getPlayerPosition()
+      return new THREE.Vector2(position.x, position.z)
+    }
+    const view = this.deps.cameraManager.getMapView()
+    return new THREE.Vector2(view.centerX, view.centerZ)
+  }
+
+  // ============================================================================
+  // CLICKS
+  // ============================================================================
+
+  private onClick(event: MouseEvent): void {
+    // Keep the click away from object picking and the player view's pointer lock
+    event.stopPropagation()
+
+    const rect = this.element.getBoundingClientRect()
+    const point = this.minimapToWorld(
+      (event.clientX - rect.left) / rect.width,
+      (event.clientY - rect.top) / rect.height
+    )
+    this.goTo(point.x, point.z)
+  }
+
+  /**
+   * World point under a spot on the minimap
+   * @param u - 0 at the left edge, 1 at the right
+   * @param v - 0 at the top edge, 1 at the bottom
+   */
+  public minimapToWorld(u: number, v: number): THREE.Vector3 {
+    const center = this.getMapCenter()
+    const range = this.config.range
+    return new THREE.Vector3(center.x + (u * 2 - 1) * range, 0, center.y + (v * 2 - 1) * range)
+  }
+
+  /**
+   * Move the system camera's target to a map position, or teleport the player there in the other modes
+   */
+  public goTo(x: number, z: number): void {
+    const { cameraManager, collisionSystem } = this.deps
+    const ground = collisionSystem.getGroundHeight(x, z)
+
+    if (cameraManager.getCurrentMode() === 'system') {
+      cameraManager.moveSystemTarget(new THREE.Vector3(x, ground, z))
+      logger.info(LogModule.CAMERA, `Camera target moved to (${x.toFixed(1)}, ${z.toFixed(1)})`)
+    } else if (cameraManager.teleportPlayer(new THREE.Vector3(x, ground + TELEPORT_HEIGHT, z))) {
+      logger.info(LogModule.PLAYER, `Player teleported to (${x.toFixed(1)}, ${z.toFixed(1)})`)
+    } else {
+      logger.warn(LogModule.CAMERA, 'Minimap teleport needs a player teleporter')
+    }
+    this.frameCount = 0 // Show the new spot right away
+  }
+
+  // ============================================================================
+  // CONFIGURATION
+  // ============================================================================
+
+  public setConfig(config: Partial<MinimapConfig>): void {
+    this.config = { ...this.config, ...config }
+    this.config.size = Math.max(32, Math.round(this.config.size))
+    this.config.range = Math.max(1, this.config.range)
+    this.frameCount = 0
+    this.updateElement()
+  }
+
+  public getConfig(): MinimapConfig {
+    return { ...this.config }
+  }
+
+  public setEnabled(enabled: boolean): void {
+    this.setConfig({ enabled })
+  }
+
+  public isEnabled(): boolean {
+    return this.config.enabled
+  }
+
+  private updateElement(): void {
+    const { enabled, size, margin } = this.config
+    this.element.style.left = `${margin}px`
+    this.element.style.bottom = `${margin}px`
+    this.element.style.width = `${size}px`
+    this.element.style.height = `${size}px`
+    this.element.style.display = enabled && this.deps.cameraManager.getCurrentMode() !== 'map' ? 'block' : 'none'
+  }
+
+  public dispose(): void {
+    this.element.removeEventListener('click', this.boundClick)
+    this.element.remove()
+    this.deps.scene.remove(this.markers)
+    this.outlineGeometry.dispose()
+    this.fillGeometry.dispose()
+    this.dotGeometry.dispose()
+    this.playerArrow.geometry.dispose()
+    Object.values(this.materials).forEach(material => material.dispose())
+    this.blitMaterial.dispose()
+    this.target?.dispose()
+  }
+}
@@ -1,8 +1,10 @@
 import * as THREE from 'three'
 import { ObjectManager } from './ObjectManager'
 import { AnimationSystem } from './AnimationSystem'
+import { CollisionSystem, CollisionLayer, TriggerFilter } from './CollisionSystem'
 import { SHADERS, ShaderPath } from '../shaderImports'
 import objectPositionsConfig from '../config/objectPositions.json'
+import sceneTriggersConfig from '../config/sceneTriggers.json'
 
 // Shader loader utility
 interface ShaderConfig {
@@ -105,9 +107,29 @@ export class Easing {
   static easeInOutQuad = (t: number): number => t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t
 }
 
+// Trigger volume configuration
+export interface TriggerConfig {
+  id: string
+  shape: {
+    type: 'box' | 'sphere' | 'capsule'
+    size: number[] // Box: [width, height, depth]; sphere: [radius]; capsule: [radius, height]
+  }
+  transform: {
+    position: [number, number, number]
+    rotation?: [number, number, number]
+  }
+  filter?: {
+    layers?: string[] // CollisionLayer names, e.g. ["PLAYER"]
+    objectIds?: string[]
+  }
+  log?: boolean // Log enter/exit events to the console
+  debugColor?: number
+}
+
 // Scene configuration
 export interface SceneConfig {
   objects: ObjectConfig[]
+  triggers?: TriggerConfig[]
   environment?: {
     backgroundColor?: number
     fog?: {
@@ -123,11 +145,15 @@ export class ObjectLoader {
   private static animationSystem: AnimationSystem
   private static objectManager: ObjectManager
   private static scene: THREE.Scene
+  private static collisionSystem: CollisionSystem | null = null
+  private static triggerWireframes: Map<string, THREE.Object3D> = new Map()
+  private static triggerDebugVisible: boolean = false
 
-  public static initialize(scene: THREE.Scene, objectManager: ObjectManager, animationSystem: AnimationSystem): void {
+  public static initialize(scene: THREE.Scene, objectManager: ObjectManager, animationSystem: AnimationSystem, collisionSystem?: CollisionSystem): void {
     this.scene = scene
     this.objectManager = objectManager
     this.animationSystem = animationSystem
+    this.collisionSystem = collisionSystem ?? null
   }
 
   // Load all objects from configuration
@@ -143,6 +169,36 @@ export class ObjectLoader {
     }
     
     console.log(`✅ Loaded ${config.objects.length} objects from configuration`)
+
+    if (config.triggers) {
+      this.loadTriggersFromConfig(config.triggers)
+    }
+  }
+
+  // Register trigger volumes with the collision system
+  public static loadTriggersFromConfig(triggers: TriggerConfig[]): void {
+    if (!this.collisionSystem) {
+      console.warn('⚠️ No collision system available, skipping trigger volumes')
+      return
+    }
+
+    for (const triggerConfig of triggers) {
+      try {
+        this.createTriggerFromConfig(triggerConfig)
+      } catch (error) {
+        console.error(`❌ Failed to create trigger ${triggerConfig.id}:`, error)
+      }
+    }
+
+    console.log(`✅ Loaded ${triggers.length} trigger volumes from configuration`)
+  }
+
+  // Show or hide the debug wireframes of config-loaded triggers
+  public static setTriggerDebugVisible(visible: boolean): void {
+    this.triggerDebugVisible = visible
+    this.triggerWireframes.forEach(wireframe => {
+      wireframe.visible = visible
+    })
   }
 
   // Load default scene objects
@@ -154,6 +210,9 @@ export class ObjectLoader {
       this.loadShaderObjects(),
       this.loadHologramObject()
     ])
+
+    // Trigger volumes from the committed scene config
+    this.loadTriggersFromConfig((sceneTriggersConfig as unknown as SceneConfig).triggers ?? [])
     
     console.log('✅ Default scene objects loaded')
   }
@@ -221,6 +280,60 @@ export class ObjectLoader {
     console.log(`✅ Created object: ${config.id}`)
   }
 
+  // Create trigger volume from configuration
+  private static createTriggerFromConfig(config: TriggerConfig): void {
+    const collisionSystem = this.collisionSystem!
+    const [a = 1, b = a, c = a] = config.shape.size
+    const dimensions = config.shape.type === 'box'
+      ? new THREE.Vector3(a, b, c)
+      : new THREE.Vector3(a, config.shape.type === 'capsule' ? b : 0, 0)
+
+    const filter: TriggerFilter = {}
+    if (config.filter?.layers) {
+      filter.mask = config.filter.layers.reduce((mask, name) => {
+        const layer = CollisionLayer[name.toUpperCase() as keyof typeof CollisionLayer]
+        if (layer === undefined) {
+          throw new Error(`Unknown collision layer: ${name}`)
+        }
+        return mask | layer
+      }, 0)
+    }
+    if (config.filter?.objectIds) {
+      filter.objectIds = config.filter.objectIds
+    }
+
+    const collisionVolume = {
+      type: config.shape.type,
+      position: new THREE.Vector3(...config.transform.position),
+      rotation: new THREE.Euler(...(config.transform.rotation ?? [0, 0, 0])),
+      dimensions
+    }
+
+    collisionSystem.registerTrigger({
+      id: config.id,
+      collisionVolume,
+      filter,
+      onEnter: config.log ? event => console.log(`🚪 ${event.objectId} entered trigger ${event.triggerId}`) : undefined,
+      onExit: config.log ? event => console.log(`🚪 ${event.objectId} left trigger ${event.triggerId}`) : undefined
+    })
+
+    // Replace any wireframe left from a previous load of the same trigger
+    const previous = this.triggerWireframes.get(config.id)
+    if (previous) {
+      this.scene.remove(previous)
+    }
+
+    const wireframe = collisionSystem.createDebugWireframe(collisionVolume, config.debugColor ?? 0xffaa00)
+    wireframe.position.copy(collisionVolume.position)
+    wireframe.rotation.copy(collisionVolume.rotation)
+    wireframe.visible = this.triggerDebugVisible
+    wireframe.userData = { triggerId: config.id }
+    this.scene.add(wireframe)
+    this.triggerWireframes.set(config.id, wireframe)
+
+    console.log(`✅ Created trigger: ${config.id}`)
+  }
+
   // Create geometry from configuration
   private static createGeometry(geometryConfig: ObjectConfig['geometry']): THREE.BufferGeometry {
     const { type, params = [] } = geometryConfig
@@ -0,0 +1,298 @@
+import * as THREE from 'three'
+import type { QualityPreset } from './LODSystem'
+import type { RetroPostProcessingSystem } from './RetroPostProcessingSystem'
+import { logger, LogModule } from './Logger'
+
+/**
+ * What the reflection pass does at a quality preset
+ */
+export interface ReflectionQualitySettings {
+  reflection: boolean
+  refraction: boolean
+  resolutionScale: number // Of the drawing buffer
+  updateInterval: number // Frames between re-renders for an unchanged camera
+}
+
+export const REFLECTION_QUALITY: Record<QualityPreset, ReflectionQualitySettings> = {
+  ultra: { reflection: true, refraction: true, resolutionScale: 0.75, updateInterval: 1 },
+  high: { reflection: true, refraction: true, resolutionScale: 0.5, updateInterval: 1 },
+  medium: { reflection: true, refraction: false, resolutionScale: 0.5, updateInterval: 1 },
+  low: { reflection: true, refraction: false, resolutionScale: 0.25, updateInterval: 2 },
+  potato: { reflection: false, refraction: false, resolutionScale: 0.25, updateInterval: 4 }
+}
+
+export const QUALITY_PRESETS: QualityPreset[] = ['ultra', 'high', 'medium', 'low', 'potato']
+
+export interface OceanReflectionConfig {
+  enabled: boolean
+  quality: QualityPreset
+  distortion: number // How far the wave normals bend the reflected/refracted image (UV units)
+  skipBelowRetroScale: number // Skip the pass while retro post-processing renders below this resolution scale
+}
+
+export interface OceanReflectionDependencies {
+  renderer: THREE.WebGLRenderer
+  scene: THREE.Scene
+  retroPostProcessing: RetroPostProcessingSystem | null
+}
+
+const CLIP_BIAS = 0.05 // Keeps the water line itself out of the clipped passes
+
+/**
+ * Planar reflection and refraction for the ocean. Whenever a perspective camera is about to draw
+ * an ocean ring, the scene (without the ocean) is rendered into half-resolution targets: once
+ * from the camera mirrored across the water plane and once from the camera itself, both with an
+ * oblique near plane that clips away everything on the wrong side of the water. The ocean shader
+ * projects its surface into the targets and offsets the lookup by the wave normal.
+ *
+ * Running from onBeforeRender means every view (split-screen players, picture-in-picture) gets
+ * passes that match its own camera. Views the pass can't serve fall back to the shader's flat
+ * sky tint.
+ */
+export class OceanReflectionSystem {
+  private deps: OceanReflectionDependencies
+  private config: OceanReflectionConfig = {
+    enabled: true,
+    quality: 'high',
+    distortion: 0.03,
+    skipBelowRetroScale: 0.5
+  }
+
+  private uniforms: { [key: string]: { value: any } } | null = null
+  private oceanMeshes: THREE.Mesh[] = []
+  private reflectionTarget: THREE.WebGLRenderTarget
+  private refractionTarget: THREE.WebGLRenderTarget
+  private reflectionCamera: THREE.PerspectiveCamera = new THREE.PerspectiveCamera()
+  private refractionCamera: THREE.PerspectiveCamera = new THREE.PerspectiveCamera()
+  private planeHeight: number
+
+  private frame: number = 0
+  private lastCamera: THREE.Camera | null = null
+  private lastRenderFrame: number = -Infinity
+  private rendering: boolean = false
+
+  // Scratch objects
+  private bufferSize: THREE.Vector2 = new THREE.Vector2()
+  private cameraPosition: THREE.Vector3 = new THREE.Vector3()
+  private lookTarget: THREE.Vector3 = new THREE.Vector3()
+  private planeNormal: THREE.Vector3 = new THREE.Vector3(0, 1, 0)
+  private planePoint: THREE.Vector3 = new THREE.Vector3()
+  private clipNormal: THREE.Vector3 = new THREE.Vector3()
+  private rotation: THREE.Matrix4 = new THREE.Matrix4()
+  private clipPlane: THREE.Plane = new THREE.Plane()
+  private clipVector: THREE.Vector4 = new THREE.Vector4()
+  private q: THREE.Vector4 = new THREE.Vector4()
+
+  constructor(deps: OceanReflectionDependencies, planeHeight: number) {
+    this.deps = deps
+    this.planeHeight = planeHeight
+    this.reflectionTarget = new THREE.WebGLRenderTarget(1, 1)
+    this.refractionTarget = new THREE.WebGLRenderTarget(1, 1)
+  }
+
+  /**
+   * Hook the passes onto the ocean meshes; the uniforms are the ones their materials share
+   */
+  public attach(meshes: THREE.Mesh[], uniforms: { [key: string]: { value: any } }): void {
+    this.oceanMeshes = meshes
+    this.uniforms = uniforms
+    uniforms.uReflectionMap.value = this.reflectionTarget.texture
+    uniforms.uRefractionMap.value = this.refractionTarget.texture
+    uniforms.uDistortion.value = this.config.distortion
+
+    meshes.forEach(mesh => {
+      mesh.onBeforeRender = (_renderer, scene, camera) => this.prepare(scene, camera)
+    })
+    logger.info(LogModule.RENDERING, `Ocean reflections attached to ${meshes.length} meshes (${this.config.quality})`)
+  }
+
+  /**
+   * Advance the frame counter (call once per frame, before rendering)
+   */
+  public update(): void {
+    this.frame++
+  }
+
+  // ============================================================================
+  // PASSES
+  // ============================================================================
+
+  private prepare(scene: THREE.Scene, camera: THREE.Camera): void {
+    const uniforms = this.uniforms
+    if (!uniforms || this.rendering) return
+
+    const settings = REFLECTION_QUALITY[this.config.quality]
+    const usable = this.isActive() &&
+      camera instanceof THREE.PerspectiveCamera &&
+      scene.overrideMaterial === null &&
+      camera.getWorldPosition(this.cameraPosition).y > this.planeHeight
+    uniforms.uReflectionEnabled.value = usable && settings.reflection ? 1 : 0
+    uniforms.uRefractionEnabled.value = usable && settings.refraction ? 1 : 0
+    if (!usable || (!settings.reflection && !settings.refraction)) return
+
+    // Same camera again this frame (another ring, or a picture-in-picture of the main view)
+    const upToDate = camera === this.lastCamera && this.frame - this.lastRenderFrame < settings.updateInterval
+    if (upToDate) return
+
+    this.lastCamera = camera
+    this.lastRenderFrame = this.frame
+    this.renderPasses(scene, camera as THREE.PerspectiveCamera, settings)
+  }
+
+  private renderPasses(scene: THREE.Scene, camera: THREE.PerspectiveCamera, settings: ReflectionQualitySettings): void {
+    const { renderer } = this.deps
+    const uniforms = this.uniforms!
+
+    renderer.getDrawingBufferSize(this.bufferSize)
+    const width = Math.max(1, Math.round(this.bufferSize.x * settings.resolutionScale))
+    const height = Math.max(1, Math.round(this.bufferSize.y * settings.resolutionScale))
+
+    // Nested render: keep it from recursing into the ocean, or redrawing the shadow maps
+    const previousTarget = renderer.getRenderTarget()
+    const previousShadowUpdate = renderer.shadowMap.autoUpdate
+    const previousXr = renderer.xr.enabled
+    this.rendering = true
+    renderer.shadowMap.autoUpdate = false
+    renderer.xr.enabled = false
+    const visibility = this.oceanMeshes.map(mesh => mesh.visible)
+    this.oceanMeshes.forEach(mesh => { mesh.visible = false })
+
+    camera.updateMatrixWorld()
+
+    if (settings.reflection) {
+      this.positionReflectionCamera(camera)
+      setTextureMatrix(uniforms.uReflectionMatrix.value, this.reflectionCamera)
+      this.clipAgainstWater(this.reflectionCamera, 1, this.planeHeight - CLIP_BIAS)
+      this.renderInto(this.reflectionTarget, width, height, scene, this.reflectionCamera)
+    }
+
+    if (settings.refraction) {
+      // World transform only: the camera may be parented (player, third-person rigs)
+      camera.matrixWorld.decompose(this.refractionCamera.position, this.refractionCamera.quaternion, this.refractionCamera.scale)
+      this.refractionCamera.far = camera.far
+      this.refractionCamera.layers.mask = camera.layers.mask
+      this.refractionCamera.updateMatrixWorld()
+      this.refractionCamera.projectionMatrix.copy(camera.projectionMatrix)
+      setTextureMatrix(uniforms.uRefractionMatrix.value, this.refractionCamera)
+      this.clipAgainstWater(this.refractionCamera, -1, this.planeHeight + CLIP_BIAS)
+      this.renderInto(this.refractionTarget, width, height, scene, this.refractionCamera)
+    }
+
+    this.oceanMeshes.forEach((mesh, i) => { mesh.visible = visibility[i] })
+    renderer.xr.enabled = previousXr
+    renderer.shadowMap.autoUpdate = previousShadowUpdate
+    renderer.setRenderTarget(previousTarget)
+    this.rendering = false
+  }
+
+  private renderInto(target: THREE.WebGLRenderTarget, width: number, height: number, scene: THREE.Scene, camera: THREE.Camera): void {
+    if (target.width !== width || target.height !== height) {
+      target.setSize(width, height)
+    }
+    const { renderer } = this.deps
+    renderer.setRenderTarget(target)
+    renderer.state.buffers.depth.setMask(true) // Transparent ocean passes may have left it off
+    if (renderer.autoClear === false) renderer.clear()
+    renderer.render(scene, camera)
+  }
+
+  /**
+   * Mirror the camera's position, view direction and up vector across the water plane
+   */
+  private positionReflectionCamera(camera: THREE.PerspectiveCamera): void {
+    const mirror = this.reflectionCamera
+    const position = this.cameraPosition.setFromMatrixPosition(camera.matrixWorld)
+
+    this.rotation.extractRotation(camera.matrixWorld)
+    this.lookTarget.set(0, 0, -1).applyMatrix4(this.rotation).add(position)
+
+    mirror.position.copy(position)
+    mirror.position.y = 2 * this.planeHeight - position.y
+    this.lookTarget.y = 2 * this.planeHeight - this.lookTarget.y
+    mirror.up.set(0, 1, 0).applyMatrix4(this.rotation).reflect(this.planeNormal)
+    mirror.lookAt(this.lookTarget)
+    mirror.far = camera.far
+    mirror.layers.mask = camera.layers.mask
+    mirror.updateMatrixWorld()
+    mirror.projectionMatrix.copy(camera.projectionMatrix)
+  }
+
+  /**
+   * Oblique near plane (Lengyel) along the water, so the pass only draws one side of it
+   * @param side - 1 keeps what is above the water, -1 what is below
+   */
+  private clipAgainstWater(camera: THREE.PerspectiveCamera, side: number, height: number): void {
+    camera.updateMatrixWorld()
+    this.planePoint.set(0, height, 0)
+    this.clipPlane.setFromNormalAndCoplanarPoint(this.clipNormal.set(0, side, 0), this.planePoint)
+    this.clipPlane.applyMatrix4(camera.matrixWorldInverse)
+
+    const clip = this.clipVector.set(this.clipPlane.normal.x, this.clipPlane.normal.y, this.clipPlane.normal.z, this.clipPlane.constant)
+    const projection = camera.projectionMatrix.elements
+    this.q.set(
+      (Math.sign(clip.x) + projection[8]) / projection[0],
+      (Math.sign(clip.y) + projection[9]) / projection[5],
+      -1,
+      (1 + projection[10]) / projection[14]
+    )
+    clip.multiplyScalar(2 / clip.dot(this.q))
+    projection[2] = clip.x
+    projection[6] = clip.y
+    projection[10] = clip.z + 1
+    projection[14] = clip.w
+    camera.projectionMatrixInverse.copy(camera.projectionMatrix).invert()
+  }
+
+  // ============================================================================
+  // CONFIGURATION
+  // ============================================================================
+
+  /**
+   * Whether the passes run at all (enabled, the quality preset has any, and retro post-processing
+   * isn't pixelating the view too much for them to show)
+   */
+  public isActive(): boolean {
+    const settings = REFLECTION_QUALITY[this.config.quality]
+    if (!this.config.enabled || (!settings.reflection && !settings.refraction)) return false
+
+    const retro = this.deps.retroPostProcessing?.getConfig()
+    return !(retro?.enabled && retro.resolutionScale < this.config.skipBelowRetroScale)
+  }
+
+  public setQuality(quality: QualityPreset): void {
+    this.setConfig({ quality })
+  }
+
+  public setConfig(config: Partial<OceanReflectionConfig>): void {
+    this.config = { ...this.config, ...config }
+    if (this.uniforms) {
+      this.uniforms.uDistortion.value = this.config.distortion
+    }
+    this.lastCamera = null // Re-render on the next frame
+    logger.info(LogModule.RENDERING, `Ocean reflections: ${this.config.enabled ? this.config.quality : 'off'}`)
+  }
+
+  public getConfig(): OceanReflectionConfig {
+    return { ...this.config }
+  }
+
+  public dispose(): void {
+    this.oceanMeshes.forEach(mesh => { mesh.onBeforeRender = () => {} })
+    this.oceanMeshes = []
+    this.reflectionTarget.dispose()
+    this.refractionTarget.dispose()
+  }
+}
+
+/**
+ * World position to [0, 1] texture coordinates (before the perspective divide) in a camera's target
+ */
+function setTextureMatrix(target: THREE.Matrix4, camera: THREE.Camera): void {
+  target.set(
+    0.5, 0.0, 0.0, 0.5,
+    0.0, 0.5, 0.0, 0.5,
+    0.0, 0.0, 0.5, 0.5,
+    0.0, 0.0, 0.0, 1.0
+  )
+  target.multiply(camera.projectionMatrix).multiply(camera.matrixWorldInverse)
+}
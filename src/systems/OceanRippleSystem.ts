@@ -0,0 +1,375 @@
+import * as THREE from 'three'
+import type { CollisionVolume } from './CollisionSystem'
+import { logger, LogModule } from './Logger'
+
+export interface OceanRippleConfig {
+  enabled: boolean
+  size: number // World units the simulation covers, centred on the camera
+  resolution: number // Texels across
+  stepsPerSecond: number
+  waveSpeed: number // Wave equation coefficient per step (stable up to 0.5)
+  damping: number // Fraction of the height kept each step
+  sourceStrength: number // Units the surface is pushed down per unit an object moves through it
+  strength: number // Scale of the displacement and slope in the ocean shader
+}
+
+/**
+ * Something that stirs the water where it crosses the surface
+ */
+export interface RippleSource {
+  position: THREE.Vector3 // Center
+  radius: number // Horizontal
+  halfHeight: number
+  velocity: THREE.Vector3
+}
+
+const MAX_RIPPLE_SOURCES = 16
+const MAX_STEPS_PER_FRAME = 4
+const MAX_SOURCE_SPEED = 12 // Faster objects (teleports, thrown crates) stir no harder than this
+const MIN_SOURCE_SPEED = 0.05
+
+const simulationVertexShader = `
+  varying vec2 vUv;
+  void main() {
+    vUv = uv;
+    gl_Position = projectionMatrix * modelViewMatrix * vec4(position, 1.0);
+  }
+`
+
+// One wave equation step. Reads and writes r: height, g: previous height, ba: slope (d/dx, d/dz)
+const simulationFragmentShader = `
+  #define MAX_SOURCES ${MAX_RIPPLE_SOURCES}
+  #define PI 3.14159265359
+
+  uniform sampler2D uState;
+  uniform vec2 uTexel; // One texel in UV
+  uniform vec2 uShift; // How far the area moved since the last step, in UV (whole texels)
+  uniform float uTexelSize; // World units per texel
+  uniform float uWaveSpeed;
+  uniform float uDamping;
+  uniform vec4 uSources[MAX_SOURCES]; // xy: center (UV), z: radius (UV), w: depth pushed down this step
+  uniform int uSourceCount;
+
+  varying vec2 vUv;
+
+  // Still water outside the simulated area
+  vec4 state(vec2 uv) {
+    if (any(lessThan(uv, vec2(0.0))) || any(greaterThan(uv, vec2(1.0)))) return vec4(0.0);
+    return texture2D(uState, uv);
+  }
+
+  void main() {
+    // Same world position in the previous state
+    vec2 uv = vUv + uShift;
+    vec4 current = state(uv);
+    float left = state(uv - vec2(uTexel.x, 0.0)).r;
+    float right = state(uv + vec2(uTexel.x, 0.0)).r;
+    float back = state(uv - vec2(0.0, uTexel.y)).r;
+    float front = state(uv + vec2(0.0, uTexel.y)).r;
+
+    float height = current.r;
+    float next = (2.0 * height - current.g + uWaveSpeed * (left + right + back + front - 4.0 * height)) * uDamping;
+
+    for (int i = 0; i < MAX_SOURCES; i++) {
+      if (i >= uSourceCount) break;
+      float d = min(distance(vUv, uSources[i].xy) / uSources[i].z, 1.0);
+      next -= uSources[i].w * (0.5 + 0.5 * cos(PI * d));
+    }
+
+    // Soak up waves at the edge so nothing bounces back off it
+    vec2 edge = abs(vUv * 2.0 - 1.0);
+    next *= 1.0 - smoothstep(0.9, 1.0, max(edge.x, edge.y));
+
+    vec2 slope = vec2(right - left, front - back) / (2.0 * uTexelSize);
+    gl_FragColor = vec4(next, height, slope);
+  }
+`
+
+/**
+ * Wakes and ripples: a height field simulated on the GPU around the camera, ping-ponging between
+ * two render targets. Whatever crosses the water surface (players, floating objects) pushes it
+ * down as it moves, and the wave equation spreads the disturbance out into rings and wakes.
+ *
+ * The area moves with the camera in whole texels, so the content scrolls without smearing. The
+ * ocean shaders read the height for extra displacement and the slope for the normals, fading
+ * both out towards the edge of the area.
+ */
+export class OceanRippleSystem {
+  private renderer: THREE.WebGLRenderer
+  private config: OceanRippleConfig = {
+    enabled: true,
+    size: 64,
+    resolution: 256,
+    stepsPerSecond: 30,
+    waveSpeed: 0.2,
+    damping: 0.985,
+    sourceStrength: 0.08,
+    strength: 1
+  }
+
+  private uniforms: { [key: string]: { value: any } } | null = null
+  private targets: THREE.WebGLRenderTarget[]
+  private current: number = 0
+  private material: THREE.ShaderMaterial
+  private quad: THREE.Mesh
+  private quadScene: THREE.Scene = new THREE.Scene()
+  private quadCamera: THREE.OrthographicCamera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1)
+
+  private sourceProvider: (() => RippleSource[]) | null = null
+  private waterSampler: ((x: number, z: number) => number | null) | null = null
+
+  private center: THREE.Vector2 = new THREE.Vector2()
+  private hasCenter: boolean = false
+  private accumulator: number = 0
+  private activeSources: number = 0
+
+  // Scratch objects
+  private cameraPosition: THREE.Vector3 = new THREE.Vector3()
+  private nextCenter: THREE.Vector2 = new THREE.Vector2()
+  private clearColor: THREE.Color = new THREE.Color()
+
+  constructor(renderer: THREE.WebGLRenderer, config: Partial<OceanRippleConfig> = {}) {
+    this.renderer = renderer
+    this.config = { ...this.config, ...config }
+
+    this.targets = [this.createTarget(), this.createTarget()]
+    this.material = new THREE.ShaderMaterial({
+      vertexShader: simulationVertexShader,
+      fragmentShader: simulationFragmentShader,
+      uniforms: {
+        uState: { value: null },
+        uTexel: { value: new THREE.Vector2() },
+        uShift: { value: new THREE.Vector2() },
+        uTexelSize: { value: 0 },
+        uWaveSpeed: { value: 0 },
+        uDamping: { value: 0 },
+        uSources: { value: Array.from({ length: MAX_RIPPLE_SOURCES }, () => new THREE.Vector4()) },
+        uSourceCount: { value: 0 }
+      },
+      depthTest: false,
+      depthWrite: false
+    })
+    this.quad = new THREE.Mesh(new THREE.PlaneGeometry(2, 2), this.material)
+    this.quad.frustumCulled = false
+    this.quadScene.add(this.quad)
+
+    logger.info(LogModule.RENDERING, `Ocean ripples initialized: ${this.config.resolution}x${this.config.resolution} over ${this.config.size} units`)
+  }
+
+  /**
+   * Feed the simulation into the ocean materials (the uniforms are the ones they share)
+   */
+  public attach(uniforms: { [key: string]: { value: any } }): void {
+    this.uniforms = uniforms
+    this.syncUniforms()
+  }
+
+  /**
+   * Where the players and floating objects are, asked for every frame
+   */
+  public setSourceProvider(provider: (() => RippleSource[]) | null): void {
+    this.sourceProvider = provider
+  }
+
+  /**
+   * Animated water height, so only objects that actually cross the surface stir it
+   */
+  public setWaterSampler(sampler: ((x: number, z: number) => number | null) | null): void {
+    this.waterSampler = sampler
+  }
+
+  // ============================================================================
+  // SIMULATION
+  // ============================================================================
+
+  /**
+   * Step the simulation at its fixed rate around the camera (call once per frame, before rendering)
+   */
+  public update(deltaTime: number, camera: THREE.Camera): void {
+    if (!this.config.enabled || !this.uniforms) return
+
+    const { size, resolution, stepsPerSecond } = this.config
+    const texelSize = size / resolution
+
+    // Snap to whole texels so scrolling never resamples between them
+    camera.getWorldPosition(this.cameraPosition)
+    this.nextCenter.set(
+      Math.round(this.cameraPosition.x / texelSize) * texelSize,
+      Math.round(this.cameraPosition.z / texelSize) * texelSize
+    )
+    if (!this.hasCenter || this.nextCenter.distanceTo(this.center) > size * 0.5) {
+      // First frame, or the camera jumped: nothing of the old area is worth keeping
+      this.clear()
+      this.center.copy(this.nextCenter)
+      this.hasCenter = true
+    }
+
+    this.accumulator += Math.min(deltaTime, 0.25)
+    let steps = Math.floor(this.accumulator * stepsPerSecond)
+    this.accumulator -= steps / stepsPerSecond
+    if (steps > MAX_STEPS_PER_FRAME) {
+      steps = MAX_STEPS_PER_FRAME
+      this.accumulator = 0
+    }
+    if (steps === 0) return
+
+    const uniforms = this.material.uniforms
+    uniforms.uTexel.value.set(1 / resolution, 1 / resolution)
+    uniforms.uTexelSize.value = texelSize
+    uniforms.uWaveSpeed.value = THREE.MathUtils.clamp(this.config.waveSpeed, 0, 0.5)
+    uniforms.uDamping.value = this.config.damping
+    uniforms.uShift.value.subVectors(this.nextCenter, this.center).divideScalar(size)
+    this.center.copy(this.nextCenter)
+    this.activeSources = this.collectSources()
+    uniforms.uSourceCount.value = this.activeSources
+
+    const previousTarget = this.renderer.getRenderTarget()
+    const previousXr = this.renderer.xr.enabled
+    this.renderer.xr.enabled = false
+    for (let step = 0; step < steps; step++) {
+      const source = this.targets[this.current]
+      const destination = this.targets[1 - this.current]
+      uniforms.uState.value = source.texture
+      this.renderer.setRenderTarget(destination)
+      this.renderer.render(this.quadScene, this.quadCamera)
+      this.current = 1 - this.current
+
+      // The area only moves once per frame
+      uniforms.uShift.value.set(0, 0)
+    }
+    this.renderer.xr.enabled = previousXr
+    this.renderer.setRenderTarget(previousTarget)
+
+    this.syncUniforms()
+  }
+
+  /**
+   * Sources that cross the water inside the area, as UV circles with the depth each step pushes down
+   */
+  private collectSources(): number {
+    if (!this.sourceProvider || !this.waterSampler) return 0
+
+    const { size, resolution, stepsPerSecond, sourceStrength } = this.config
+    const minX = this.center.x - size * 0.5
+    const minZ = this.center.y - size * 0.5
+    const minRadius = 1.5 * size / resolution
+    const slots: THREE.Vector4[] = this.material.uniforms.uSources.value
+
+    let count = 0
+    for (const source of this.sourceProvider()) {
+      if (count >= MAX_RIPPLE_SOURCES) break
+
+      const { position, radius, halfHeight, velocity } = source
+      const u = (position.x - minX) / size
+      const v = (position.z - minZ) / size
+      if (u < 0 || v < 0 || u > 1 || v > 1) continue
+
+      const speed = Math.min(velocity.length(), MAX_SOURCE_SPEED)
+      if (speed < MIN_SOURCE_SPEED) continue
+
+      const waterHeight = this.waterSampler(position.x, position.z)
+      if (waterHeight === null || position.y - halfHeight > waterHeight || position.y + halfHeight < waterHeight) continue
+
+      slots[count++].set(u, v, Math.max(radius, minRadius) / size, sourceStrength * speed / stepsPerSecond)
+    }
+    return count
+  }
+
+  /**
+   * Back to still water
+   */
+  public clear(): void {
+    const previousTarget = this.renderer.getRenderTarget()
+    const previousAlpha = this.renderer.getClearAlpha()
+    this.renderer.getClearColor(this.clearColor)
+    this.renderer.setClearColor(0x000000, 0)
+    this.targets.forEach(target => {
+      this.renderer.setRenderTarget(target)
+      this.renderer.clear(true, false, false)
+    })
+    this.renderer.setClearColor(this.clearColor, previousAlpha)
+    this.renderer.setRenderTarget(previousTarget)
+    this.accumulator = 0
+  }
+
+  private syncUniforms(): void {
+    if (!this.uniforms) return
+
+    const { size } = this.config
+    this.uniforms.uRippleMap.value = this.targets[this.current].texture
+    this.uniforms.uRippleStrength.value = this.config.strength
+    this.uniforms.uRippleTexelSize.value = size / this.config.resolution
+    if (this.config.enabled && this.hasCenter) {
+      this.uniforms.uRippleBounds.value.set(this.center.x - size * 0.5, this.center.y - size * 0.5, size, size)
+    } else {
+      this.uniforms.uRippleBounds.value.set(0, 0, 0, 0)
+    }
+  }
+
+  private createTarget(): THREE.WebGLRenderTarget {
+    // Half floats hold small signed heights and filter linearly everywhere
+    return new THREE.WebGLRenderTarget(this.config.resolution, this.config.resolution, {
+      type: THREE.HalfFloatType,
+      format: THREE.RGBAFormat,
+      minFilter: THREE.LinearFilter,
+      magFilter: THREE.LinearFilter,
+      depthBuffer: false
+    })
+  }
+
+  // ============================================================================
+  // CONFIGURATION
+  // ============================================================================
+
+  public setConfig(config: Partial<OceanRippleConfig>): void {
+    const previous = this.config
+    this.config = { ...this.config, ...config }
+
+    if (this.config.resolution !== previous.resolution) {
+      this.targets.forEach(target => target.setSize(this.config.resolution, this.config.resolution))
+    }
+    if (this.config.resolution !== previous.resolution || this.config.size !== previous.size || !this.config.enabled) {
+      this.hasCenter = false // Restart from still water on the next update
+    }
+    this.syncUniforms()
+    logger.info(LogModule.RENDERING, `Ocean ripples: ${this.config.enabled ? `${this.config.resolution}x${this.config.resolution} over ${this.config.size} units` : 'off'}`)
+  }
+
+  public getConfig(): OceanRippleConfig {
+    return { ...this.config }
+  }
+
+  public getStats(): { enabled: boolean, center: { x: number, z: number }, texelSize: number, sources: number } {
+    return {
+      enabled: this.config.enabled,
+      center: { x: this.center.x, z: this.center.y },
+      texelSize: this.config.size / this.config.resolution,
+      sources: this.activeSources
+    }
+  }
+
+  public dispose(): void {
+    if (this.uniforms) {
+      this.uniforms.uRippleMap.value = null
+      this.uniforms.uRippleBounds.value.set(0, 0, 0, 0)
+    }
+    this.targets.forEach(target => target.dispose())
+    this.material.dispose()
+    this.quad.geometry.dispose()
+  }
+}
+
+/**
+ * Ripple source for a collision volume moving at a velocity (boxes count as a circle with the same footprint area)
+ */
+export function createRippleSource(volume: CollisionVolume, velocity: THREE.Vector3): RippleSource {
+  const { dimensions } = volume
+  switch (volume.type) {
+    case 'sphere':
+      return { position: volume.position, radius: dimensions.x, halfHeight: dimensions.x, velocity }
+    case 'capsule':
+      return { position: volume.position, radius: dimensions.x, halfHeight: dimensions.y * 0.5, velocity }
+    default:
+      return { position: volume.position, radius: Math.sqrt(dimensions.x * dimensions.z / Math.PI), halfHeight: dimensions.y * 0.5, velocity }
+  }
+}
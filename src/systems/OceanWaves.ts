@@ -0,0 +1,181 @@
+import * as THREE from 'three'
+
+/**
+ * One Gerstner wave. Steepness is k * amplitude (0 = flat, 1 = crests about to loop over), so
+ * the wave height is steepness * wavelength / 2π.
+ */
+export interface GerstnerWave {
+  direction: THREE.Vector2 // Unit travel direction on the XZ plane (y is world Z)
+  steepness: number
+  wavelength: number // World units between crests
+  speed: number // Phase speed, units per second
+}
+
+/**
+ * The ocean uniforms the waves are generated from
+ */
+export interface OceanWindParams {
+  amplitude: number
+  windDirection: THREE.Vector2
+  windStrength: number
+  waveLength: number
+  waveSpeed: number
+}
+
+/**
+ * Water surface at a world position. Height is the offset from the ocean's rest level.
+ */
+export interface OceanSurfaceSample {
+  height: number
+  normal: THREE.Vector3
+}
+
+export const MAX_GERSTNER_WAVES = 8 // Size of the uniform arrays, MAX_WAVES in ocean-vertex.glsl
+export const DEFAULT_GERSTNER_WAVE_COUNT = 6
+
+const GRAVITY = 9.81
+const LONGEST_WAVELENGTH = 40 // World units per unit of uWaveLength, at wind strength 1
+const LONGEST_AMPLITUDE = 2 // Height of the longest wave per unit of uAmplitude
+const WAVELENGTH_RATIO = 0.62 // Each wave is this much shorter (and lower) than the previous one
+const WAVE_ANGLES = [0, 0.45, -0.6, 0.9, -1.1, 0.25, -0.3, 1.3] // Radians off the wind direction
+const MAX_TOTAL_STEEPNESS = 0.9 // Keeps the summed crests from folding over
+const INVERSION_ITERATIONS = 4
+
+/**
+ * Wind-driven wave spectrum: the longest wave runs with the wind, shorter ones fan out around it.
+ * Stronger wind makes the waves longer and speeds follow deep water dispersion (c = sqrt(g / k)).
+ * Steepness is scaled down as a whole when the amplitude would make the surface fold over.
+ */
+export function generateGerstnerWaves(params: OceanWindParams, count: number = DEFAULT_GERSTNER_WAVE_COUNT): GerstnerWave[] {
+  const waveCount = THREE.MathUtils.clamp(Math.round(count), 1, MAX_GERSTNER_WAVES)
+  const windAngle = params.windDirection.lengthSq() > 0
+    ? Math.atan2(params.windDirection.y, params.windDirection.x)
+    : 0
+  const longest = Math.max(0.1, LONGEST_WAVELENGTH * params.waveLength * (0.5 + 0.5 * params.windStrength))
+
+  const waves: GerstnerWave[] = []
+  for (let i = 0; i < waveCount; i++) {
+    const scale = Math.pow(WAVELENGTH_RATIO, i)
+    const wavelength = longest * scale
+    const k = (2 * Math.PI) / wavelength
+    const angle = windAngle + WAVE_ANGLES[i]
+    waves.push({
+      direction: new THREE.Vector2(Math.cos(angle), Math.sin(angle)),
+      steepness: k * params.amplitude * LONGEST_AMPLITUDE * scale,
+      wavelength,
+      speed: Math.sqrt(GRAVITY / k) * params.waveSpeed
+    })
+  }
+
+  const totalSteepness = waves.reduce((sum, wave) => sum + wave.steepness, 0)
+  if (totalSteepness > MAX_TOTAL_STEEPNESS) {
+    waves.forEach(wave => { wave.steepness *= MAX_TOTAL_STEEPNESS / totalSteepness })
+  }
+  return waves
+}
+
+/**
+ * Read the wind parameters from the ocean shader uniforms
+ */
+export function getOceanWindParams(uniforms: { [key: string]: { value: any } }): OceanWindParams {
+  return {
+    amplitude: uniforms.uAmplitude?.value ?? 0,
+    windDirection: uniforms.uWindDirection?.value ?? new THREE.Vector2(1, 0),
+    windStrength: uniforms.uWindStrength?.value ?? 0,
+    waveLength: uniforms.uWaveLength?.value ?? 1,
+    waveSpeed: uniforms.uWaveSpeed?.value ?? 1
+  }
+}
+
+/**
+ * Write waves into the shader's uniform arrays: uWaves[i] = (dirX, dirZ, steepness, wavelength),
+ * uWaveSpeeds[i] = speed. Unused slots get flat waves.
+ * @returns The wave count for uWaveCount
+ */
+export function packGerstnerWaves(waves: GerstnerWave[], packed: THREE.Vector4[], speeds: number[]): number {
+  const count = Math.min(waves.length, MAX_GERSTNER_WAVES)
+  for (let i = 0; i < MAX_GERSTNER_WAVES; i++) {
+    const wave = waves[i]
+    if (i < count) {
+      packed[i].set(wave.direction.x, wave.direction.y, wave.steepness, wave.wavelength)
+      speeds[i] = wave.speed
+    } else {
+      packed[i].set(1, 0, 0, 1)
+      speeds[i] = 0
+    }
+  }
+  return count
+}
+
+/**
+ * CPU version of ocean-vertex.glsl. Gerstner waves also move the water sideways, so the vertex
+ * that ends up above (x, z) started somewhere else: find it with a few Newton steps (the surface
+ * never folds while the total steepness is below 1), then evaluate the height and analytic normal
+ * there. Keep the two in sync.
+ */
+export function sampleGerstnerWaves(
+  x: number,
+  z: number,
+  time: number,
+  waves: GerstnerWave[],
+  target: OceanSurfaceSample = { height: 0, normal: new THREE.Vector3() }
+): OceanSurfaceSample {
+  let sourceX = x
+  let sourceZ = z
+  for (let iteration = 0; iteration < INVERSION_ITERATIONS; iteration++) {
+    // Horizontal position the source point moves to, and its derivatives
+    let movedX = sourceX, movedZ = sourceZ
+    let dxdx = 1, dxdz = 0, dzdz = 1
+    for (const wave of waves) {
+      const k = (2 * Math.PI) / wave.wavelength
+      const dx = wave.direction.x
+      const dz = wave.direction.y
+      const phase = k * (dx * sourceX + dz * sourceZ - wave.speed * time)
+      const horizontal = (wave.steepness / k) * Math.cos(phase)
+      const slope = wave.steepness * Math.sin(phase)
+      movedX += dx * horizontal
+      movedZ += dz * horizontal
+      dxdx -= slope * dx * dx
+      dxdz -= slope * dx * dz
+      dzdz -= slope * dz * dz
+    }
+
+    // Newton step on moved(source) = (x, z)
+    const errorX = movedX - x
+    const errorZ = movedZ - z
+    const determinant = dxdx * dzdz - dxdz * dxdz
+    if (determinant <= 1e-6) break
+    sourceX -= (dzdz * errorX - dxdz * errorZ) / determinant
+    sourceZ -= (dxdx * errorZ - dxdz * errorX) / determinant
+  }
+
+  // Surface tangents along x and z (derivatives of the displaced position)
+  let height = 0
+  let tangentX = 1, tangentY = 0, tangentZ = 0
+  let bitangentX = 0, bitangentY = 0, bitangentZ = 1
+  for (const wave of waves) {
+    const k = (2 * Math.PI) / wave.wavelength
+    const dx = wave.direction.x
+    const dz = wave.direction.y
+    const phase = k * (dx * sourceX + dz * sourceZ - wave.speed * time)
+    const sin = Math.sin(phase)
+    const cos = Math.cos(phase)
+    const q = wave.steepness
+
+    height += (q / k) * sin
+    tangentX -= q * dx * dx * sin
+    tangentY += q * dx * cos
+    tangentZ -= q * dx * dz * sin
+    bitangentX -= q * dx * dz * sin
+    bitangentY += q * dz * cos
+    bitangentZ -= q * dz * dz * sin
+  }
+
+  target.height = height
+  target.normal.set(
+    bitangentY * tangentZ - bitangentZ * tangentY,
+    bitangentZ * tangentX - bitangentX * tangentZ,
+    bitangentX * tangentY - bitangentY * tangentX
+  ).normalize()
+  return target
+}
@@ -104,6 +104,15 @@ export class ParameterIntegration {
           const deepColor = new THREE.Color(this.parameterManager.getParameter('ocean', 'deepWaterColor'))
           this.systems.oceanSystem.setWaterColors(shallowColor, deepColor)
           break
+        case 'foamColor':
+          this.systems.oceanSystem.setFoamColor(new THREE.Color(value))
+          break
+        case 'shallowDepth':
+          this.systems.oceanSystem.setShallowDepth(value)
+          break
+        case 'shoreFoamWidth':
+          this.systems.oceanSystem.setShoreFoamWidth(value)
+          break
         case 'transparency':
           // Update transparency if method exists
           if (this.systems.oceanSystem.setTransparency) {
@@ -286,8 +295,7 @@ export class ParameterIntegration {
         case 'fov':
           const camera2 = this.systems.cameraManager.getCurrentCamera()
           if (camera2) {
-            camera2.fov = value
-            camera2.updateProjectionMatrix()
+            this.systems.cameraManager.setBaseFov(camera2, value)
           }
           break
         case 'zoom':
@@ -297,6 +305,13 @@ export class ParameterIntegration {
             camera3.updateProjectionMatrix()
           }
           break
+        case 'shakeIntensity':
+        case 'headBobIntensity':
+        case 'landingDipIntensity':
+        case 'fovKickIntensity':
+        case 'reduceMotion':
+          this.systems.cameraManager.setCameraEffectsConfig({ [parameterId]: value })
+          break
         default:
           logger.debug(LogModule.SYSTEM, `Camera parameter ${parameterId} not handled`)
       }
@@ -321,6 +336,13 @@ export class ParameterIntegration {
         case 'height':
         case 'friction':
         case 'airResistance':
+        case 'crouchHeight':
+        case 'crouchSpeed':
+        case 'maxStamina':
+        case 'staminaDrain':
+        case 'staminaRegen':
+        case 'coyoteTime':
+        case 'jumpBufferTime':
           const config: any = {}
           config[parameterId] = value
           this.systems.playerController.updateConfig(config)
@@ -58,6 +58,8 @@ export const DEFAULT_PARAMETER_SETS: Record<ParameterCategory, ParameterSet> = {
       { id: 'waterColor', category: 'ocean', type: 'color', defaultValue: '#006994', currentValue: '#006994', description: 'Shallow water color' },
       { id: 'deepWaterColor', category: 'ocean', type: 'color', defaultValue: '#003366', currentValue: '#003366', description: 'Deep water color' },
       { id: 'foamColor', category: 'ocean', type: 'color', defaultValue: '#ffffff', currentValue: '#ffffff', description: 'Foam color' },
+      { id: 'shallowDepth', category: 'ocean', type: 'number', min: 0.5, max: 20, step: 0.5, defaultValue: 6.0, currentValue: 6.0, description: 'Depth of the shallow-water tint', unit: 'units' },
+      { id: 'shoreFoamWidth', category: 'ocean', type: 'number', min: 0, max: 5, step: 0.1, defaultValue: 1.5, currentValue: 1.5, description: 'Shoreline foam reach (water depth)', unit: 'units' },
       { id: 'transparency', category: 'ocean', type: 'number', min: 0, max: 1, step: 0.01, defaultValue: 0.8, currentValue: 0.8, description: 'Water transparency' },
       { id: 'reflectionStrength', category: 'ocean', type: 'number', min: 0, max: 1, step: 0.01, defaultValue: 0.6, currentValue: 0.6, description: 'Reflection strength' }
     ]
@@ -127,7 +129,12 @@ export const DEFAULT_PARAMETER_SETS: Record<ParameterCategory, ParameterSet> = {
       { id: 'positionY', category: 'camera', type: 'number', min: -50, max: 50, step: 0.1, defaultValue: 5, currentValue: 5, description: 'Camera Y position', unit: 'units' },
       { id: 'positionZ', category: 'camera', type: 'number', min: -50, max: 50, step: 0.1, defaultValue: 5, currentValue: 5, description: 'Camera Z position', unit: 'units' },
       { id: 'fov', category: 'camera', type: 'number', min: 10, max: 150, step: 1, defaultValue: 75, currentValue: 75, description: 'Field of view', unit: 'degrees' },
-      { id: 'zoom', category: 'camera', type: 'number', min: 0.1, max: 10, step: 0.1, defaultValue: 1, currentValue: 1, description: 'Camera zoom' }
+      { id: 'zoom', category: 'camera', type: 'number', min: 0.1, max: 10, step: 0.1, defaultValue: 1, currentValue: 1, description: 'Camera zoom' },
+      { id: 'shakeIntensity', category: 'camera', type: 'number', min: 0, max: 2, step: 0.05, defaultValue: 1, currentValue: 1, description: 'Camera shake intensity' },
+      { id: 'headBobIntensity', category: 'camera', type: 'number', min: 0, max: 2, step: 0.05, defaultValue: 1, currentValue: 1, description: 'Head bob intensity' },
+      { id: 'landingDipIntensity', category: 'camera', type: 'number', min: 0, max: 2, step: 0.05, defaultValue: 1, currentValue: 1, description: 'Landing dip intensity' },
+      { id: 'fovKickIntensity', category: 'camera', type: 'number', min: 0, max: 2, step: 0.05, defaultValue: 1, currentValue: 1, description: 'Sprint FOV kick intensity' },
+      { id: 'reduceMotion', category: 'camera', type: 'boolean', defaultValue: false, currentValue: false, description: 'Reduce motion (disables camera effects)' }
     ]
   },
 
@@ -145,7 +152,14 @@ export const DEFAULT_PARAMETER_SETS: Record<ParameterCategory, ParameterSet> = {
       { id: 'radius', category: 'player', type: 'number', min: 0.1, max: 2, step: 0.1, defaultValue: 0.5, currentValue: 0.5, description: 'Player radius', unit: 'units' },
       { id: 'height', category: 'player', type: 'number', min: 1, max: 3, step: 0.1, defaultValue: 1.8, currentValue: 1.8, description: 'Player height', unit: 'units' },
       { id: 'friction', category: 'player', type: 'number', min: 0.1, max: 1, step: 0.05, defaultValue: 0.8, currentValue: 0.8, description: 'Ground friction' },
-      { id: 'airResistance', category: 'player', type: 'number', min: 0.5, max: 1, step: 0.01, defaultValue: 0.95, currentValue: 0.95, description: 'Air resistance' }
+      { id: 'airResistance', category: 'player', type: 'number', min: 0.5, max: 1, step: 0.01, defaultValue: 0.95, currentValue: 0.95, description: 'Air resistance' },
+      { id: 'crouchHeight', category: 'player', type: 'number', min: 1, max: 2, step: 0.05, defaultValue: 1.1, currentValue: 1.1, description: 'Crouched height', unit: 'units' },
+      { id: 'crouchSpeed', category: 'player', type: 'number', min: 1, max: 500, step: 0.5, defaultValue: 100.0, currentValue: 100.0, description: 'Crouch speed', unit: 'units/s' },
+      { id: 'maxStamina', category: 'player', type: 'number', min: 1, max: 500, step: 1, defaultValue: 100, currentValue: 100, description: 'Maximum stamina' },
+      { id: 'staminaDrain', category: 'player', type: 'number', min: 0, max: 100, step: 1, defaultValue: 25, currentValue: 25, description: 'Stamina used while running', unit: '/s' },
+      { id: 'staminaRegen', category: 'player', type: 'number', min: 0, max: 100, step: 1, defaultValue: 15, currentValue: 15, description: 'Stamina recovered while not running', unit: '/s' },
+      { id: 'coyoteTime', category: 'player', type: 'number', min: 0, max: 0.5, step: 0.01, defaultValue: 0.12, currentValue: 0.12, description: 'Jump grace period after leaving a ledge', unit: 's' },
+      { id: 'jumpBufferTime', category: 'player', type: 'number', min: 0, max: 0.5, step: 0.01, defaultValue: 0.15, currentValue: 0.15, description: 'How early a jump press before landing still counts', unit: 's' }
     ]
   },
 
@@ -582,6 +596,7 @@ export class ParameterManager {
       if (saved) {
         const loaded = JSON.parse(saved) as ParameterConfiguration
         if (this.validateConfiguration(loaded)) {
+          this.addMissingDefaults(loaded)
           this.currentParameters = loaded
           logger.info(LogModule.SYSTEM, 'Current parameters loaded from storage')
         }
@@ -591,6 +606,26 @@ export class ParameterManager {
     }
   }
 
+  /**
+   * Parameters added since the configuration was saved start at their defaults
+   */
+  private addMissingDefaults(config: ParameterConfiguration): void {
+    (Object.keys(DEFAULT_PARAMETER_SETS) as ParameterCategory[]).forEach(category => {
+      const defaults = DEFAULT_PARAMETER_SETS[category]
+      const categorySet = config.categories[category]
+      if (!categorySet) {
+        config.categories[category] = JSON.parse(JSON.stringify(defaults))
+        return
+      }
+
+      defaults.parameters.forEach(parameter => {
+        if (!categorySet.parameters.some(p => p.id === parameter.id)) {
+          categorySet.parameters.push({ ...parameter })
+        }
+      })
+    })
+  }
+
   private saveParameterHistory(): void {
     try {
       localStorage.setItem(STORAGE_KEYS.PARAMETER_HISTORY, JSON.stringify(this.parameterHistory))
@@ -1,6 +1,6 @@
 import * as THREE from 'three'
-import { CollisionSystem, CollisionVolume, CollidableObject } from './CollisionSystem'
-import { CameraManager } from './CameraManager'
+import { CollisionSystem, CollisionVolume, CollidableObject, CollisionLayer, COLLISION_MASK_ALL } from './CollisionSystem'
+import type { PlayerMotion } from './CameraEffects'
 import { logger, LogModule } from './Logger'
 
 // ============================================================================
@@ -23,6 +23,35 @@ export interface PlayerConfig {
   groundCheckDistance: number
   friction: number
   airResistance: number
+  
+  // Character controller properties
+  maxSlope: number // Steepest walkable slope in degrees - steeper surfaces act as walls and slide the player down
+  stepHeight: number // Tallest ledge the player steps up onto without jumping
+  
+  // Object interaction
+  carryDistance: number // Gap kept between the eye and a carried object's surface
+  maxCarryMass: number // Heaviest rigid body the player can pick up
+  throwSpeed: number
+  
+  // Swimming
+  swimSpeed: number
+  swimRunSpeed: number
+  swimVerticalSpeed: number // Speed when swimming up (jump) or diving (crouch)
+  buoyancy: number // Upward force when fully submerged, as a multiple of gravity
+  waterDrag: number // Velocity damping per second in water
+  
+  // Crouching
+  crouchHeight: number // Capsule height while crouched
+  crouchSpeed: number
+  
+  // Stamina
+  maxStamina: number
+  staminaDrain: number // Stamina spent per second of running
+  staminaRegen: number // Stamina recovered per second when not running
+  
+  // Jump forgiveness
+  coyoteTime: number // Seconds after leaving the ground that a jump still works
+  jumpBufferTime: number // Seconds a jump press is remembered before landing
 }
 
 export interface PlayerState {
@@ -32,6 +61,9 @@ export interface PlayerState {
   canJump: boolean
   isMoving: boolean
   isRunning: boolean
+  isSwimming: boolean
+  isCrouching: boolean
+  stamina: number
 }
 
 export interface PlayerInput {
@@ -42,11 +74,44 @@ export interface PlayerInput {
   jump: boolean
   run: boolean
   camera: boolean // 'C' key for camera mode switching
+  action: boolean // 'E' key / gamepad X - pick up, carry and throw
+  crouch: boolean // 'Q' key / right stick press - crouch, or dive while swimming
   // Analog input for gamepad (0-1 values)
   analogMovement?: THREE.Vector2
   analogCamera?: THREE.Vector2
 }
 
+/**
+ * The camera a player steers and looks through. CameraManager drives the main player;
+ * split-screen guests get their own rig.
+ */
+export interface PlayerCameraRig {
+  getCurrentCamera(): THREE.Camera
+  getPlayerCamera(): THREE.Camera
+  setPlayerPosition(position: THREE.Vector3): void
+  setPlayerMotion(motion: PlayerMotion): void
+  addLandingImpact(fallSpeed: number): void
+  updatePlayerCameraFromGamepad(deltaX: number, deltaY: number, deltaTime: number): void
+}
+
+/**
+ * Something the player can board and drive (boats). While aboard, the player sits at the
+ * seat and hands its movement input to the vehicle.
+ */
+export interface PlayerVehicle {
+  readonly id: string
+  getSeatPosition(target: THREE.Vector3): THREE.Vector3 | null // Where the rider's feet go, world space (null once gone)
+  getVelocity(target: THREE.Vector3): THREE.Vector3
+  setRider(riderId: string | null, onEjected?: () => void): boolean // False when someone else is aboard; onEjected runs if the vehicle goes away
+  steer(input: PlayerInput): void
+}
+
+export interface PlayerControllerOptions {
+  id: string // Collision object id, unique per player
+  color: number
+  keyboardInput: boolean // Listen to the keyboard and touch screen (gamepad input is always accepted)
+}
+
 // ============================================================================
 // PLAYER CONTROLLER
 // ============================================================================
@@ -55,10 +120,13 @@ export class PlayerController {
   // Core systems
   private scene: THREE.Scene
   private collisionSystem: CollisionSystem
-  private cameraManager: CameraManager
+  private cameraManager: PlayerCameraRig
   
   // Configuration
   private config: PlayerConfig
+  private readonly id: string
+  private readonly keyboardInput: boolean
+  private readonly color: number
   
   // State
   private state: PlayerState
@@ -77,6 +145,48 @@ export class PlayerController {
   private groundStateFrames: number = 0
   private readonly groundStateThreshold: number = 3 // Require 3 frames of consistent state before changing
   
+  // Continuous collision
+  private readonly maxSweepIterations: number = 3 // Impact-and-slide passes per physics step
+  
+  // Object interaction
+  private readonly interactDistance: number = 3.0 // How far ahead the player can reach to pick something up
+  private readonly carryStiffness: number = 12.0 // How quickly a carried object follows the hold point (1/s)
+  private readonly maxCarrySpeed: number = 20.0
+  private previousAction: boolean = false
+  private carried: { id: string, layer: CollisionLayer | undefined, mask: number | undefined, holdDistance: number } | null = null
+  private isObjectLocked: (id: string) => boolean = () => false
+  
+  // Vehicles (boarded with the action button)
+  private vehicle: PlayerVehicle | null = null
+  private getVehicle: (id: string) => PlayerVehicle | null = () => null
+  
+  // Swimming state (submersion is the fraction of the capsule height under water)
+  private readonly enterSwimSubmersion: number = 0.65
+  private readonly exitSwimSubmersion: number = 0.5 // Lower than enter so bobbing doesn't toggle swimming
+  private submersion: number = 0
+  private waterHeight: number | null = null
+  private waterVerticalSpeed: number = 0 // How fast the surface under the player is rising or falling
+  private sampleWaterHeight: (x: number, z: number) => number | null = () => null
+  
+  // Crouching (the capsule shrinks from the top, so the eye drops while the feet stay put)
+  private currentHeight: number
+  private readonly crouchTransitionSpeed: number = 6.0 // Capsule height change per second
+  
+  // Stamina
+  private readonly staminaRegenDelay: number = 1.0 // Seconds after running stops before stamina recovers
+  private readonly staminaRecoverFraction: number = 0.25 // Once exhausted, running resumes at this fraction
+  private staminaCooldown: number = 0
+  private isExhausted: boolean = false
+  
+  // Jump forgiveness
+  private coyoteTimer: number = 0
+  private jumpBufferTimer: number = 0
+  private previousJump: boolean = false
+  
+  // Landing detection for the camera dip
+  private wasOnGround: boolean = false
+  private fallSpeed: number = 0 // Fastest downward speed since leaving the ground
+  
   // Input handling
   private keyStates: Map<string, boolean> = new Map()
   private boundKeyDown: (event: KeyboardEvent) => void
@@ -110,6 +220,7 @@ export class PlayerController {
     jump: boolean
     run: boolean
     action: boolean
+    crouch: boolean
     cameraMode: boolean
   } = {
     movement: new THREE.Vector2(),
@@ -117,18 +228,23 @@ export class PlayerController {
     jump: false,
     run: false,
     action: false,
+    crouch: false,
     cameraMode: false
   }
   
   constructor(
     scene: THREE.Scene,
     collisionSystem: CollisionSystem,
-    cameraManager: CameraManager,
-    config?: Partial<PlayerConfig>
+    cameraManager: PlayerCameraRig,
+    config?: Partial<PlayerConfig>,
+    options?: Partial<PlayerControllerOptions>
   ) {
     this.scene = scene
     this.collisionSystem = collisionSystem
     this.cameraManager = cameraManager
+    this.id = options?.id ?? 'player'
+    this.keyboardInput = options?.keyboardInput ?? true
+    this.color = options?.color ?? 0x4a90e2
     
     // Initialize configuration
     this.config = {
@@ -142,8 +258,26 @@ export class PlayerController {
       groundCheckDistance: 0.6,  // Increased from 0.1 for more reliable ground detection
       friction: 0.8,
       airResistance: 0.95,
+      maxSlope: 45,
+      stepHeight: 0.35,
+      carryDistance: 1.0,
+      maxCarryMass: 20,
+      throwSpeed: 12.0,
+      swimSpeed: 120.0,
+      swimRunSpeed: 240.0,
+      swimVerticalSpeed: 3.0,
+      buoyancy: 1.25,
+      waterDrag: 3.0,
+      crouchHeight: 1.1,
+      crouchSpeed: 100.0,
+      maxStamina: 100,
+      staminaDrain: 25,
+      staminaRegen: 15,
+      coyoteTime: 0.12,
+      jumpBufferTime: 0.15,
       ...config
     }
+    this.currentHeight = this.config.height
     
     // Initialize state
     this.state = {
@@ -152,7 +286,10 @@ export class PlayerController {
       onGround: false,
       canJump: true,
       isMoving: false,
-      isRunning: false
+      isRunning: false,
+      isSwimming: false,
+      isCrouching: false,
+      stamina: this.config.maxStamina
     }
     
     // Initialize input
@@ -163,7 +300,9 @@ export class PlayerController {
       right: false,
       jump: false,
       run: false,
-      camera: false
+      camera: false,
+      action: false,
+      crouch: false
     }
     
     // Bind input handlers
@@ -176,10 +315,12 @@ export class PlayerController {
     
     // Initialize player
     this.initializePlayer()
-    this.setupInputHandlers()
+    if (this.keyboardInput) {
+      this.setupInputHandlers()
+    }
     this.registerWithCollisionSystem()
     
-    logger.info(LogModule.PLAYER, 'PlayerController initialized')
+    logger.info(LogModule.PLAYER, `PlayerController initialized (${this.id})`)
   }
 
   // ============================================================================
@@ -196,7 +337,7 @@ export class PlayerController {
     )
     
     const material = new THREE.MeshStandardMaterial({
-      color: 0x4a90e2,
+      color: this.color,
       transparent: true,
       opacity: 0.8
     })
@@ -205,13 +346,13 @@ export class PlayerController {
     this.mesh.position.copy(this.state.position)
     this.mesh.castShadow = true
     this.mesh.receiveShadow = true
-    this.mesh.name = 'PlayerMesh'
+    this.mesh.name = this.id === 'player' ? 'PlayerMesh' : `PlayerMesh-${this.id}`
     this.scene.add(this.mesh)
     
-    // Create collision volume
+    // Create collision volume (centered on the body, which hangs below the eye position)
     this.collisionVolume = {
       type: 'capsule',
-      position: this.state.position.clone(),
+      position: this.getBodyCenter(this.state.position, new THREE.Vector3()),
       rotation: new THREE.Euler(),
       dimensions: new THREE.Vector3(
         this.config.radius,
@@ -226,17 +367,33 @@ export class PlayerController {
 
   private createDebugWireframe(): void {
     this.debugWireframe = this.collisionSystem.createDebugWireframe(this.collisionVolume, 0x00ff00)
-    this.debugWireframe.position.copy(this.state.position)
+    this.debugWireframe.position.copy(this.collisionVolume.position)
     this.debugWireframe.visible = false
     this.scene.add(this.debugWireframe)
   }
 
+  /**
+   * Rebuild the mesh and debug wireframe after the player's dimensions change
+   */
+  private rebuildPlayerMesh(): void {
+    this.mesh.geometry.dispose()
+    this.mesh.geometry = new THREE.CylinderGeometry(this.config.radius, this.config.radius, this.config.height, 8)
+    this.mesh.scale.y = 1
+
+    if (this.debugWireframe) {
+      this.scene.remove(this.debugWireframe)
+      this.createDebugWireframe()
+      this.debugWireframe.visible = this.isDebugVisible
+    }
+  }
+
   private registerWithCollisionSystem(): void {
     const collidableObject: CollidableObject = {
-      id: 'player',
+      id: this.id,
       mesh: this.mesh,
       collisionVolume: this.collisionVolume,
-      isStatic: false
+      isStatic: false,
+      layer: CollisionLayer.PLAYER
     }
     
     this.collisionSystem.registerObject(collidableObject)
@@ -263,7 +420,7 @@ export class PlayerController {
 
   private handleKeyDown(event: KeyboardEvent): void {
     // Prevent default for game keys
-    if (['KeyW', 'KeyA', 'KeyS', 'KeyD', 'Space', 'ShiftLeft', 'ShiftRight'].includes(event.code)) {
+    if (['KeyW', 'KeyA', 'KeyS', 'KeyD', 'KeyE', 'KeyQ', 'Space', 'ShiftLeft', 'ShiftRight'].includes(event.code)) {
       event.preventDefault()
     }
     
@@ -289,6 +446,8 @@ export class PlayerController {
     const keyJump = this.keyStates.get('Space') || false
     const keyRun = (this.keyStates.get('ShiftLeft') || this.keyStates.get('ShiftRight')) || false
     const keyCamera = this.keyStates.get('KeyC') || false
+    const keyAction = this.keyStates.get('KeyE') || false
+    const keyCrouch = this.keyStates.get('KeyQ') || false
     
     // Touch input for movement (one finger) - use continuous direction
     const touchMovement = this.touchState.movementDirection
@@ -311,6 +470,8 @@ export class PlayerController {
     this.input.jump = keyJump || this.gamepadInput.jump
     this.input.run = keyRun || this.gamepadInput.run
     this.input.camera = keyCamera || this.gamepadInput.cameraMode
+    this.input.action = keyAction || this.gamepadInput.action
+    this.input.crouch = keyCrouch || this.gamepadInput.crouch
     
     // Store analog values for smooth movement (prioritize gamepad, then touch)
     if (this.gamepadInput.movement.length() > 0.1) {
@@ -536,6 +697,7 @@ export class PlayerController {
     jump: boolean
     run: boolean
     action: boolean
+    crouch: boolean
     cameraMode: boolean
   }): void {
     this.gamepadInput = {
@@ -544,6 +706,7 @@ export class PlayerController {
       jump: input.jump,
       run: input.run,
       action: input.action,
+      crouch: input.crouch,
       cameraMode: input.cameraMode
     }
     
@@ -557,6 +720,14 @@ export class PlayerController {
   // ============================================================================
 
   public update(deltaTime: number): void {
+    if (this.vehicle) {
+      this.updateAboard(deltaTime)
+      return
+    }
+    
+    this.updateWaterState(deltaTime)
+    this.updateCrouch(deltaTime)
+    
     // Always update movement and input
     this.updateMovement(deltaTime)
     
@@ -565,6 +736,7 @@ export class PlayerController {
     
     // Always update physics and visuals
     this.updatePhysics(deltaTime)
+    this.updateInteraction()
     this.updateVisuals()
     this.updateCamera(deltaTime)
     
@@ -626,8 +798,16 @@ export class PlayerController {
       // Normalize direction but preserve analog magnitude
       moveDirection.normalize()
       
-      // Determine speed
-      const baseSpeed = this.input.run ? this.config.runSpeed : this.config.walkSpeed
+      // Determine speed - running needs stamina and isn't possible while crouched
+      const isRunning = this.input.run && !this.state.isCrouching && !this.isExhausted
+      let baseSpeed: number
+      if (this.state.isSwimming) {
+        baseSpeed = isRunning ? this.config.swimRunSpeed : this.config.swimSpeed
+      } else if (this.state.isCrouching) {
+        baseSpeed = this.config.crouchSpeed
+      } else {
+        baseSpeed = isRunning ? this.config.runSpeed : this.config.walkSpeed
+      }
       const speed = baseSpeed * inputMagnitude // Scale by analog input magnitude
       const movement = moveDirection.multiplyScalar(speed * deltaTime)
       
@@ -635,7 +815,7 @@ export class PlayerController {
       this.state.velocity.x = movement.x
       this.state.velocity.z = movement.z
       this.state.isMoving = true
-      this.state.isRunning = this.input.run
+      this.state.isRunning = isRunning
       
       // Debug: Log speed difference (disabled)
       // if (Math.random() < 0.05) { // 5% chance per frame
@@ -644,9 +824,10 @@ export class PlayerController {
       
       // logger.debug(LogModule.PLAYER, `Movement: speed=${speed}, direction=(${moveDirection.x.toFixed(2)}, ${moveDirection.z.toFixed(2)}), input=(${this.input.forward},${this.input.backward},${this.input.left},${this.input.right})`)
     } else {
-      // Apply friction when not moving
-      this.state.velocity.x *= this.config.friction
-      this.state.velocity.z *= this.config.friction
+      // Apply friction when not moving (water drag while swimming)
+      const damping = this.state.isSwimming ? Math.exp(-this.config.waterDrag * deltaTime) : this.config.friction
+      this.state.velocity.x *= damping
+      this.state.velocity.z *= damping
       this.state.isMoving = false
       this.state.isRunning = false
       
@@ -656,11 +837,31 @@ export class PlayerController {
       // }
     }
     
-    // Handle jumping
-    if (this.input.jump && this.state.onGround && this.state.canJump) {
+    this.updateStamina(deltaTime)
+    
+    // Coyote time: a jump still works for a moment after walking off a ledge
+    if (this.state.onGround) {
+      this.coyoteTimer = this.config.coyoteTime
+    } else {
+      this.coyoteTimer = Math.max(0, this.coyoteTimer - deltaTime)
+    }
+    
+    // Jump buffering: a press shortly before landing jumps as soon as the player lands
+    if (this.input.jump && !this.previousJump) {
+      this.jumpBufferTimer = this.config.jumpBufferTime
+    } else {
+      this.jumpBufferTimer = Math.max(0, this.jumpBufferTimer - deltaTime)
+    }
+    this.previousJump = this.input.jump
+    
+    // Handle jumping (in water, jump swims up instead - see applyWaterForces)
+    const canJumpFromGround = (this.state.onGround || this.coyoteTimer > 0) && this.state.canJump
+    if (this.jumpBufferTimer > 0 && canJumpFromGround && !this.state.isSwimming) {
       this.state.velocity.y = this.config.jumpForce
       this.state.onGround = false
       this.state.canJump = false
+      this.coyoteTimer = 0
+      this.jumpBufferTimer = 0
       
       // logger.debug(LogModule.PLAYER, 'Jump initiated')
     }
@@ -672,24 +873,21 @@ export class PlayerController {
   }
 
   private updatePhysics(deltaTime: number): void {
-    // Apply gravity
-    if (!this.state.onGround) { // Only apply gravity if not on ground
+    if (this.state.isSwimming) {
+      this.applyWaterForces(deltaTime)
+    } else if (!this.state.onGround) { // Only apply gravity if not on ground
       this.state.velocity.y -= this.config.gravity * deltaTime
-    }
-    
-    // Apply air resistance
-    if (!this.state.onGround) {
+      
+      // Apply air resistance
       this.state.velocity.x *= this.config.airResistance
       this.state.velocity.z *= this.config.airResistance
     }
     
-    // Calculate new position
-    const newPosition = this.state.position.clone().add(
-      this.state.velocity.clone().multiplyScalar(deltaTime)
-    )
+    // Calculate new position, sweeping the capsule so fast moves can't tunnel through thin geometry
+    const newPosition = this.sweepMotion(this.state.velocity.clone().multiplyScalar(deltaTime))
     
-    // Check collision
-    const collision = this.collisionSystem.checkCollision('player', newPosition)
+    // Check collision (the collision volume is centered on the body, not the eye)
+    const collision = this.collisionSystem.checkCollision(this.id, this.getBodyCenter(newPosition, new THREE.Vector3()))
     
     // Debug: Log collision results occasionally (disabled)
     // if (Math.random() < 0.01 && collision.hasCollision) { // 1% chance and only when collision happens
@@ -699,10 +897,15 @@ export class PlayerController {
     if (collision.hasCollision) {
       // Handle collision
       this.state.position.copy(collision.correctedPosition)
+      this.state.position.y += this.currentHeight / 2
+      
+      // Slide: drop the velocity component pushing into the contact instead of sticking to it
+      const supportNormal = this.getSupportNormal(collision.normal)
+      this.slideVelocity(supportNormal)
       
-      // If collision is with ground (normal points mostly upward)
+      // If collision is with walkable ground (slope within maxSlope)
       // Use hysteresis to prevent rapid toggling
-      const shouldBeOnGround = collision.normal.y > 0.5
+      const shouldBeOnGround = this.isWalkable(supportNormal)
       
       if (shouldBeOnGround !== this.groundStateBuffer) {
         this.groundStateBuffer = shouldBeOnGround
@@ -733,15 +936,31 @@ export class PlayerController {
       
       // Check if we're on ground by checking ground height at current position
       const groundHeight = this.collisionSystem.getGroundHeight(this.state.position.x, this.state.position.z)
-      const playerBottomY = this.state.position.y - (this.config.height / 2 - this.config.radius)
+      const playerBottomY = this.state.position.y - this.currentHeight + this.config.radius // Center of the bottom cap
       
       // More stable ground detection: use a larger tolerance and check velocity
       const groundTolerance = this.config.groundCheckDistance * 2 // Double the tolerance
       const isNearGround = playerBottomY <= groundHeight + groundTolerance
       const isNotMovingUp = this.state.velocity.y <= 0.5 // More lenient velocity check
       
+      // Ground steeper than maxSlope doesn't hold the player - gravity slides them down it
+      const groundNormal = this.collisionSystem.getGroundNormal(this.state.position.x, this.state.position.z)
+      
+      // The sweep stops the capsule exactly on surfaces, so resting contact never shows up as a
+      // penetration - probe just below the feet for land or objects to stand on
+      const body = this.getBodyCenter(this.state.position, new THREE.Vector3())
+      const probe = this.collisionSystem.sweepVolume(
+        this.collisionVolume, body, body.clone().setY(body.y - this.config.groundCheckDistance), this.id
+      )
+      const isSupported = probe.hit && this.isWalkable(probe.normal)
+      
       // Only change onGround state if there's a significant difference
-      const shouldBeOnGround = isNearGround && isNotMovingUp
+      const shouldBeOnGround = ((isNearGround && this.isWalkable(groundNormal)) || isSupported) && isNotMovingUp
+      
+      // Stay on the surface when walking down slopes instead of stepping off into the air
+      if (this.state.onGround && isSupported && isNotMovingUp) {
+        this.state.position.y += probe.position.y - body.y
+      }
       
       // HYSTERESIS FIX: Use buffered ground state to prevent rapid toggling/flickering
       if (shouldBeOnGround !== this.groundStateBuffer) {
@@ -771,22 +990,551 @@ export class PlayerController {
     }
     
     // Update collision volume
-    this.collisionVolume.position.copy(this.state.position)
+    this.getBodyCenter(this.state.position, this.collisionVolume.position)
+  }
+
+  /**
+   * Move the capsule along a displacement, stopping at the first impact. Small ledges are
+   * stepped onto; otherwise the rest of the motion slides along the surface. Returns the
+   * new eye position.
+   */
+  private sweepMotion(displacement: THREE.Vector3): THREE.Vector3 {
+    const body = this.getBodyCenter(this.state.position, new THREE.Vector3())
+    const remaining = displacement.clone()
+
+    for (let i = 0; i < this.maxSweepIterations && remaining.lengthSq() > 1e-10; i++) {
+      const target = body.clone().add(remaining)
+      const sweep = this.collisionSystem.sweepVolume(this.collisionVolume, body, target, this.id)
+      body.copy(sweep.position)
+      if (!sweep.hit) {
+        break
+      }
+
+      remaining.multiplyScalar(1 - sweep.time)
+
+      if (sweep.objectId) {
+        this.pushObject(sweep.objectId, sweep.normal, body)
+      }
+
+      // Walking into something too steep to walk on - try stepping up onto it first
+      if (this.state.onGround && !this.isWalkable(sweep.normal)) {
+        const stepped = this.tryStepUp(body, remaining)
+        if (stepped) {
+          body.copy(stepped)
+          break
+        }
+      }
+
+      // Keep only the part of the leftover motion (and velocity) that runs along the surface
+      const slideNormal = this.getSlideNormal(sweep.normal)
+      const remainingInto = remaining.dot(slideNormal)
+      if (remainingInto < 0) {
+        remaining.addScaledVector(slideNormal, -remainingInto)
+      }
+      this.slideVelocity(sweep.normal)
+    }
+
+    // Any motion left after the last iteration is dropped rather than risk tunneling
+    body.y += this.currentHeight / 2
+    return body
+  }
+
+  /**
+   * Step-up: lift by stepHeight, move horizontally, then drop back down. Succeeds only if
+   * the player made progress and lands on walkable ground. Returns the new body center.
+   */
+  private tryStepUp(body: THREE.Vector3, motion: THREE.Vector3): THREE.Vector3 | null {
+    const horizontal = new THREE.Vector3(motion.x, 0, motion.z)
+    if (horizontal.lengthSq() < 1e-8) {
+      return null
+    }
+
+    const up = this.collisionSystem.sweepVolume(
+      this.collisionVolume, body, body.clone().add(new THREE.Vector3(0, this.config.stepHeight, 0)), this.id
+    )
+    const lift = up.position.y - body.y
+    if (lift < 1e-3) {
+      return null
+    }
+
+    const across = this.collisionSystem.sweepVolume(this.collisionVolume, up.position, up.position.clone().add(horizontal), this.id)
+    const progress = across.position.clone().sub(up.position).setY(0)
+    if (progress.lengthSq() < 1e-6) {
+      return null
+    }
+
+    // Drop a little further than we lifted so stepping down onto lower ground also sticks
+    const down = this.collisionSystem.sweepVolume(
+      this.collisionVolume, across.position, across.position.clone().setY(across.position.y - lift - this.config.stepHeight), this.id
+    )
+    if (!down.hit || !this.isWalkable(down.normal) || down.position.y - body.y > this.config.stepHeight) {
+      return null
+    }
+
+    return down.position
+  }
+
+  /**
+   * Whether a surface with this normal is shallow enough to stand on
+   */
+  private isWalkable(normal: THREE.Vector3): boolean {
+    return normal.y >= Math.cos(THREE.MathUtils.degToRad(this.config.maxSlope))
+  }
+
+  /**
+   * Normal to slide along. While grounded, steep surfaces act as vertical walls so walking
+   * into them can't push the player up; airborne, the real normal slides the player down.
+   */
+  private getSlideNormal(normal: THREE.Vector3): THREE.Vector3 {
+    if (!this.state.onGround || this.isWalkable(normal)) {
+      return normal
+    }
+
+    const wallNormal = new THREE.Vector3(normal.x, 0, normal.z)
+    return wallNormal.lengthSq() > 1e-6 ? wallNormal.normalize() : normal
+  }
+
+  /**
+   * The surface under the player: land reports straight-up contacts, so use the
+   * heightfield slope when standing on land
+   */
+  private getSupportNormal(contactNormal: THREE.Vector3): THREE.Vector3 {
+    const feetY = this.state.position.y - this.currentHeight
+    const groundHeight = this.collisionSystem.getGroundHeight(this.state.position.x, this.state.position.z)
+    if (contactNormal.y > 0.99 && Math.abs(feetY - groundHeight) < 0.1) {
+      return this.collisionSystem.getGroundNormal(this.state.position.x, this.state.position.z)
+    }
+    return contactNormal
+  }
+
+  /**
+   * Drop the velocity component pushing into a contact
+   */
+  private slideVelocity(normal: THREE.Vector3): void {
+    // Grounded on walkable ground the motion already follows the surface - keep velocity
+    // horizontal so walking up a slope doesn't launch the player
+    if (this.state.onGround && this.isWalkable(normal)) {
+      if (this.state.velocity.y < 0) {
+        this.state.velocity.y = 0
+      }
+      return
+    }
+
+    const slideNormal = this.getSlideNormal(normal)
+    const velocityInto = this.state.velocity.dot(slideNormal)
+    if (velocityInto < 0) {
+      this.state.velocity.addScaledVector(slideNormal, -velocityInto)
+    }
+  }
+
+  /**
+   * The player position is the eye; the body (mesh and collision capsule) hangs below it
+   */
+  private getBodyCenter(eyePosition: THREE.Vector3, target: THREE.Vector3): THREE.Vector3 {
+    target.copy(eyePosition)
+    target.y -= this.currentHeight / 2
+    return target
+  }
+
+  // ============================================================================
+  // CROUCHING AND STAMINA
+  // ============================================================================
+
+  /**
+   * Shrink or grow the capsule toward the crouched/standing height. Standing up only
+   * grows as far as the headroom above the player allows.
+   */
+  private updateCrouch(deltaTime: number): void {
+    // In water crouch dives instead, so swimmers stand up
+    const wantsCrouch = this.input.crouch && !this.state.isSwimming
+    const targetHeight = wantsCrouch ? this.getCrouchHeight() : this.config.height
+    const maxChange = this.crouchTransitionSpeed * deltaTime
+    let change = THREE.MathUtils.clamp(targetHeight - this.currentHeight, -maxChange, maxChange)
+
+    if (change > 0) {
+      const body = this.getBodyCenter(this.state.position, new THREE.Vector3())
+      const headroom = this.collisionSystem.sweepVolume(
+        this.collisionVolume, body, body.clone().setY(body.y + change), this.id
+      )
+      if (headroom.hit) {
+        change = Math.max(0, headroom.position.y - body.y)
+      }
+    }
+
+    if (Math.abs(change) > 1e-5) {
+      this.setCapsuleHeight(this.currentHeight + change)
+    }
+    this.state.isCrouching = this.currentHeight < this.config.height - 1e-3
+  }
+
+  /**
+   * Resize the capsule, keeping the feet where they are
+   */
+  private setCapsuleHeight(height: number): void {
+    this.state.position.y += height - this.currentHeight
+    this.currentHeight = height
+    this.collisionVolume.dimensions.y = height
+    this.getBodyCenter(this.state.position, this.collisionVolume.position)
+
+    // The mesh and wireframe are built at standing height
+    const scale = height / this.config.height
+    this.mesh.scale.y = scale
+    if (this.debugWireframe) {
+      this.debugWireframe.scale.y = scale
+    }
+  }
+
+  private getCrouchHeight(): number {
+    // A capsule can't be shorter than its two end caps
+    return THREE.MathUtils.clamp(this.config.crouchHeight, this.config.radius * 2, this.config.height)
+  }
+
+  /**
+   * Running drains stamina; it recovers after a short rest. Running out exhausts the
+   * player until a quarter of the meter is back, so sprinting can't be feathered at zero.
+   */
+  private updateStamina(deltaTime: number): void {
+    if (this.state.isRunning) {
+      this.state.stamina = Math.max(0, this.state.stamina - this.config.staminaDrain * deltaTime)
+      this.staminaCooldown = this.staminaRegenDelay
+      if (this.state.stamina === 0) {
+        this.isExhausted = true
+        logger.debug(LogModule.PLAYER, 'Out of stamina')
+      }
+      return
+    }
+
+    if (this.staminaCooldown > 0) {
+      this.staminaCooldown = Math.max(0, this.staminaCooldown - deltaTime)
+      return
+    }
+
+    this.state.stamina = Math.min(this.config.maxStamina, this.state.stamina + this.config.staminaRegen * deltaTime)
+    if (this.isExhausted && this.state.stamina >= this.config.maxStamina * this.staminaRecoverFraction) {
+      this.isExhausted = false
+    }
+  }
+
+  // ============================================================================
+  // SWIMMING
+  // ============================================================================
+
+  /**
+   * Sample the water surface at the player and switch between walking and swimming
+   */
+  private updateWaterState(deltaTime: number): void {
+    const previousHeight = this.waterHeight
+    this.waterHeight = this.sampleWaterHeight(this.state.position.x, this.state.position.z)
+    this.waterVerticalSpeed = previousHeight !== null && this.waterHeight !== null && deltaTime > 0
+      ? (this.waterHeight - previousHeight) / deltaTime
+      : 0
+    
+    if (this.waterHeight === null) {
+      this.submersion = 0
+    } else {
+      const feetY = this.state.position.y - this.currentHeight
+      this.submersion = THREE.MathUtils.clamp((this.waterHeight - feetY) / this.currentHeight, 0, 1)
+    }
+
+    if (!this.state.isSwimming && this.submersion >= this.enterSwimSubmersion) {
+      this.state.isSwimming = true
+      logger.debug(LogModule.PLAYER, `Entered water (surface at ${this.waterHeight!.toFixed(2)})`)
+    } else if (this.state.isSwimming && this.submersion < this.exitSwimSubmersion) {
+      this.state.isSwimming = false
+      logger.debug(LogModule.PLAYER, 'Left water')
+    }
+
+    // Swimmers never count as grounded; touching the seabed or shore shouldn't stop them floating
+    if (this.state.isSwimming) {
+      this.state.onGround = false
+      this.groundStateBuffer = false
+      this.groundStateFrames = 0
+    }
+  }
+
+  /**
+   * Buoyancy, drag and swimming up/down. Buoyancy scales with submersion, so the player
+   * floats where it balances gravity; drag acts relative to the moving surface, so the
+   * player rides the waves instead of lagging behind them.
+   */
+  private applyWaterForces(deltaTime: number): void {
+    const velocity = this.state.velocity
+    velocity.y += this.config.gravity * (this.config.buoyancy * this.submersion - 1) * deltaTime
+    velocity.y = this.waterVerticalSpeed + (velocity.y - this.waterVerticalSpeed) * Math.exp(-this.config.waterDrag * deltaTime)
+
+    // Crouch dives; jump swims up until the head clears the water, then buoyancy takes over
+    const headUnderwater = this.waterHeight !== null && this.state.position.y < this.waterHeight
+    if (this.input.crouch) {
+      velocity.y = THREE.MathUtils.damp(velocity.y, -this.config.swimVerticalSpeed, 4, deltaTime)
+    } else if (this.input.jump && headUnderwater) {
+      velocity.y = THREE.MathUtils.damp(velocity.y, this.config.swimVerticalSpeed, 4, deltaTime)
+    }
+  }
+
+  /**
+   * Provide the water surface height at a world position (null where there is no water)
+   */
+  public setWaterHeightSampler(sampler: (x: number, z: number) => number | null): void {
+    this.sampleWaterHeight = sampler
+  }
+
+  // ============================================================================
+  // OBJECT INTERACTION
+  // ============================================================================
+
+  /**
+   * Walking into a rigid body pushes it; heavier players push harder
+   */
+  private pushObject(id: string, contactNormal: THREE.Vector3, body: THREE.Vector3): void {
+    // Standing on or bumping the underside of an object doesn't push it
+    if (Math.abs(contactNormal.y) > 0.7 || this.isObjectLocked(id)) {
+      return
+    }
+
+    const direction = contactNormal.clone().setY(0).normalize().negate()
+    const contactPoint = body.clone().addScaledVector(direction, this.config.radius)
+    this.collisionSystem.pushRigidBody(id, this.state.velocity, this.config.mass, direction, contactPoint)
+  }
+
+  /**
+   * Action button: pick up the object in front of the camera, or throw the carried one
+   */
+  private updateInteraction(): void {
+    const actionPressed = this.input.action && !this.previousAction
+    this.previousAction = this.input.action
+
+    if (this.carried) {
+      if (actionPressed) {
+        this.throwCarriedObject()
+      } else {
+        this.updateCarriedObject()
+      }
+    } else if (actionPressed && !this.tryBoard()) {
+      this.tryPickUp()
+    }
+  }
+
+  private tryPickUp(): boolean {
+    const camera = this.cameraManager.getPlayerCamera()
+    const origin = camera.getWorldPosition(new THREE.Vector3())
+    const direction = camera.getWorldDirection(new THREE.Vector3())
+
+    const hit = this.collisionSystem.raycastObjects(origin, direction, this.interactDistance, this.id)[0]
+    const object = hit?.object
+    if (!object?.rigidBody || object.rigidBody.mass > this.config.maxCarryMass || this.isObjectLocked(object.id)) {
+      return false
+    }
+
+    // Carried objects stop colliding with the player so they can't shove or trap them
+    this.carried = {
+      id: object.id,
+      layer: object.layer,
+      mask: object.mask,
+      holdDistance: this.config.carryDistance + this.getVolumeRadius(object.collisionVolume)
+    }
+    this.collisionSystem.setObjectLayer(object.id, object.layer ?? CollisionLayer.DEFAULT, (object.mask ?? COLLISION_MASK_ALL) & ~CollisionLayer.PLAYER)
+
+    logger.info(LogModule.PLAYER, `Picked up ${object.id}`)
+    return true
+  }
+
+  /**
+   * Steer the carried object towards the hold point in front of the camera. It stays a
+   * simulated body, so it still collides with the world instead of passing through walls.
+   */
+  private updateCarriedObject(): void {
+    const carried = this.carried!
+    const object = this.collisionSystem.getObjects().get(carried.id)
+    if (!object?.rigidBody || this.isObjectLocked(carried.id)) {
+      this.dropCarriedObject()
+      return
+    }
+
+    const camera = this.cameraManager.getPlayerCamera()
+    const holdPoint = camera.getWorldPosition(new THREE.Vector3())
+      .addScaledVector(camera.getWorldDirection(new THREE.Vector3()), carried.holdDistance)
+    const toHoldPoint = holdPoint.sub(object.collisionVolume.position)
+
+    // Snagged on something - let go rather than drag it through the world
+    if (toHoldPoint.length() > carried.holdDistance + 2) {
+      this.dropCarriedObject()
+      return
+    }
+
+    const velocity = toHoldPoint.multiplyScalar(this.carryStiffness).clampLength(0, this.maxCarrySpeed)
+    const angularVelocity = object.rigidBody.angularVelocity.clone().multiplyScalar(0.8)
+    this.collisionSystem.setRigidBodyVelocity(carried.id, velocity, angularVelocity)
+  }
+
+  private throwCarriedObject(): void {
+    const id = this.carried!.id
+    const direction = this.cameraManager.getPlayerCamera().getWorldDirection(new THREE.Vector3())
+    const velocity = direction.multiplyScalar(this.config.throwSpeed).add(this.state.velocity.clone().setY(0))
+
+    this.dropCarriedObject()
+    this.collisionSystem.setRigidBodyVelocity(id, velocity)
+    logger.info(LogModule.PLAYER, `Threw ${id}`)
+  }
+
+  /**
+   * Let go of the carried object and restore its collision filter
+   */
+  public dropCarriedObject(): void {
+    if (!this.carried) {
+      return
+    }
+
+    const { id, layer, mask } = this.carried
+    const object = this.collisionSystem.getObjects().get(id)
+    if (object) {
+      object.layer = layer
+      object.mask = mask
+    }
+    this.carried = null
+  }
+
+  public getCarriedObjectId(): string | null {
+    return this.carried?.id ?? null
+  }
+
+  // ============================================================================
+  // VEHICLES
+  // ============================================================================
+
+  /**
+   * Board the vehicle in front of the camera
+   */
+  private tryBoard(): boolean {
+    const camera = this.cameraManager.getPlayerCamera()
+    const origin = camera.getWorldPosition(new THREE.Vector3())
+    const direction = camera.getWorldDirection(new THREE.Vector3())
+
+    const hit = this.collisionSystem.raycastObjects(origin, direction, this.interactDistance, this.id)[0]
+    const vehicle = hit ? this.getVehicle(hit.object.id) : null
+    if (!vehicle || this.isObjectLocked(vehicle.id) || !vehicle.setRider(this.id, () => this.leaveVehicle())) {
+      return false
+    }
+
+    this.vehicle = vehicle
+
+    // Riders sit, and stop swimming
+    this.setCapsuleHeight(this.getCrouchHeight())
+    this.state.isCrouching = true
+    this.state.isSwimming = false
+    this.submersion = 0
+
+    logger.info(LogModule.PLAYER, `Boarded ${vehicle.id}`)
+    return true
+  }
+
+  /**
+   * Ride along at the seat and steer with the movement input; action or jump gets off
+   */
+  private updateAboard(deltaTime: number): void {
+    const vehicle = this.vehicle!
+    const actionPressed = this.input.action && !this.previousAction
+    const jumpPressed = this.input.jump && !this.previousJump
+    this.previousAction = this.input.action
+    this.previousJump = this.input.jump
+
+    if (actionPressed || jumpPressed) {
+      this.leaveVehicle()
+      this.state.velocity.y += this.config.jumpForce * 0.5 // Hop clear of the seat
+      return
+    }
+
+    // The vehicle was removed without ejecting us: stay where we are
+    if (!vehicle.getSeatPosition(this.state.position)) {
+      this.leaveVehicle()
+      return
+    }
+
+    vehicle.steer(this.input)
+    this.state.position.y += this.currentHeight
+    vehicle.getVelocity(this.state.velocity)
+    this.getBodyCenter(this.state.position, this.collisionVolume.position)
+
+    this.state.onGround = true
+    this.state.isMoving = false
+    this.state.isRunning = false
+    this.collisionSystem.updatePlayerPosition(this.state.position)
+    this.updateStamina(deltaTime)
+    this.updateVisuals()
+    this.updateCamera(deltaTime)
+  }
+
+  /**
+   * Get off the current vehicle where the seat is, keeping its velocity
+   */
+  public leaveVehicle(): void {
+    if (!this.vehicle) {
+      return
+    }
+
+    const vehicle = this.vehicle
+    this.vehicle = null
+    vehicle.setRider(null)
+    this.state.onGround = false
+    logger.info(LogModule.PLAYER, `Left ${vehicle.id}`)
+  }
+
+  public getVehicleId(): string | null {
+    return this.vehicle?.id ?? null
+  }
+
+  /**
+   * Provide the vehicle (if any) a collidable object id belongs to
+   */
+  public setVehicleLookup(lookup: (id: string) => PlayerVehicle | null): void {
+    this.getVehicle = lookup
+  }
+
+  /**
+   * Objects locked in the ObjectManager can't be pushed or picked up
+   */
+  public setObjectLockChecker(isLocked: (id: string) => boolean): void {
+    this.isObjectLocked = isLocked
+  }
+
+  private getVolumeRadius(volume: CollisionVolume): number {
+    switch (volume.type) {
+      case 'box':
+        return volume.dimensions.length() * 0.5
+      case 'capsule':
+        return Math.max(volume.dimensions.x, volume.dimensions.y * 0.5)
+      default:
+        return volume.dimensions.x
+    }
   }
 
   private updateVisuals(): void {
     // Update mesh position (offset down from eye level)
     const meshPosition = this.state.position.clone()
-    meshPosition.y -= this.config.height / 2
+    meshPosition.y -= this.currentHeight / 2
     this.mesh.position.copy(meshPosition)
     
     // Update debug wireframe
     if (this.debugWireframe) {
-      this.debugWireframe.position.copy(this.state.position)
+      this.debugWireframe.position.copy(this.collisionVolume.position)
     }
   }
 
   private updateCamera(deltaTime: number): void {
+    // Movement-driven camera effects (head bob, sprint FOV kick, landing dip)
+    const grounded = this.state.onGround && !this.state.isSwimming
+    if (grounded && !this.wasOnGround) {
+      this.cameraManager.addLandingImpact(this.fallSpeed)
+    }
+    this.fallSpeed = grounded || this.state.isSwimming ? 0 : Math.max(this.fallSpeed, -this.state.velocity.y)
+    this.wasOnGround = grounded
+    
+    // A vehicle carries the player along without walking, so no head bob from its speed
+    this.cameraManager.setPlayerMotion({
+      horizontalSpeed: this.vehicle ? 0 : Math.hypot(this.state.velocity.x, this.state.velocity.z),
+      grounded,
+      sprinting: this.state.isRunning && this.state.isMoving
+    })
+    
     // Update camera position through camera manager
     this.cameraManager.setPlayerPosition(this.state.position)
     
@@ -812,16 +1560,16 @@ export class PlayerController {
 
   public setPosition(position: THREE.Vector3): void {
     this.state.position.copy(position)
-    this.collisionVolume.position.copy(position)
+    this.getBodyCenter(position, this.collisionVolume.position)
     
     // Update mesh position
     const meshPosition = position.clone()
-    meshPosition.y -= this.config.height / 2
+    meshPosition.y -= this.currentHeight / 2
     this.mesh.position.copy(meshPosition)
     
     // Update debug wireframe
     if (this.debugWireframe) {
-      this.debugWireframe.position.copy(position)
+      this.debugWireframe.position.copy(this.collisionVolume.position)
     }
     
     // Update camera
@@ -838,6 +1586,13 @@ export class PlayerController {
     return this.state.velocity.clone()
   }
 
+  /**
+   * Collision object id ('player' for the main player)
+   */
+  public getId(): string {
+    return this.id
+  }
+
   public getMesh(): THREE.Mesh {
     return this.mesh
   }
@@ -858,6 +1613,21 @@ export class PlayerController {
     return this.state.isRunning
   }
 
+  public isSwimming(): boolean {
+    return this.state.isSwimming
+  }
+
+  public isCrouching(): boolean {
+    return this.state.isCrouching
+  }
+
+  /**
+   * Remaining stamina as a fraction of maxStamina (0-1)
+   */
+  public getStaminaFraction(): number {
+    return this.config.maxStamina > 0 ? this.state.stamina / this.config.maxStamina : 0
+  }
+
   public getConfig(): PlayerConfig {
     return { ...this.config }
   }
@@ -865,15 +1635,20 @@ export class PlayerController {
   public updateConfig(config: Partial<PlayerConfig>): void {
     this.config = { ...this.config, ...config }
     
-    // Update collision volume if dimensions changed
+    // Update collision volume if dimensions changed (the player stands back up)
     if (config.radius !== undefined || config.height !== undefined) {
       this.collisionVolume.dimensions.set(
         this.config.radius,
         this.config.height,
         0
       )
+      this.currentHeight = this.config.height
+      this.state.isCrouching = false
+      this.rebuildPlayerMesh()
     }
     
+    this.state.stamina = Math.min(this.state.stamina, this.config.maxStamina)
+    
     logger.debug(LogModule.PLAYER, 'Player config updated')
   }
 
@@ -897,6 +1672,12 @@ export class PlayerController {
       canJump: this.state.canJump,
       isMoving: this.state.isMoving,
       isRunning: this.state.isRunning,
+      isSwimming: this.state.isSwimming,
+      isCrouching: this.state.isCrouching,
+      stamina: this.state.stamina,
+      submersion: this.submersion,
+      carrying: this.getCarriedObjectId(),
+      vehicle: this.getVehicleId(),
       input: { ...this.input },
       config: this.getConfig()
     }
@@ -911,6 +1692,8 @@ export class PlayerController {
       jump: this.input.jump,
       run: this.input.run,
       camera: this.input.camera,
+      action: this.input.action,
+      crouch: this.input.crouch,
       mouseX: 0, // Mouse input would need to be tracked separately
       mouseY: 0,
       mouseLeft: false,
@@ -919,8 +1702,11 @@ export class PlayerController {
   }
 
   public dispose(): void {
+    this.dropCarriedObject()
+    this.leaveVehicle()
+    
     // Remove from collision system
-    this.collisionSystem.unregisterObject('player')
+    this.collisionSystem.unregisterObject(this.id)
     
     // Remove from scene
     this.scene.remove(this.mesh)
@@ -929,8 +1715,16 @@ export class PlayerController {
     }
     
     // Remove event listeners
-    document.removeEventListener('keydown', this.boundKeyDown)
-    document.removeEventListener('keyup', this.boundKeyUp)
+    if (this.keyboardInput) {
+      document.removeEventListener('keydown', this.boundKeyDown)
+      document.removeEventListener('keyup', this.boundKeyUp)
+      
+      const canvas = this.scene.parent?.userData?.canvas || document.body
+      canvas.removeEventListener('touchstart', this.boundTouchStart)
+      canvas.removeEventListener('touchmove', this.boundTouchMove)
+      canvas.removeEventListener('touchend', this.boundTouchEnd)
+      canvas.removeEventListener('touchcancel', this.boundTouchCancel)
+    }
     
     // Dispose geometries and materials
     this.mesh.geometry.dispose()
@@ -940,6 +1734,6 @@ export class PlayerController {
       this.mesh.material.dispose()
     }
     
-    logger.info(LogModule.PLAYER, 'PlayerController disposed')
+    logger.info(LogModule.PLAYER, `PlayerController disposed (${this.id})`)
   }
 } 
\ No newline at end of file
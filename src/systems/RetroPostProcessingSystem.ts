@@ -11,6 +11,7 @@ export class RetroPostProcessingSystem {
   private camera: THREE.Camera
   private composer: any // EffectComposer
   private renderTarget: THREE.WebGLRenderTarget
+  private viewportTargets: THREE.WebGLRenderTarget[] = [] // One per split-screen viewport
   private retroPass: THREE.ShaderMaterial
   private retroQuad: THREE.Mesh
   private retroScene: THREE.Scene
@@ -152,8 +153,11 @@ export class RetroPostProcessingSystem {
   /**
    * Render with retro post-processing
    * @param camera Optional camera override (for player camera switching)
+   * @param viewport Optional screen rectangle (x, y from the bottom-left, in CSS pixels) for split-screen.
+   *   The caller sets the renderer's viewport and scissor; this only sizes the downsampled target to match.
+   * @param viewportIndex Which split-screen viewport this is, so each keeps its own render target
    */
-  public render(camera?: THREE.Camera): void {
+  public render(camera?: THREE.Camera, viewport?: THREE.Vector4, viewportIndex: number = 0): void {
     const currentCamera = camera || this.camera
     
     if (!this.config.enabled) {
@@ -162,11 +166,13 @@ export class RetroPostProcessingSystem {
       return
     }
     
+    const renderTarget = viewport ? this.getViewportTarget(viewport, viewportIndex) : this.renderTarget
+    
     // Update uniforms
     this.retroPass.uniforms.uTime.value = performance.now() * 0.001
     this.retroPass.uniforms.uResolution.value.set(
-      this.renderTarget.width,
-      this.renderTarget.height
+      renderTarget.width,
+      renderTarget.height
     )
     this.retroPass.uniforms.uPixelSize.value = this.config.pixelSize
     this.retroPass.uniforms.uColorLevels.value = this.config.colorLevels
@@ -176,11 +182,11 @@ export class RetroPostProcessingSystem {
     
     // Render scene to render target (downsampled)
     const oldRenderTarget = this.renderer.getRenderTarget()
-    this.renderer.setRenderTarget(this.renderTarget)
+    this.renderer.setRenderTarget(renderTarget)
     this.renderer.render(this.scene, currentCamera)
     
     // Set the render target texture for post-processing
-    this.retroPass.uniforms.tDiffuse.value = this.renderTarget.texture
+    this.retroPass.uniforms.tDiffuse.value = renderTarget.texture
     
     // Create orthographic camera for fullscreen quad
     const orthoCamera = new THREE.OrthographicCamera(-1, 1, 1, -1, 0, 1)
@@ -193,6 +199,37 @@ export class RetroPostProcessingSystem {
     this.renderer.setRenderTarget(oldRenderTarget)
   }
   
+  /**
+   * Downsampled render target for a split-screen viewport, resized whenever the viewport changes
+   */
+  private getViewportTarget(viewport: THREE.Vector4, index: number): THREE.WebGLRenderTarget {
+    const width = Math.max(1, Math.floor(viewport.z * this.config.resolutionScale))
+    const height = Math.max(1, Math.floor(viewport.w * this.config.resolutionScale))
+    
+    let target = this.viewportTargets[index]
+    if (!target) {
+      target = new THREE.WebGLRenderTarget(width, height, {
+        minFilter: THREE.NearestFilter,
+        magFilter: THREE.NearestFilter,
+        format: THREE.RGBAFormat
+      })
+      this.viewportTargets[index] = target
+    } else if (target.width !== width || target.height !== height) {
+      target.setSize(width, height)
+    }
+    return target
+  }
+  
+  /**
+   * Free the render targets of split-screen viewports that are no longer in use
+   * @param count Number of viewports still on screen
+   */
+  public releaseViewportTargets(count: number): void {
+    for (const target of this.viewportTargets.splice(count)) {
+      target?.dispose()
+    }
+  }
+  
   /**
    * Handle window resize
    */
@@ -253,6 +290,7 @@ export class RetroPostProcessingSystem {
    */
   public dispose(): void {
     this.renderTarget.dispose()
+    this.releaseViewportTargets(0)
     this.retroPass.dispose()
     this.retroQuad.geometry.dispose()
   }
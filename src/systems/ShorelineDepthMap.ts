@@ -0,0 +1,159 @@
+import * as THREE from 'three'
+import { TerrainHeightfield } from './TerrainHeightfield'
+import { logger, LogModule } from './Logger'
+
+export interface ShorelineDepthMapConfig {
+  cellSize: number // World units per texel
+  waterLevel: number // Rest height of the ocean; the seabed slopes down from here at the coast
+  seabedHeight: number // Open-sea floor (matches the collision seabed)
+  shelfSlope: number // Units the seabed drops per unit away from the coast
+}
+
+const MAX_SHELF_WIDTH = 64 // Cap on the margin around the land, in world units
+
+/**
+ * Ground height under the ocean around the land pieces, baked into a texture for the ocean
+ * shader (which turns it into water depth per pixel: shoreline foam, shallow tint, soft edges).
+ *
+ * Land heights come from the same CPU heightfield the collision system uses. Where there is no
+ * land, the seabed falls away from the coast at a constant slope until it reaches the open-sea
+ * floor, so the shallows have some width even around land that ends in a cliff.
+ */
+export class ShorelineDepthMap {
+  private config: ShorelineDepthMapConfig = {
+    cellSize: 1,
+    waterLevel: -2,
+    seabedHeight: -12,
+    shelfSlope: 0.5
+  }
+
+  private texture: THREE.DataTexture | null = null
+  private bounds: THREE.Vector4 = new THREE.Vector4() // minX, minZ, width, depth
+
+  constructor(config: Partial<ShorelineDepthMapConfig> = {}) {
+    this.config = { ...this.config, ...config }
+  }
+
+  /**
+   * Rebuild from the land meshes (call whenever land is added, removed or moved)
+   */
+  public build(meshes: THREE.Mesh[]): void {
+    const { cellSize, waterLevel, seabedHeight, shelfSlope } = this.config
+    this.disposeTexture()
+
+    const heightfield = new TerrainHeightfield(cellSize)
+    heightfield.build(meshes)
+    const landBounds = heightfield.getBounds()
+    if (!landBounds) {
+      this.bounds.set(0, 0, 0, 0)
+      return
+    }
+
+    const margin = Math.min(MAX_SHELF_WIDTH, Math.ceil((waterLevel - seabedHeight) / shelfSlope) + cellSize)
+    const minX = landBounds.min.x - margin
+    const minZ = landBounds.min.y - margin
+    const columns = Math.ceil((landBounds.max.x - landBounds.min.x + 2 * margin) / cellSize) + 1
+    const rows = Math.ceil((landBounds.max.y - landBounds.min.y + 2 * margin) / cellSize) + 1
+
+    // Land heights; the coast seeds the shelf at most at the water level
+    const land = new Float32Array(columns * rows)
+    const shelf = new Float32Array(columns * rows).fill(-Infinity)
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        const index = row * columns + column
+        const height = heightfield.sampleHeight(minX + column * cellSize, minZ + row * cellSize)
+        land[index] = height ?? NaN
+        if (height !== null) {
+          shelf[index] = Math.min(height, waterLevel)
+        }
+      }
+    }
+
+    // Shelf height = max over the coast of (seed - slope * distance), as a two-pass chamfer
+    const straight = shelfSlope * cellSize
+    const diagonal = straight * Math.SQRT2
+    const relax = (index: number, neighbor: number, cost: number) => {
+      const candidate = shelf[neighbor] - cost
+      if (candidate > shelf[index]) shelf[index] = candidate
+    }
+    for (let row = 0; row < rows; row++) {
+      for (let column = 0; column < columns; column++) {
+        const index = row * columns + column
+        if (column > 0) relax(index, index - 1, straight)
+        if (row > 0) {
+          relax(index, index - columns, straight)
+          if (column > 0) relax(index, index - columns - 1, diagonal)
+          if (column < columns - 1) relax(index, index - columns + 1, diagonal)
+        }
+      }
+    }
+    for (let row = rows - 1; row >= 0; row--) {
+      for (let column = columns - 1; column >= 0; column--) {
+        const index = row * columns + column
+        if (column < columns - 1) relax(index, index + 1, straight)
+        if (row < rows - 1) {
+          relax(index, index + columns, straight)
+          if (column < columns - 1) relax(index, index + columns + 1, diagonal)
+          if (column > 0) relax(index, index + columns - 1, diagonal)
+        }
+      }
+    }
+
+    // Half floats can be filtered linearly everywhere (full floats need an extension)
+    const data = new Uint16Array(columns * rows)
+    for (let i = 0; i < data.length; i++) {
+      const height = isNaN(land[i]) ? Math.max(seabedHeight, shelf[i]) : land[i]
+      data[i] = THREE.DataUtils.toHalfFloat(height)
+    }
+
+    this.texture = new THREE.DataTexture(data, columns, rows, THREE.RedFormat, THREE.HalfFloatType)
+    this.texture.magFilter = THREE.LinearFilter
+    this.texture.minFilter = THREE.LinearFilter
+    this.texture.wrapS = THREE.ClampToEdgeWrapping
+    this.texture.wrapT = THREE.ClampToEdgeWrapping
+    this.texture.needsUpdate = true
+
+    // Texel centres sit on the sample points
+    this.bounds.set(
+      minX - cellSize * 0.5,
+      minZ - cellSize * 0.5,
+      columns * cellSize,
+      rows * cellSize
+    )
+
+    logger.info(LogModule.RENDERING, `Shoreline depth map rebuilt: ${columns}x${rows} texels from ${meshes.length} land meshes`)
+  }
+
+  /**
+   * The ground height texture, or null when there is no land
+   */
+  public getTexture(): THREE.DataTexture | null {
+    return this.texture
+  }
+
+  /**
+   * World rectangle the texture covers: (minX, minZ, width, depth); zero size when there is no land
+   */
+  public getBounds(): THREE.Vector4 {
+    return this.bounds
+  }
+
+  public setConfig(config: Partial<ShorelineDepthMapConfig>): void {
+    this.config = { ...this.config, ...config }
+  }
+
+  public getConfig(): ShorelineDepthMapConfig {
+    return { ...this.config }
+  }
+
+  public dispose(): void {
+    this.disposeTexture()
+  }
+
+  private disposeTexture(): void {
+    if (this.texture) {
+      this.texture.dispose()
+      this.texture = null
+    }
+  }
+}
@@ -0,0 +1,248 @@
+import * as THREE from 'three'
+
+interface GridEntry {
+  bounds: THREE.Box3
+  minCell: THREE.Vector3
+  maxCell: THREE.Vector3
+}
+
+/**
+ * Uniform spatial hash grid for broad-phase queries.
+ *
+ * Entries are bucketed by the cells their AABB overlaps. Updates only re-bucket an
+ * entry when the range of cells it covers changes, so small movements are cheap.
+ */
+export class SpatialHashGrid {
+  private cellSize: number
+  private cells: Map<string, Set<string>> = new Map()
+  private entries: Map<string, GridEntry> = new Map()
+
+  constructor(cellSize: number = 10) {
+    this.cellSize = cellSize
+  }
+
+  // ============================================================================
+  // ENTRY MANAGEMENT
+  // ============================================================================
+
+  public insert(id: string, bounds: THREE.Box3): void {
+    if (this.entries.has(id)) {
+      this.update(id, bounds)
+      return
+    }
+
+    const entry: GridEntry = {
+      bounds: bounds.clone(),
+      minCell: this.toCell(bounds.min, new THREE.Vector3()),
+      maxCell: this.toCell(bounds.max, new THREE.Vector3())
+    }
+    this.entries.set(id, entry)
+    this.addToCells(id, entry)
+  }
+
+  public update(id: string, bounds: THREE.Box3): void {
+    const entry = this.entries.get(id)
+    if (!entry) {
+      this.insert(id, bounds)
+      return
+    }
+
+    entry.bounds.copy(bounds)
+    const minCell = this.toCell(bounds.min, new THREE.Vector3())
+    const maxCell = this.toCell(bounds.max, new THREE.Vector3())
+
+    // Same cell range - nothing to re-bucket
+    if (minCell.equals(entry.minCell) && maxCell.equals(entry.maxCell)) {
+      return
+    }
+
+    this.removeFromCells(id, entry)
+    entry.minCell.copy(minCell)
+    entry.maxCell.copy(maxCell)
+    this.addToCells(id, entry)
+  }
+
+  public remove(id: string): void {
+    const entry = this.entries.get(id)
+    if (!entry) return
+
+    this.removeFromCells(id, entry)
+    this.entries.delete(id)
+  }
+
+  public clear(): void {
+    this.cells.clear()
+    this.entries.clear()
+  }
+
+  public getBounds(id: string): THREE.Box3 | undefined {
+    return this.entries.get(id)?.bounds
+  }
+
+  // ============================================================================
+  // QUERIES
+  // ============================================================================
+
+  /**
+   * Get IDs of all entries whose bounds overlap the box
+   */
+  public queryAABB(box: THREE.Box3): string[] {
+    const minCell = this.toCell(box.min, new THREE.Vector3())
+    const maxCell = this.toCell(box.max, new THREE.Vector3())
+    const found = new Set<string>()
+
+    for (let x = minCell.x; x <= maxCell.x; x++) {
+      for (let y = minCell.y; y <= maxCell.y; y++) {
+        for (let z = minCell.z; z <= maxCell.z; z++) {
+          const cell = this.cells.get(this.cellKey(x, y, z))
+          if (!cell) continue
+
+          for (const id of cell) {
+            if (found.has(id)) continue
+            const entry = this.entries.get(id)!
+            if (entry.bounds.intersectsBox(box)) {
+              found.add(id)
+            }
+          }
+        }
+      }
+    }
+
+    return Array.from(found)
+  }
+
+  /**
+   * Get IDs of all entries whose bounds overlap the sphere
+   */
+  public querySphere(center: THREE.Vector3, radius: number): string[] {
+    const box = new THREE.Box3(
+      center.clone().subScalar(radius),
+      center.clone().addScalar(radius)
+    )
+    const sphere = new THREE.Sphere(center, radius)
+    return this.queryAABB(box).filter(id => this.entries.get(id)!.bounds.intersectsSphere(sphere))
+  }
+
+  /**
+   * Get IDs of entries in the cells a ray passes through (3D DDA), in traversal order
+   * Only entries whose bounds the ray actually enters within maxDistance are returned
+   */
+  public queryRay(origin: THREE.Vector3, direction: THREE.Vector3, maxDistance: number): string[] {
+    const found = new Set<string>()
+    const ray = new THREE.Ray(origin, direction.clone().normalize())
+    const hitPoint = new THREE.Vector3()
+
+    const cell = this.toCell(origin, new THREE.Vector3())
+    const step = new THREE.Vector3(Math.sign(ray.direction.x), Math.sign(ray.direction.y), Math.sign(ray.direction.z))
+
+    // Distance along the ray to the first cell boundary on each axis, and between boundaries
+    const nextBoundary = (axis: 'x' | 'y' | 'z'): number => {
+      if (step[axis] === 0) return Infinity
+      const boundary = (cell[axis] + (step[axis] > 0 ? 1 : 0)) * this.cellSize
+      return (boundary - origin[axis]) / ray.direction[axis]
+    }
+    const tMax = new THREE.Vector3(nextBoundary('x'), nextBoundary('y'), nextBoundary('z'))
+    const tDelta = new THREE.Vector3(
+      step.x !== 0 ? this.cellSize / Math.abs(ray.direction.x) : Infinity,
+      step.y !== 0 ? this.cellSize / Math.abs(ray.direction.y) : Infinity,
+      step.z !== 0 ? this.cellSize / Math.abs(ray.direction.z) : Infinity
+    )
+
+    // Guard against unbounded traversal for very long rays
+    const maxSteps = 4096
+    let traveled = 0
+    for (let steps = 0; traveled <= maxDistance && steps < maxSteps; steps++) {
+      const ids = this.cells.get(this.cellKey(cell.x, cell.y, cell.z))
+      if (ids) {
+        for (const id of ids) {
+          if (found.has(id)) continue
+          const entry = this.entries.get(id)!
+          // From inside a box intersectBox returns the exit point, which may lie beyond maxDistance
+          if (entry.bounds.containsPoint(origin)) {
+            found.add(id)
+            continue
+          }
+          const hit = ray.intersectBox(entry.bounds, hitPoint)
+          if (hit && origin.distanceTo(hit) <= maxDistance) {
+            found.add(id)
+          }
+        }
+      }
+
+      // Step to the neighbouring cell across the closest boundary
+      if (tMax.x <= tMax.y && tMax.x <= tMax.z) {
+        traveled = tMax.x
+        tMax.x += tDelta.x
+        cell.x += step.x
+      } else if (tMax.y <= tMax.z) {
+        traveled = tMax.y
+        tMax.y += tDelta.y
+        cell.y += step.y
+      } else {
+        traveled = tMax.z
+        tMax.z += tDelta.z
+        cell.z += step.z
+      }
+
+      if (!isFinite(traveled)) break
+    }
+
+    return Array.from(found)
+  }
+
+  public getStats(): { cellSize: number, entries: number, occupiedCells: number } {
+    return {
+      cellSize: this.cellSize,
+      entries: this.entries.size,
+      occupiedCells: this.cells.size
+    }
+  }
+
+  // ============================================================================
+  // INTERNALS
+  // ============================================================================
+
+  private toCell(point: THREE.Vector3, target: THREE.Vector3): THREE.Vector3 {
+    return target.set(
+      Math.floor(point.x / this.cellSize),
+      Math.floor(point.y / this.cellSize),
+      Math.floor(point.z / this.cellSize)
+    )
+  }
+
+  private cellKey(x: number, y: number, z: number): string {
+    return `${x},${y},${z}`
+  }
+
+  private addToCells(id: string, entry: GridEntry): void {
+    for (let x = entry.minCell.x; x <= entry.maxCell.x; x++) {
+      for (let y = entry.minCell.y; y <= entry.maxCell.y; y++) {
+        for (let z = entry.minCell.z; z <= entry.maxCell.z; z++) {
+          const key = this.cellKey(x, y, z)
+          let cell = this.cells.get(key)
+          if (!cell) {
+            cell = new Set()
+            this.cells.set(key, cell)
+          }
+          cell.add(id)
+        }
+      }
+    }
+  }
+
+  private removeFromCells(id: string, entry: GridEntry): void {
+    for (let x = entry.minCell.x; x <= entry.maxCell.x; x++) {
+      for (let y = entry.minCell.y; y <= entry.maxCell.y; y++) {
+        for (let z = entry.minCell.z; z <= entry.maxCell.z; z++) {
+          const key = this.cellKey(x, y, z)
+          const cell = this.cells.get(key)
+          if (!cell) continue
+          cell.delete(id)
+          if (cell.size === 0) {
+            this.cells.delete(key)
+          }
+        }
+      }
+    }
+  }
+}
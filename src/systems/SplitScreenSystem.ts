@@ -0,0 +1,473 @@
+import * as THREE from 'three'
+import { CameraEffects, type PlayerMotion } from './CameraEffects'
+import type { CameraManager } from './CameraManager'
+import type { CollisionSystem } from './CollisionSystem'
+import { HUDSystem, type HUDData } from './HUDSystem'
+import type { GamepadPlayerInput, GamepadState, InputSystem } from './InputSystem'
+import { PlayerController, type PlayerCameraRig } from './PlayerController'
+import type { RetroPostProcessingSystem } from './RetroPostProcessingSystem'
+import { logger, LogModule } from './Logger'
+
+const MAX_PLAYERS = 4
+const GUEST_COLORS = [0xe24a4a, 0x4ae27a, 0xe2c44a] // Players 2-4 (player 1 keeps the default blue)
+const GUEST_SPAWN_SPACING = 2 // Guests spawn beside player 1, this far apart
+const GAMEPAD_LOOK_SENSITIVITY = 0.2 // Same feel as CameraManager's gamepad look
+
+export interface SplitScreenDependencies {
+  scene: THREE.Scene
+  renderer: THREE.WebGLRenderer
+  collisionSystem: CollisionSystem
+  cameraManager: CameraManager
+  inputSystem: InputSystem
+  retroPostProcessing: RetroPostProcessingSystem | null
+  hud: HUDSystem // Player 1's HUD, moved into the first viewport
+  player: PlayerController // Player 1
+}
+
+interface GuestPlayer {
+  number: number // 2-4
+  gamepadIndex: number | null // Null for players added from the console without a gamepad
+  controller: PlayerController
+  camera: GuestCamera
+  hud: HUDSystem
+}
+
+/**
+ * First-person camera for a split-screen guest: gamepad look plus the same head bob, landing
+ * dip and FOV kick as player 1's camera
+ */
+class GuestCamera implements PlayerCameraRig {
+  public readonly camera: THREE.PerspectiveCamera = new THREE.PerspectiveCamera(75, 1, 0.1, 1000)
+  public readonly effects: CameraEffects = new CameraEffects()
+  private pitch: number = 0
+  private yaw: number = 0
+  private playerPosition: THREE.Vector3 = new THREE.Vector3()
+  private readonly playerHeight: number = 1.8
+  private baseFov: number = 75
+
+  constructor(name: string) {
+    this.camera.rotation.order = 'YXZ'
+    this.camera.name = name
+  }
+
+  public getCurrentCamera(): THREE.PerspectiveCamera {
+    return this.camera
+  }
+
+  public getPlayerCamera(): THREE.PerspectiveCamera {
+    return this.camera
+  }
+
+  public setPlayerPosition(position: THREE.Vector3): void {
+    this.playerPosition.copy(position)
+    this.place()
+  }
+
+  public setPlayerMotion(motion: PlayerMotion): void {
+    this.effects.setPlayerMotion(motion)
+  }
+
+  public addLandingImpact(fallSpeed: number): void {
+    this.effects.addLandingImpact(fallSpeed)
+  }
+
+  public updatePlayerCameraFromGamepad(deltaX: number, deltaY: number, deltaTime: number): void {
+    this.yaw -= deltaX * GAMEPAD_LOOK_SENSITIVITY * deltaTime * 60
+    this.pitch += deltaY * GAMEPAD_LOOK_SENSITIVITY * deltaTime * 60
+    this.pitch = Math.max(-Math.PI / 2, Math.min(Math.PI / 2, this.pitch))
+  }
+
+  public setYaw(yaw: number): void {
+    this.yaw = yaw
+  }
+
+  public update(deltaTime: number): void {
+    this.effects.update(deltaTime)
+    const fov = this.baseFov + this.effects.fovOffset
+    if (this.camera.fov !== fov) {
+      this.camera.fov = fov
+      this.camera.updateProjectionMatrix()
+    }
+    this.place()
+  }
+
+  /**
+   * Eye position and look rotation, with the effect offsets relative to the view
+   */
+  private place(): void {
+    const offset = this.effects.positionOffset
+    const rotation = this.effects.rotationOffset
+    this.camera.position.copy(this.playerPosition)
+    this.camera.position.x += Math.cos(this.yaw) * offset.x
+    this.camera.position.z -= Math.sin(this.yaw) * offset.x
+    this.camera.position.y += this.playerHeight + offset.y
+    this.camera.rotation.set(this.pitch + rotation.x, this.yaw + rotation.y, rotation.z)
+  }
+}
+
+/**
+ * Local split-screen multiplayer. The first gamepad shares player 1 with the keyboard and mouse;
+ * every further gamepad spawns its own PlayerController with a first-person camera, and the
+ * screen is divided into one scissored viewport per player (side by side for two, 2x2 for more).
+ */
+export class SplitScreenSystem {
+  private deps: SplitScreenDependencies
+  private enabled: boolean = true
+  private primaryGamepad: number | null = null
+  private guests: GuestPlayer[] = [] // Sorted by player number
+  private viewports: THREE.Vector4[] = [] // x, y from the bottom-left, in CSS pixels
+  private playerSetup: ((player: PlayerController) => void) | null = null
+  private fullViewport: THREE.Vector4 = new THREE.Vector4()
+
+  constructor(deps: SplitScreenDependencies) {
+    this.deps = deps
+    this.updateLayout()
+  }
+
+  // ============================================================================
+  // GAMEPAD ASSIGNMENT
+  // ============================================================================
+
+  /**
+   * Assign a newly connected gamepad to player 1 or a new guest, or drop the guest that used it
+   */
+  public onGamepadConnectionChange(gamepad: GamepadState, connected: boolean): void {
+    if (connected) {
+      if (this.primaryGamepad === null) {
+        this.primaryGamepad = gamepad.index
+        logger.info(LogModule.PLAYER, `Gamepad ${gamepad.index} controls player 1`)
+      } else if (this.enabled) {
+        this.addGuest(gamepad.index)
+      }
+      return
+    }
+
+    if (this.primaryGamepad === gamepad.index) {
+      this.primaryGamepad = null
+      logger.info(LogModule.PLAYER, `Gamepad ${gamepad.index} disconnected from player 1`)
+      return
+    }
+    const guest = this.guests.find(g => g.gamepadIndex === gamepad.index)
+    if (guest) {
+      this.removeGuest(guest.number)
+    }
+  }
+
+  /**
+   * Route gamepad input to the guest that owns the gamepad
+   * @returns true if a guest took the input, false if it belongs to player 1
+   */
+  public handleGamepadInput(gamepadIndex: number, input: GamepadPlayerInput): boolean {
+    // With split-screen off every gamepad drives player 1
+    if (!this.enabled || gamepadIndex === this.primaryGamepad) {
+      return false
+    }
+    // Spare gamepads (more than four players) don't move anyone
+    this.guests.find(g => g.gamepadIndex === gamepadIndex)?.controller.handleGamepadInput(input)
+    return true
+  }
+
+  public getPrimaryGamepadIndex(): number | null {
+    return this.primaryGamepad
+  }
+
+  // ============================================================================
+  // PLAYERS
+  // ============================================================================
+
+  /**
+   * Spawn a guest player beside player 1
+   * @param gamepadIndex - Gamepad that controls the guest, or null for an idle player
+   * @returns The new player's number, or null if the screen is full
+   */
+  public addGuest(gamepadIndex: number | null = null): number | null {
+    if (this.guests.length >= MAX_PLAYERS - 1) {
+      logger.warn(LogModule.PLAYER, `Split-screen is full (${MAX_PLAYERS} players), ignoring gamepad ${gamepadIndex}`)
+      return null
+    }
+
+    let number = 2
+    while (this.guests.some(g => g.number === number)) {
+      number++
+    }
+
+    const { scene, collisionSystem, player } = this.deps
+    const camera = new GuestCamera(`PlayerCamera-${number}`)
+    const controller = new PlayerController(scene, collisionSystem, camera, player.getConfig(), {
+      id: `player-${number}`,
+      color: GUEST_COLORS[number - 2],
+      keyboardInput: false
+    })
+    this.playerSetup?.(controller)
+
+    // Beside player 1, facing the same way
+    const spawn = player.getPosition()
+    const lookDirection = this.deps.cameraManager.getPlayerCamera().getWorldDirection(new THREE.Vector3())
+    const yaw = Math.atan2(-lookDirection.x, -lookDirection.z)
+    const right = new THREE.Vector3(Math.cos(yaw), 0, -Math.sin(yaw))
+    spawn.addScaledVector(right, GUEST_SPAWN_SPACING * (number - 1))
+    spawn.y = Math.max(spawn.y, collisionSystem.getGroundHeight(spawn.x, spawn.z) + player.getConfig().height) + 0.5
+    camera.setYaw(yaw)
+    controller.setPosition(spawn)
+
+    const hud = new HUDSystem({ title: `Player ${number}`, showSystemInfo: false })
+    if (this.deps.hud.isShown()) {
+      hud.show()
+    }
+
+    this.guests.push({ number, gamepadIndex, controller, camera, hud })
+    this.guests.sort((a, b) => a.number - b.number)
+    this.updateLayout()
+
+    logger.info(LogModule.PLAYER, `Player ${number} joined${gamepadIndex !== null ? ` on gamepad ${gamepadIndex}` : ''}`)
+    return number
+  }
+
+  /**
+   * Remove a guest player (2-4) and give its viewport back
+   */
+  public removeGuest(number: number): boolean {
+    const index = this.guests.findIndex(g => g.number === number)
+    if (index === -1) {
+      return false
+    }
+
+    const [guest] = this.guests.splice(index, 1)
+    guest.controller.dispose()
+    guest.hud.dispose()
+    this.updateLayout()
+
+    logger.info(LogModule.PLAYER, `Player ${number} left`)
+    return true
+  }
+
+  /**
+   * Turn split-screen on or off. Turning it off removes every guest and hands all gamepads to
+   * player 1; turning it back on lets each spare gamepad join again.
+   */
+  public setEnabled(enabled: boolean): void {
+    if (enabled === this.enabled) return
+    this.enabled = enabled
+
+    if (!enabled) {
+      for (const guest of [...this.guests]) {
+        this.removeGuest(guest.number)
+      }
+      return
+    }
+
+    for (const gamepad of this.deps.inputSystem.getConnectedGamepads()) {
+      if (gamepad.index !== this.primaryGamepad && !this.guests.some(g => g.gamepadIndex === gamepad.index)) {
+        this.addGuest(gamepad.index)
+      }
+    }
+  }
+
+  public isEnabled(): boolean {
+    return this.enabled
+  }
+
+  /**
+   * Configure each new guest the way player 1 was (lock checks, water sampling, ...)
+   */
+  public setPlayerSetup(setup: ((player: PlayerController) => void) | null): void {
+    this.playerSetup = setup
+  }
+
+  public getPlayerCount(): number {
+    return this.guests.length + 1
+  }
+
+  public getGuestPlayer(number: number): PlayerController | null {
+    return this.guests.find(g => g.number === number)?.controller ?? null
+  }
+
+  public getGuestPlayers(): PlayerController[] {
+    return this.guests.map(g => g.controller)
+  }
+
+  // ============================================================================
+  // UPDATE AND RENDERING
+  // ============================================================================
+
+  public update(deltaTime: number): void {
+    const effectsConfig = this.deps.cameraManager.getCameraEffectsConfig()
+
+    for (const guest of this.guests) {
+      guest.camera.effects.setConfig(effectsConfig)
+      guest.controller.update(deltaTime)
+      guest.camera.update(deltaTime)
+      guest.hud.updateData(this.getGuestHUDData(guest))
+    }
+  }
+
+  /**
+   * Render every player's view into its viewport, through the retro post-processing when it's on
+   * @param primaryCamera - Player 1's current camera (whatever mode CameraManager is in)
+   */
+  public render(primaryCamera: THREE.PerspectiveCamera | THREE.OrthographicCamera): void {
+    const { renderer, retroPostProcessing } = this.deps
+
+    if (this.guests.length === 0) {
+      this.fitAspect(primaryCamera, this.viewports[0])
+      if (retroPostProcessing) {
+        retroPostProcessing.render(primaryCamera)
+      } else {
+        renderer.render(this.deps.scene, primaryCamera)
+      }
+      return
+    }
+
+    renderer.setScissorTest(true)
+    const cameras = [primaryCamera, ...this.guests.map(g => g.camera.camera)]
+    cameras.forEach((camera, index) => {
+      const viewport = this.viewports[index]
+      this.fitAspect(camera, viewport)
+      renderer.setViewport(viewport)
+      renderer.setScissor(viewport)
+      if (retroPostProcessing) {
+        retroPostProcessing.render(camera, viewport, index)
+      } else {
+        renderer.render(this.deps.scene, camera)
+      }
+    })
+    renderer.setScissorTest(false)
+    renderer.setViewport(this.fullViewport)
+  }
+
+  /**
+   * Recompute the viewports after the window size changes
+   */
+  public handleResize(): void {
+    this.updateLayout()
+  }
+
+  /**
+   * Side by side for two players, a 2x2 grid for three or four (player 1 top-left)
+   */
+  private updateLayout(): void {
+    const width = window.innerWidth
+    const height = window.innerHeight
+    const count = this.guests.length + 1
+    this.fullViewport.set(0, 0, width, height)
+
+    if (count === 1) {
+      this.viewports = [this.fullViewport.clone()]
+    } else if (count === 2) {
+      const half = Math.floor(width / 2)
+      this.viewports = [
+        new THREE.Vector4(0, 0, half, height),
+        new THREE.Vector4(half, 0, width - half, height)
+      ]
+    } else {
+      const halfWidth = Math.floor(width / 2)
+      const halfHeight = Math.floor(height / 2)
+      this.viewports = [
+        new THREE.Vector4(0, height - halfHeight, halfWidth, halfHeight),
+        new THREE.Vector4(halfWidth, height - halfHeight, width - halfWidth, halfHeight),
+        new THREE.Vector4(0, 0, halfWidth, height - halfHeight),
+        new THREE.Vector4(halfWidth, 0, width - halfWidth, height - halfHeight)
+      ].slice(0, count)
+    }
+
+    this.deps.hud.setViewport(count === 1 ? null : this.toHUDViewport(this.viewports[0], height))
+    this.guests.forEach((guest, index) => {
+      guest.hud.setViewport(this.toHUDViewport(this.viewports[index + 1], height))
+    })
+    this.deps.retroPostProcessing?.releaseViewportTargets(count === 1 ? 0 : count)
+  }
+
+  private toHUDViewport(viewport: THREE.Vector4, screenHeight: number) {
+    return { left: viewport.x, top: screenHeight - viewport.y - viewport.w, width: viewport.z, height: viewport.w }
+  }
+
+  private fitAspect(camera: THREE.PerspectiveCamera | THREE.OrthographicCamera, viewport: THREE.Vector4): void {
+    const aspect = viewport.z / viewport.w
+    if (camera instanceof THREE.OrthographicCamera) {
+      // Keep the visible height, widen or narrow the view
+      const halfWidth = camera.top * aspect
+      if (camera.right !== halfWidth) {
+        camera.left = -halfWidth
+        camera.right = halfWidth
+        camera.updateProjectionMatrix()
+      }
+    } else if (camera.aspect !== aspect) {
+      camera.aspect = aspect
+      camera.updateProjectionMatrix()
+    }
+  }
+
+  private getGuestHUDData(guest: GuestPlayer): Partial<HUDData> {
+    const { controller } = guest
+    const position = controller.getPosition()
+    const velocity = controller.getVelocity()
+    const input = controller.getInputState()
+    const gamepad = guest.gamepadIndex !== null ? this.deps.inputSystem.getGamepadState(guest.gamepadIndex) : null
+
+    return {
+      position: { x: position.x, y: position.y, z: position.z },
+      velocity: { x: velocity.x, y: velocity.y, z: velocity.z },
+      onGround: controller.isOnGround(),
+      stamina: controller.getStaminaFraction(),
+      terrainHeight: this.deps.collisionSystem.getTerrainHeight(position.x, position.z),
+      keys: {
+        w: input.forward,
+        a: input.left,
+        s: input.backward,
+        d: input.right,
+        space: input.jump,
+        shift: input.run,
+        c: input.camera
+      },
+      mouse: { x: 0, y: 0, leftButton: false, rightButton: false },
+      gamepad: gamepad ? toHUDGamepad(gamepad) : undefined,
+      mode: 'player'
+    }
+  }
+
+  /**
+   * Split-screen summary for the console
+   */
+  public getInfo(): object {
+    return {
+      enabled: this.enabled,
+      players: this.getPlayerCount(),
+      primaryGamepad: this.primaryGamepad,
+      guests: this.guests.map(g => ({
+        player: g.number,
+        gamepad: g.gamepadIndex,
+        position: g.controller.getPosition().toArray().map(v => Number(v.toFixed(2)))
+      })),
+      viewports: this.viewports.map(v => v.toArray())
+    }
+  }
+
+  public dispose(): void {
+    for (const guest of [...this.guests]) {
+      this.removeGuest(guest.number)
+    }
+    this.playerSetup = null
+  }
+}
+
+/**
+ * Gamepad panel data for a HUD
+ */
+export function toHUDGamepad(gamepad: GamepadState): NonNullable<HUDData['gamepad']> {
+  return {
+    connected: gamepad.connected,
+    id: gamepad.id,
+    leftStick: { x: gamepad.axes.leftStickX, y: gamepad.axes.leftStickY },
+    rightStick: { x: gamepad.axes.rightStickX, y: gamepad.axes.rightStickY },
+    buttons: {
+      a: gamepad.buttons.a,
+      b: gamepad.buttons.b,
+      x: gamepad.buttons.x,
+      y: gamepad.buttons.y,
+      lb: gamepad.buttons.lb,
+      rb: gamepad.buttons.rb,
+      lt: gamepad.buttons.lt,
+      rt: gamepad.buttons.rt
+    }
+  }
+}
@@ -0,0 +1,234 @@
+import * as THREE from 'three'
+
+/**
+ * Land shader uniforms that affect vertex positions
+ */
+export interface LandDisplacementParams {
+  elevation: number
+  roughness: number
+  scale: number
+  time: number
+}
+
+/**
+ * CPU port of the vertex transform in land-vertex.glsl.
+ * The shader currently renders the geometry undisplaced (its elevation value only drives
+ * texturing), so this returns the local position unchanged. Keep the two in sync.
+ */
+export function displaceLandVertex(position: THREE.Vector3, _params: LandDisplacementParams): THREE.Vector3 {
+  return position
+}
+
+/**
+ * Read displacement parameters from a land mesh's shader uniforms
+ */
+export function getLandDisplacementParams(mesh: THREE.Mesh): LandDisplacementParams {
+  const uniforms = mesh.material instanceof THREE.ShaderMaterial ? mesh.material.uniforms : {}
+  return {
+    elevation: uniforms.uElevation?.value ?? 0,
+    roughness: uniforms.uRoughness?.value ?? 0,
+    scale: uniforms.uScale?.value ?? 1,
+    time: uniforms.uTime?.value ?? 0
+  }
+}
+
+/**
+ * Regularly sampled top-surface height of the land meshes.
+ *
+ * Built by running every vertex through the displacement port, then rasterizing the
+ * upward-facing world-space triangles into a grid (highest surface wins). Lookups are
+ * bilinear, so ground queries need no per-frame raycasts.
+ */
+export class TerrainHeightfield {
+  private cellSize: number
+  private origin: THREE.Vector2 = new THREE.Vector2()
+  private columns: number = 0
+  private rows: number = 0
+  private heights: Float32Array = new Float32Array(0) // NaN where no land covers the node
+  private triangleCount: number = 0
+
+  constructor(cellSize: number = 0.5) {
+    this.cellSize = cellSize
+  }
+
+  // ============================================================================
+  // BUILD
+  // ============================================================================
+
+  public build(meshes: THREE.Mesh[]): void {
+    const bounds = new THREE.Box3()
+    meshes.forEach(mesh => bounds.expandByObject(mesh))
+
+    this.triangleCount = 0
+    if (bounds.isEmpty()) {
+      this.columns = 0
+      this.rows = 0
+      this.heights = new Float32Array(0)
+      return
+    }
+
+    this.origin.set(bounds.min.x, bounds.min.z)
+    this.columns = Math.ceil((bounds.max.x - bounds.min.x) / this.cellSize) + 1
+    this.rows = Math.ceil((bounds.max.z - bounds.min.z) / this.cellSize) + 1
+    this.heights = new Float32Array(this.columns * this.rows).fill(NaN)
+
+    for (const mesh of meshes) {
+      this.rasterizeMesh(mesh)
+    }
+  }
+
+  private rasterizeMesh(mesh: THREE.Mesh): void {
+    const geometry = mesh.geometry
+    const positions = geometry.getAttribute('position')
+    if (!positions) return
+
+    mesh.updateMatrixWorld(true)
+    const params = getLandDisplacementParams(mesh)
+
+    // Displace in local space, then move to world space
+    const worldVertices: THREE.Vector3[] = []
+    for (let i = 0; i < positions.count; i++) {
+      const local = new THREE.Vector3().fromBufferAttribute(positions, i)
+      worldVertices.push(displaceLandVertex(local, params).applyMatrix4(mesh.matrixWorld))
+    }
+
+    const index = geometry.getIndex()
+    const triangleTotal = index ? index.count / 3 : positions.count / 3
+    for (let t = 0; t < triangleTotal; t++) {
+      const ia = index ? index.getX(t * 3) : t * 3
+      const ib = index ? index.getX(t * 3 + 1) : t * 3 + 1
+      const ic = index ? index.getX(t * 3 + 2) : t * 3 + 2
+      this.rasterizeTriangle(worldVertices[ia], worldVertices[ib], worldVertices[ic])
+    }
+  }
+
+  private rasterizeTriangle(a: THREE.Vector3, b: THREE.Vector3, c: THREE.Vector3): void {
+    // Only top surfaces count as ground (same rule the raycast used: normal.y > 0.5)
+    const abx = b.x - a.x, abz = b.z - a.z
+    const acx = c.x - a.x, acz = c.z - a.z
+    const normal = new THREE.Vector3().subVectors(b, a).cross(new THREE.Vector3().subVectors(c, a))
+    if (normal.lengthSq() < 1e-12) return
+    normal.normalize()
+    // Winding may be either way (land is rendered double-sided)
+    if (Math.abs(normal.y) <= 0.5) return
+
+    const area = abx * acz - abz * acx
+    if (Math.abs(area) < 1e-12) return
+
+    const minColumn = Math.max(0, Math.ceil((Math.min(a.x, b.x, c.x) - this.origin.x) / this.cellSize))
+    const maxColumn = Math.min(this.columns - 1, Math.floor((Math.max(a.x, b.x, c.x) - this.origin.x) / this.cellSize))
+    const minRow = Math.max(0, Math.ceil((Math.min(a.z, b.z, c.z) - this.origin.y) / this.cellSize))
+    const maxRow = Math.min(this.rows - 1, Math.floor((Math.max(a.z, b.z, c.z) - this.origin.y) / this.cellSize))
+    const epsilon = 1e-6
+
+    for (let row = minRow; row <= maxRow; row++) {
+      const z = this.origin.y + row * this.cellSize
+      for (let column = minColumn; column <= maxColumn; column++) {
+        const x = this.origin.x + column * this.cellSize
+
+        // Barycentric coordinates in the XZ plane
+        const px = x - a.x, pz = z - a.z
+        const v = (px * acz - pz * acx) / area
+        const w = (abx * pz - abz * px) / area
+        const u = 1 - v - w
+        if (u < -epsilon || v < -epsilon || w < -epsilon) continue
+
+        const height = u * a.y + v * b.y + w * c.y
+        const nodeIndex = row * this.columns + column
+        const current = this.heights[nodeIndex]
+        if (isNaN(current) || height > current) {
+          this.heights[nodeIndex] = height
+        }
+      }
+    }
+
+    this.triangleCount++
+  }
+
+  // ============================================================================
+  // QUERIES
+  // ============================================================================
+
+  /**
+   * Bilinear height lookup, or null where there is no land
+   */
+  public sampleHeight(x: number, z: number): number | null {
+    if (this.heights.length === 0) return null
+
+    const gx = (x - this.origin.x) / this.cellSize
+    const gz = (z - this.origin.y) / this.cellSize
+    if (gx < 0 || gz < 0 || gx > this.columns - 1 || gz > this.rows - 1) return null
+
+    const column = Math.min(Math.floor(gx), this.columns - 2)
+    const row = Math.min(Math.floor(gz), this.rows - 2)
+    const fx = gx - column
+    const fz = gz - row
+
+    const h00 = this.getNode(column, row)
+    const h10 = this.getNode(column + 1, row)
+    const h01 = this.getNode(column, row + 1)
+    const h11 = this.getNode(column + 1, row + 1)
+
+    if (isNaN(h00) || isNaN(h10) || isNaN(h01) || isNaN(h11)) {
+      // Along a coastline some corners are empty - use the highest covered corner
+      const covered = [h00, h10, h01, h11].filter(h => !isNaN(h))
+      return covered.length > 0 ? Math.max(...covered) : null
+    }
+
+    const top = h00 + (h10 - h00) * fx
+    const bottom = h01 + (h11 - h01) * fx
+    return top + (bottom - top) * fz
+  }
+
+  /**
+   * Surface normal from central differences of the heightfield
+   */
+  public sampleNormal(x: number, z: number, target: THREE.Vector3 = new THREE.Vector3()): THREE.Vector3 {
+    const center = this.sampleHeight(x, z)
+    if (center === null) {
+      return target.set(0, 1, 0)
+    }
+
+    const d = this.cellSize
+    const left = this.sampleHeight(x - d, z) ?? center
+    const right = this.sampleHeight(x + d, z) ?? center
+    const back = this.sampleHeight(x, z - d) ?? center
+    const front = this.sampleHeight(x, z + d) ?? center
+
+    return target.set(left - right, 2 * d, back - front).normalize()
+  }
+
+  public isEmpty(): boolean {
+    return this.heights.length === 0
+  }
+
+  /**
+   * XZ area covered by the sample grid (x in .x, z in .y), or null when empty
+   */
+  public getBounds(target: THREE.Box2 = new THREE.Box2()): THREE.Box2 | null {
+    if (this.isEmpty()) return null
+    target.min.copy(this.origin)
+    target.max.set(
+      this.origin.x + (this.columns - 1) * this.cellSize,
+      this.origin.y + (this.rows - 1) * this.cellSize
+    )
+    return target
+  }
+
+  public getStats(): { cellSize: number, columns: number, rows: number, triangles: number } {
+    return {
+      cellSize: this.cellSize,
+      columns: this.columns,
+      rows: this.rows,
+      triangles: this.triangleCount
+    }
+  }
+
+  // ============================================================================
+  // INTERNALS
+  // ============================================================================
+
+  private getNode(column: number, row: number): number {
+    return this.heights[row * this.columns + column]
+  }
+}
@@ -0,0 +1,352 @@
+import * as THREE from 'three'
+import { logger, LogModule } from './Logger'
+
+export type ViewportOverride = 'none' | 'wireframe' | 'normals' | 'depth'
+
+export const VIEWPORT_OVERRIDES: ViewportOverride[] = ['none', 'wireframe', 'normals', 'depth']
+
+/**
+ * A picture-in-picture viewport. The rectangle is in fractions of the screen, from the top-left.
+ */
+export interface ViewportConfig {
+  camera: string // Name of a registered camera
+  override: ViewportOverride
+  enabled: boolean
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+export interface ViewportInfo extends ViewportConfig {
+  id: number
+}
+
+interface Viewport extends ViewportInfo {
+  frame: HTMLDivElement
+  label: HTMLDivElement
+}
+
+const MIN_VIEWPORT_SIZE = 0.1 // Fraction of the screen
+const DEFAULT_VIEWPORT: ViewportConfig = {
+  camera: 'player',
+  override: 'none',
+  enabled: true,
+  x: 0.68,
+  y: 0.6,
+  width: 0.3,
+  height: 0.3
+}
+
+/**
+ * Picture-in-picture viewports for debugging: extra cameras (the player camera while flying
+ * the system camera, the map, ...) rendered into rectangles on top of the main view, each with
+ * an optional wireframe, normals or linear depth override. The frames can be dragged by their
+ * title bar and resized from the corner.
+ */
+export class ViewportManager {
+  private scene: THREE.Scene
+  private renderer: THREE.WebGLRenderer
+  private cameras: Map<string, () => THREE.Camera | null> = new Map()
+  private viewports: Viewport[] = []
+  private nextId: number = 1
+  private overrideMaterials: Record<Exclude<ViewportOverride, 'none'>, THREE.Material>
+  private depthMaterial: THREE.ShaderMaterial
+  private viewport: THREE.Vector4 = new THREE.Vector4()
+
+  constructor(scene: THREE.Scene, renderer: THREE.WebGLRenderer) {
+    this.scene = scene
+    this.renderer = renderer
+
+    // Linear view-space depth, white up close fading to black at uMaxDepth (MeshDepthMaterial's
+    // perspective depth is nearly all one shade at this scene's scale)
+    this.depthMaterial = new THREE.ShaderMaterial({
+      uniforms: {
+        uMaxDepth: { value: 200 }
+      },
+      vertexShader: `
+        varying float vViewDepth;
+        void main() {
+          vec4 mvPosition = modelViewMatrix * vec4(position, 1.0);
+          vViewDepth = -mvPosition.z;
+          gl_Position = projectionMatrix * mvPosition;
+        }
+      `,
+      fragmentShader: `
+        uniform float uMaxDepth;
+        varying float vViewDepth;
+        void main() {
+          float depth = clamp(vViewDepth / uMaxDepth, 0.0, 1.0);
+          gl_FragColor = vec4(vec3(1.0 - depth), 1.0);
+        }
+      `
+    })
+
+    this.overrideMaterials = {
+      wireframe: new THREE.MeshBasicMaterial({ color: 0x00ff88, wireframe: true }),
+      normals: new THREE.MeshNormalMaterial(),
+      depth: this.depthMaterial
+    }
+  }
+
+  // ============================================================================
+  // CAMERAS
+  // ============================================================================
+
+  /**
+   * Make a camera available to viewports; the getter runs every frame the camera is shown
+   */
+  public registerCamera(name: string, getCamera: () => THREE.Camera | null): void {
+    this.cameras.set(name, getCamera)
+  }
+
+  public getCameraNames(): string[] {
+    return Array.from(this.cameras.keys())
+  }
+
+  // ============================================================================
+  // VIEWPORTS
+  // ============================================================================
+
+  /**
+   * Add a viewport (new ones are stacked up from the bottom-right corner)
+   * @returns Its id, or null for an unknown camera
+   */
+  public addViewport(config: Partial<ViewportConfig> = {}): number | null {
+    const offset = this.viewports.length * 0.05
+    const settings: ViewportConfig = {
+      ...DEFAULT_VIEWPORT,
+      x: DEFAULT_VIEWPORT.x - offset,
+      y: DEFAULT_VIEWPORT.y - offset,
+      ...config
+    }
+    if (!this.cameras.has(settings.camera)) {
+      logger.warn(LogModule.RENDERING, `Unknown viewport camera "${settings.camera}" (available: ${this.getCameraNames().join(', ')})`)
+      return null
+    }
+
+    const { frame, label, handle } = this.createFrame()
+    const viewport: Viewport = { ...settings, id: this.nextId++, frame, label }
+    this.clampRect(viewport)
+    this.viewports.push(viewport)
+    this.setupFrameDragging(viewport, handle)
+    this.updateFrame(viewport)
+
+    logger.info(LogModule.RENDERING, `Viewport ${viewport.id} added (${viewport.camera} camera)`)
+    return viewport.id
+  }
+
+  public updateViewport(id: number, config: Partial<ViewportConfig>): boolean {
+    const viewport = this.viewports.find(v => v.id === id)
+    if (!viewport) return false
+    if (config.camera !== undefined && !this.cameras.has(config.camera)) {
+      logger.warn(LogModule.RENDERING, `Unknown viewport camera "${config.camera}"`)
+      return false
+    }
+
+    Object.assign(viewport, config)
+    this.clampRect(viewport)
+    this.updateFrame(viewport)
+    return true
+  }
+
+  public removeViewport(id: number): boolean {
+    const index = this.viewports.findIndex(v => v.id === id)
+    if (index < 0) return false
+
+    this.viewports[index].frame.remove()
+    this.viewports.splice(index, 1)
+    return true
+  }
+
+  public getViewports(): ViewportInfo[] {
+    return this.viewports.map(({ frame, label, ...info }) => ({ ...info }))
+  }
+
+  /**
+   * Distance that shows as black in the depth override
+   */
+  public setDepthRange(maxDepth: number): void {
+    this.depthMaterial.uniforms.uMaxDepth.value = Math.max(0.1, maxDepth)
+  }
+
+  public getDepthRange(): number {
+    return this.depthMaterial.uniforms.uMaxDepth.value
+  }
+
+  private clampRect(viewport: ViewportConfig): void {
+    viewport.width = THREE.MathUtils.clamp(viewport.width, MIN_VIEWPORT_SIZE, 1)
+    viewport.height = THREE.MathUtils.clamp(viewport.height, MIN_VIEWPORT_SIZE, 1)
+    viewport.x = THREE.MathUtils.clamp(viewport.x, 0, 1 - viewport.width)
+    viewport.y = THREE.MathUtils.clamp(viewport.y, 0, 1 - viewport.height)
+  }
+
+  // ============================================================================
+  // FRAMES (DOM)
+  // ============================================================================
+
+  /**
+   * Outline with a title bar to drag and a corner handle to resize; the inside lets clicks
+   * through to the canvas
+   */
+  private createFrame(): { frame: HTMLDivElement, label: HTMLDivElement, handle: HTMLDivElement } {
+    const frame = document.createElement('div')
+    frame.className = 'pip-viewport'
+    frame.style.cssText = `
+      position: fixed;
+      box-sizing: border-box;
+      border: 1px solid rgba(0, 255, 0, 0.6);
+      pointer-events: none;
+      z-index: 999;
+    `
+
+    const label = document.createElement('div')
+    label.style.cssText = `
+      position: absolute;
+      top: 0;
+      left: 0;
+      right: 0;
+      padding: 2px 6px;
+      background: rgba(0, 20, 0, 0.7);
+      color: #88ff88;
+      font-family: 'Courier New', monospace;
+      font-size: 10px;
+      cursor: move;
+      pointer-events: auto;
+      user-select: none;
+    `
+
+    const handle = document.createElement('div')
+    handle.style.cssText = `
+      position: absolute;
+      right: 0;
+      bottom: 0;
+      width: 12px;
+      height: 12px;
+      background: rgba(0, 255, 0, 0.6);
+      cursor: nwse-resize;
+      pointer-events: auto;
+    `
+
+    frame.appendChild(label)
+    frame.appendChild(handle)
+    document.body.appendChild(frame)
+    return { frame, label, handle }
+  }
+
+  private setupFrameDragging(viewport: Viewport, handle: HTMLDivElement): void {
+    const startDrag = (event: PointerEvent, resize: boolean) => {
+      event.preventDefault()
+      event.stopPropagation()
+      const start = { x: event.clientX, y: event.clientY, rect: { ...viewport } }
+
+      const onMove = (moveEvent: PointerEvent) => {
+        const dx = (moveEvent.clientX - start.x) / window.innerWidth
+        const dy = (moveEvent.clientY - start.y) / window.innerHeight
+        if (resize) {
+          viewport.width = start.rect.width + dx
+          viewport.height = start.rect.height + dy
+        } else {
+          viewport.x = start.rect.x + dx
+          viewport.y = start.rect.y + dy
+        }
+        this.clampRect(viewport)
+        this.updateFrame(viewport)
+      }
+      const onUp = () => {
+        window.removeEventListener('pointermove', onMove)
+        window.removeEventListener('pointerup', onUp)
+      }
+      window.addEventListener('pointermove', onMove)
+      window.addEventListener('pointerup', onUp)
+    }
+
+    viewport.label.addEventListener('pointerdown', event => startDrag(event, false))
+    handle.addEventListener('pointerdown', event => startDrag(event, true))
+    // Keep clicks on the frame controls away from object picking and pointer lock
+    viewport.frame.addEventListener('click', event => event.stopPropagation())
+  }
+
+  private updateFrame(viewport: Viewport): void {
+    const { frame, label } = viewport
+    frame.style.display = viewport.enabled ? 'block' : 'none'
+    frame.style.left = `${viewport.x * 100}%`
+    frame.style.top = `${viewport.y * 100}%`
+    frame.style.width = `${viewport.width * 100}%`
+    frame.style.height = `${viewport.height * 100}%`
+    label.textContent = `#${viewport.id} ${viewport.camera}${viewport.override !== 'none' ? ` · ${viewport.override}` : ''}`
+  }
+
+  // ============================================================================
+  // RENDERING
+  // ============================================================================
+
+  /**
+   * Draw the viewports on top of the main view (call after it has been rendered)
+   */
+  public render(): void {
+    const active = this.viewports.filter(viewport => viewport.enabled)
+    if (active.length === 0) return
+
+    const screenWidth = window.innerWidth
+    const screenHeight = window.innerHeight
+    const previousOverride = this.scene.overrideMaterial
+
+    this.renderer.setScissorTest(true)
+    active.forEach(viewport => {
+      const camera = this.cameras.get(viewport.camera)?.()
+      if (!camera) return
+
+      // WebGL viewports start at the bottom-left
+      const width = Math.round(viewport.width * screenWidth)
+      const height = Math.round(viewport.height * screenHeight)
+      this.viewport.set(
+        Math.round(viewport.x * screenWidth),
+        screenHeight - Math.round(viewport.y * screenHeight) - height,
+        width,
+        height
+      )
+
+      this.scene.overrideMaterial = viewport.override === 'none' ? null : this.overrideMaterials[viewport.override]
+      this.renderer.setViewport(this.viewport)
+      this.renderer.setScissor(this.viewport)
+      withAspect(camera, width / height, () => this.renderer.render(this.scene, camera))
+    })
+    this.scene.overrideMaterial = previousOverride
+    this.renderer.setScissorTest(false)
+    this.renderer.setViewport(0, 0, screenWidth, screenHeight)
+  }
+
+  public dispose(): void {
+    this.viewports.forEach(viewport => viewport.frame.remove())
+    this.viewports = []
+    Object.values(this.overrideMaterials).forEach(material => material.dispose())
+  }
+}
+
+/**
+ * Run a render with the camera's projection fitted to a viewport's aspect, then put it back
+ * (the camera may be the main view's, or one used for picking). Orthographic cameras keep their
+ * visible height.
+ */
+function withAspect(camera: THREE.Camera, aspect: number, render: () => void): void {
+  if (camera instanceof THREE.PerspectiveCamera) {
+    const previousAspect = camera.aspect
+    camera.aspect = aspect
+    camera.updateProjectionMatrix()
+    render()
+    camera.aspect = previousAspect
+    camera.updateProjectionMatrix()
+  } else if (camera instanceof THREE.OrthographicCamera) {
+    const { left, right } = camera
+    camera.left = -camera.top * aspect
+    camera.right = camera.top * aspect
+    camera.updateProjectionMatrix()
+    render()
+    camera.left = left
+    camera.right = right
+    camera.updateProjectionMatrix()
+  } else {
+    render()
+  }
+}